@@ -0,0 +1,223 @@
+import z from "zod";
+import { SearchObject } from "../domo/schemas.js";
+import { PricingConfig, SkuCreditRow, roundCost } from "../pricing/pricing.js";
+import { SkuUsage, dominantProvider, skuBreakdown } from "../pricing/skus.js";
+
+// ============================================================
+// AI AGENT CATALOG
+// ============================================================
+// One profile per agent seen in the credits dataset, Domo search or
+// the instance's `agents` registry. Sources, in order of precedence:
+//   registry  -> governance facts Domo does not expose (owner,
+//                guardrails, data classification, approval)
+//   search    -> name, description and owner of indexed agents
+//   built-in  -> DOMO_* agents ship with the platform
+//   credits   -> usage, tokens and cost per SKU
+// Facts no source provides are null, never a default guess.
+// ============================================================
+
+export const agentRegistrySchema = z
+  .record(
+    z.object({
+      name: z.string().min(1).optional(),
+      owner: z.string().min(1).optional(),
+      description: z.string().optional(),
+      guardrails: z.boolean().optional(),
+      dataClassification: z
+        .enum(["public", "internal", "confidential", "restricted"])
+        .optional(),
+      approved: z.boolean().optional(),
+    }),
+  )
+  .default({});
+
+export type AgentRegistry = z.infer<typeof agentRegistrySchema>;
+
+export type AgentStatus = "active" | "idle" | "unused";
+
+export interface AgentProfile {
+  agentId: string;
+  name: string;
+  description: string | null;
+  owner: string | null;
+  ownerSource: "registry" | "domo" | "built-in" | null;
+  modelProvider: string | null;
+  status: AgentStatus;
+  credits: number;
+  cost: number;
+  // Usage of request-counted SKUs; null when the agent only has token SKUs
+  invocations: number | null;
+  tokensIn: number | null;
+  tokensOut: number | null;
+  // Tokens of SKUs that do not split input from output
+  tokensUnsplit: number | null;
+  avgTokensIn: number | null;
+  avgTokensOut: number | null;
+  firstSeen: string | null;
+  lastSeen: string | null;
+  dailyCredits: { date: string; credits: number }[];
+  skus: SkuUsage[];
+  guardrails: boolean | null;
+  dataClassification: string | null;
+  approved: boolean | null;
+  registered: boolean;
+}
+
+export interface AgentCatalogSources {
+  pricing: PricingConfig;
+  skuProviders: Record<string, string>;
+  registry: AgentRegistry;
+  // Search objects by agent id
+  metadata: Map<string, SearchObject>;
+  // User id -> display name
+  users: Map<string, string>;
+  // Last day of the analysed window (YYYY-MM-DD)
+  untilDate: string;
+}
+
+const BUILT_IN_NAMES: Record<string, string> = {
+  DOMO_PAGE_BUILDER: "Page Builder Agent",
+  DOMO_BASIC_ASSISTANT: "Basic Assistant Agent",
+};
+
+// Used within this many days of the window end -> active
+const ACTIVE_WITHIN_DAYS = 7;
+const DAY = 24 * 60 * 60 * 1000;
+
+function isBuiltIn(agentId: string) {
+  return agentId.startsWith("DOMO_");
+}
+
+// DOMO_BASIC_ASSISTANT -> "Basic Assistant Agent"
+function builtInName(agentId: string) {
+  if (BUILT_IN_NAMES[agentId]) return BUILT_IN_NAMES[agentId];
+  const words = agentId
+    .replace(/^DOMO_/, "")
+    .toLowerCase()
+    .split("_")
+    .filter(Boolean)
+    .map((w) => w[0].toUpperCase() + w.slice(1));
+  return `${words.join(" ")} Agent`;
+}
+
+function sumByUnit(skus: SkuUsage[], unit: SkuUsage["unit"]) {
+  const matching = skus.filter((s) => s.unit === unit);
+  return matching.length > 0
+    ? matching.reduce((sum, s) => sum + s.usageQuantity, 0)
+    : null;
+}
+
+const perInvocation = (total: number | null, invocations: number | null) =>
+  total !== null && invocations ? Math.round(total / invocations) : null;
+
+/**
+ * Build agent profiles from credit rows and metadata.
+ *
+ * @param rows AI Agent credit rows of the analysed window
+ * @param sources Pricing, registry and Domo metadata of the instance
+ */
+export function buildAgentProfiles(
+  rows: SkuCreditRow[],
+  sources: AgentCatalogSources,
+): AgentProfile[] {
+  const rowsByAgent = new Map<string, SkuCreditRow[]>();
+  for (const row of rows) {
+    rowsByAgent.set(row.entityId, [
+      ...(rowsByAgent.get(row.entityId) ?? []),
+      row,
+    ]);
+  }
+  const ids = new Set([
+    ...rowsByAgent.keys(),
+    ...sources.metadata.keys(),
+    ...Object.keys(sources.registry),
+  ]);
+  const activeSince = new Date(
+    Date.parse(`${sources.untilDate}T00:00:00Z`) -
+      (ACTIVE_WITHIN_DAYS - 1) * DAY,
+  )
+    .toISOString()
+    .slice(0, 10);
+
+  return Array.from(ids).map((agentId) => {
+    const agentRows = rowsByAgent.get(agentId) ?? [];
+    const meta = sources.metadata.get(agentId);
+    const entry = sources.registry[agentId] ?? {};
+    const skus = skuBreakdown(
+      sources.pricing,
+      "AI Agent",
+      agentRows,
+      sources.skuProviders,
+    );
+
+    let owner: string | null = null;
+    let ownerSource: AgentProfile["ownerSource"] = null;
+    const domoOwner =
+      meta?.ownedByName ||
+      (meta?.ownedById != null
+        ? sources.users.get(String(meta.ownedById))
+        : undefined);
+    if (entry.owner) {
+      owner = entry.owner;
+      ownerSource = "registry";
+    } else if (domoOwner) {
+      owner = domoOwner;
+      ownerSource = "domo";
+    } else if (isBuiltIn(agentId)) {
+      owner = "Domo Platform";
+      ownerSource = "built-in";
+    }
+
+    const daily = new Map<string, number>();
+    for (const row of agentRows) {
+      daily.set(row.date, (daily.get(row.date) ?? 0) + row.creditsUsed);
+    }
+    const dates = Array.from(daily.keys()).sort();
+    const lastSeen = dates[dates.length - 1] ?? null;
+
+    const invocations = sumByUnit(skus, "requests");
+    const tokensIn = sumByUnit(skus, "input_tokens");
+    const tokensOut = sumByUnit(skus, "output_tokens");
+
+    return {
+      agentId,
+      name:
+        entry.name ||
+        meta?.name ||
+        (isBuiltIn(agentId) ? builtInName(agentId) : agentId),
+      description:
+        entry.description ??
+        (typeof meta?.metadata?.description === "string"
+          ? meta.metadata.description
+          : null),
+      owner,
+      ownerSource,
+      modelProvider: dominantProvider(skus),
+      status:
+        lastSeen === null
+          ? "unused"
+          : lastSeen >= activeSince
+            ? "active"
+            : "idle",
+      credits: roundCost(skus.reduce((sum, s) => sum + s.credits, 0)),
+      cost: roundCost(skus.reduce((sum, s) => sum + s.cost, 0)),
+      invocations: invocations === null ? null : Math.round(invocations),
+      tokensIn,
+      tokensOut,
+      tokensUnsplit: sumByUnit(skus, "tokens"),
+      avgTokensIn: perInvocation(tokensIn, invocations),
+      avgTokensOut: perInvocation(tokensOut, invocations),
+      firstSeen: dates[0] ?? null,
+      lastSeen,
+      dailyCredits: dates.map((date) => ({
+        date,
+        credits: roundCost(daily.get(date)!),
+      })),
+      skus,
+      guardrails: entry.guardrails ?? null,
+      dataClassification: entry.dataClassification ?? null,
+      approved: entry.approved ?? null,
+      registered: Boolean(sources.registry[agentId]),
+    };
+  });
+}
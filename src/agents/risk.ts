@@ -0,0 +1,168 @@
+import { AgentProfile } from "./catalog.js";
+
+// ============================================================
+// AGENT RISK SCORING
+// ============================================================
+// Rule-based and explainable: every rule that fires adds its points
+// and a human-readable reason. The score (capped at 100) maps to a
+// band:
+//   critical >= 60, high >= 40, medium >= 20, low otherwise
+// Rules only fire on facts that are known, except where the absence
+// of a fact is itself the risk (no owner, unverified guardrails).
+// ============================================================
+
+export type RiskBand = "low" | "medium" | "high" | "critical";
+
+export interface RiskReason {
+  rule: string;
+  points: number;
+  reason: string;
+}
+
+export interface RiskAssessment {
+  score: number;
+  band: RiskBand;
+  reasons: RiskReason[];
+}
+
+export interface RiskContext {
+  // Cost of all agents in the window, for spend concentration
+  totalAgentCost: number;
+  // Analysed window, YYYY-MM-DD inclusive
+  sinceDate: string;
+  untilDate: string;
+}
+
+interface RiskRule {
+  id: string;
+  points: number;
+  // Reason when the rule fires, null otherwise
+  evaluate(agent: AgentProfile, context: RiskContext): string | null;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const SPIKE_RECENT_DAYS = 7;
+const SPIKE_FACTOR = 2;
+const COST_SHARE_THRESHOLD = 0.5;
+const TOKENS_PER_CALL_THRESHOLD = 8000;
+const FIRST_PARTY_PROVIDERS = new Set(["Domo", "Domo AI"]);
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to) - Date.parse(from)) / DAY) + 1;
+
+const RULES: RiskRule[] = [
+  {
+    id: "no_owner",
+    points: 25,
+    evaluate: (agent) =>
+      agent.owner === null
+        ? "No owner in Domo or the agent registry; nobody is accountable for it"
+        : null,
+  },
+  {
+    id: "guardrails_disabled",
+    points: 25,
+    evaluate: (agent) =>
+      agent.guardrails === false ? "Guardrails are recorded as disabled" : null,
+  },
+  {
+    id: "guardrails_unverified",
+    points: 10,
+    evaluate: (agent) =>
+      agent.guardrails === null && agent.ownerSource !== "built-in"
+        ? "Guardrails are not recorded in the agent registry"
+        : null,
+  },
+  {
+    id: "sensitive_data",
+    points: 20,
+    evaluate: (agent) =>
+      agent.dataClassification === "confidential" ||
+      agent.dataClassification === "restricted"
+        ? `Handles ${agent.dataClassification} data`
+        : null,
+  },
+  {
+    id: "not_approved",
+    points: 15,
+    evaluate: (agent) =>
+      agent.approved === false ? "Not approved for use" : null,
+  },
+  {
+    id: "external_model",
+    points: 15,
+    evaluate: (agent) =>
+      agent.modelProvider && !FIRST_PARTY_PROVIDERS.has(agent.modelProvider)
+        ? `Sends prompts to an external model provider (${agent.modelProvider})`
+        : null,
+  },
+  {
+    id: "spend_spike",
+    points: 15,
+    evaluate: (agent, context) => {
+      const windowDays = daysBetween(context.sinceDate, context.untilDate);
+      const priorDays = windowDays - SPIKE_RECENT_DAYS;
+      if (priorDays < SPIKE_RECENT_DAYS) return null;
+      const recentStart = new Date(
+        Date.parse(`${context.untilDate}T00:00:00Z`) -
+          (SPIKE_RECENT_DAYS - 1) * DAY,
+      )
+        .toISOString()
+        .slice(0, 10);
+      let recent = 0;
+      let prior = 0;
+      for (const day of agent.dailyCredits) {
+        if (day.date >= recentStart) recent += day.credits;
+        else prior += day.credits;
+      }
+      const recentRate = recent / SPIKE_RECENT_DAYS;
+      const priorRate = prior / priorDays;
+      if (priorRate <= 0 || recentRate < SPIKE_FACTOR * priorRate) return null;
+      return `Daily credits over the last ${SPIKE_RECENT_DAYS} days are ${(recentRate / priorRate).toFixed(1)}x the earlier average`;
+    },
+  },
+  {
+    id: "cost_concentration",
+    points: 10,
+    evaluate: (agent, context) => {
+      if (context.totalAgentCost <= 0) return null;
+      const share = agent.cost / context.totalAgentCost;
+      return share >= COST_SHARE_THRESHOLD
+        ? `Accounts for ${Math.round(share * 100)}% of AI agent spend`
+        : null;
+    },
+  },
+  {
+    id: "high_token_volume",
+    points: 10,
+    evaluate: (agent) => {
+      const perCall = (agent.avgTokensIn ?? 0) + (agent.avgTokensOut ?? 0);
+      return perCall > TOKENS_PER_CALL_THRESHOLD
+        ? `Averages ${perCall} tokens per invocation`
+        : null;
+    },
+  },
+];
+
+function band(score: number): RiskBand {
+  if (score >= 60) return "critical";
+  if (score >= 40) return "high";
+  if (score >= 20) return "medium";
+  return "low";
+}
+
+export function assessAgentRisk(
+  agent: AgentProfile,
+  context: RiskContext,
+): RiskAssessment {
+  const reasons: RiskReason[] = [];
+  for (const rule of RULES) {
+    const reason = rule.evaluate(agent, context);
+    if (reason) reasons.push({ rule: rule.id, points: rule.points, reason });
+  }
+  const score = Math.min(
+    reasons.reduce((sum, r) => sum + r.points, 0),
+    100,
+  );
+  return { score, band: band(score), reasons };
+}
@@ -5,7 +5,127 @@ import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js"
 import { OpenAI } from "openai";
 import { Groq } from "groq-sdk";
 import dotenv from "dotenv";
-import axios from "axios";
+import {
+  getConfig,
+  listInstances,
+  requireCreditsDataset,
+  resolveAuthMode,
+  UnknownInstanceError,
+} from "./domo/config.js";
+import { DomoClient, getDomoClient } from "./domo/client.js";
+import {
+  currentRequestStats,
+  getInstanceRequestStats,
+  withRequestStats,
+} from "./domo/http.js";
+import { SearchObject, WorkflowSearchObject, WorkflowInstance, WorkflowModel } from "./domo/schemas.js";
+import { getCache } from "./cache/cache.js";
+import {
+  creditsByDate,
+  creditRowsForEntity,
+  creditsByEntityAndDate,
+  creditUsageBySku,
+  getSyncState,
+  listRuns,
+  listWorkflows,
+} from "./store/store.js";
+import { getSyncWorker, isStoreReady, storeCoveredFrom } from "./sync/worker.js";
+import {
+  InvalidRangeError,
+  TimeRange,
+  describeRange,
+  isoDate,
+  parseTimeRange,
+} from "./metrics/range.js";
+import { AttributableCreditRow, AttributionResult, attributeCredits } from "./metrics/attribution.js";
+import {
+  CreditCost,
+  SkuCreditRow,
+  activePeriod,
+  costByEntity,
+  effectiveRate,
+  roundCost,
+} from "./pricing/pricing.js";
+import { skuBreakdown } from "./pricing/skus.js";
+import { AgentProfile, buildAgentProfiles } from "./agents/catalog.js";
+import { RiskAssessment, assessAgentRisk } from "./agents/risk.js";
+import { LineageDirection, LineageNodeType, nodeKey } from "./lineage/graph.js";
+import {
+  LINEAGE_NODE_TYPES,
+  downstreamCounts,
+  loadDataflows,
+  loadLineageGraph,
+  loadLineageGraphWithModels,
+  loadWorkflowLineageGraph,
+} from "./lineage/service.js";
+import { ImpactRootType, analyzeImpact, blastRadius } from "./lineage/impact.js";
+import { RunFailure, describeGroup, groupBySignature } from "./workflows/errors.js";
+import { failureClusters, fetchRunFailures } from "./workflows/failures.js";
+import {
+  DataflowRun,
+  dataflowRunStats,
+  loadDataflowRunsSince,
+  toDataflowRun,
+  waitForDataflowRun,
+} from "./dataflows/executions.js";
+import {
+  budgetInputSchema,
+  createBudget,
+  deleteBudget,
+  listBudgets,
+  updateBudget,
+} from "./budgets/budgets.js";
+import {
+  ACTIVE_STATUSES,
+  DetectedIncident,
+  Incident,
+  IncidentAction,
+  IncidentStateError,
+  IncidentStatus,
+  addIncidentNote,
+  assignIncident,
+  getIncident,
+  incidentActionSchema,
+  incidentAssignSchema,
+  incidentHistory,
+  incidentNoteSchema,
+  listIncidents,
+  reconcileIncidents,
+  transitionIncident,
+} from "./incidents/incidents.js";
+import { ChannelConfig, severityRank } from "./notify/config.js";
+import {
+  DeliveryStatus,
+  inQuietHours,
+  listDeliveries,
+  sendTestNotification,
+} from "./notify/notifier.js";
+import { getNotifyWorker, notifySettings } from "./notify/worker.js";
+import { RuleContext, RuleEntity, RuleRun, getMetric, listMetrics } from "./rules/metrics.js";
+import { ScheduleCheck, checkSchedule, findSchedule, isScheduledTrigger } from "./schedules/detect.js";
+import { IncidentRule, RuleEvaluation, evaluateRule, evaluateRules, inScope, incidentKey, parseRule } from "./rules/engine.js";
+import {
+  BudgetEvaluation,
+  EntityDayCredits,
+  earliestPeriodStart,
+  evaluateBudgets,
+} from "./budgets/burn.js";
+import { AnomalySample, AnomalySettings, DEFAULT_ANOMALY_SETTINGS, dayAnomalies, runAnomalies } from "./metrics/anomalies.js";
+import {
+  MAX_BUCKETS,
+  TrendBucket,
+  bucketCount,
+  buildTrend,
+  parseBucketSize,
+  runDurationSeconds,
+} from "./metrics/trends.js";
+import {
+  ChatStream,
+  chatStreamFormat,
+  openChatStream,
+  readCompletionStream,
+  toolResultPreview,
+} from "./chat/stream.js";
 
 dotenv.config();
 
@@ -16,12 +136,10 @@ app.use(cors());
 const port = 3000;
 
 // ==================================================================================
-// CONFIGURATION - HARDCODED TO FIX 401 & 404 ERRORS
+// CONFIGURATION - Domo instances are defined in src/domo/config.ts
+// (env vars + optional DOMO_CONFIG_FILE). Every /api/* route takes
+// ?instance=<name> (or an X-Domo-Instance header) and defaults to the primary.
 // ==================================================================================
-const DOMO_DEVELOPER_TOKEN = "DDCI76138cf6c0d4d712a99283d40a94e6d44a89ca1bdac63da4";
-const DOMO_DOMAIN = "https://gwcteq-partner.domo.com";
-const DOMO_PUBLIC_API = "https://api.domo.com"; // REQUIRED for Dataset SQL Queries
-const CREDITS_DATASET_ID = "5847a9d2-cb5b-454b-8f25-5ecf367a1b82";
 
 // Initialize clients
 let client: Client | null = null;
@@ -29,8 +147,16 @@ let tools: any[] = [];
 let openai: OpenAI | null = null;
 let groq: Groq | null = null;
 
+// The wait tools poll for up to 10 minutes and report progress while
+// they do; each report restarts the 60s MCP request timeout
+const TOOL_CALL_OPTIONS = {
+  onprogress: () => {},
+  resetTimeoutOnProgress: true,
+  maxTotalTimeout: 11 * 60 * 1000,
+};
+
 // Helper to convert Domo timestamp to ISO string
-function convertDomoTimestamp(timestamp: string | number): string {
+function convertDomoTimestamp(timestamp: string | number | null | undefined): string {
   try {
     if (typeof timestamp === 'string') {
       const num = parseInt(timestamp);
@@ -90,10 +216,18 @@ let messages: any[] = [
     content: `You are a helpful assistant for the Domo AI Agent Compass. 
 You have access to tools for managing Domo users, searching and running Dataflows, querying collections, and managing Workflows.
 CRITICAL: Always prefer using tools over providing code snippets. If a user asks to trigger a workflow, use the 'trigger-workflow-message' tool.
+After triggering a workflow, use 'wait-for-workflow-instance' with the returned instance id and report how it finished, not just that it was triggered.
+If a user asks what depends on a workflow or dataflow, or what breaks if it fails, use the 'analyze-impact' tool.
+If a user asks why workflows keep failing or for common errors, use the 'get-recurring-failures' tool.
+After running a dataflow, use 'wait-for-dataflow-execution' to report its outcome; use 'list-dataflow-executions' for its run history.
 If required inputs for a tool are missing (like modelId or messageName for workflows), ask the user for them instead of giving code or making up values.`,
   },
 ];
 
+// POST /chat — body {prompt, provider?, model?, stream?}. Answers with
+// {response, provider, model}, or streams the answer and each tool call
+// as it happens (see src/chat/stream.ts) when `stream` is true or the
+// Accept header asks for text/event-stream or application/x-ndjson.
 app.post("/chat", async (req: any, res: any) => {
   const { prompt, provider = "groq", model } = req.body;
 
@@ -101,6 +235,9 @@ app.post("/chat", async (req: any, res: any) => {
     return res.status(400).json({ error: "Prompt is required" });
   }
 
+  const format = chatStreamFormat(req.body, req.get("accept"));
+  let events: ChatStream | null = null;
+
   try {
     if (!client) await initMcpClient();
 
@@ -137,6 +274,7 @@ app.post("/chat", async (req: any, res: any) => {
     if (messages.length > 10) {
       messages = [messages[0], ...messages.slice(-9)];
     }
+    const turnStart = messages.length - 1;
 
     const completionBody: any = {
       model: selectedModel,
@@ -151,83 +289,240 @@ app.post("/chat", async (req: any, res: any) => {
       })),
     };
 
-    const completion = await llmClient.chat.completions.create(completionBody);
-    const message = completion.choices[0].message;
+    if (format) {
+      events = openChatStream(res, format);
+      events.send("start", { provider: selectedProvider, model: selectedModel });
+    }
+    const stream = events;
+
+    // Streamed completions send the answer text as delta events
+    const complete = async (body: any) => {
+      if (!stream) {
+        const completion = await llmClient.chat.completions.create(body);
+        return completion.choices[0].message;
+      }
+      return readCompletionStream(
+        await llmClient.chat.completions.create({ ...body, stream: true }),
+        (content) => stream.send("delta", { content }),
+        () => stream.closed,
+      );
+    };
+
+    // A client that went away leaves no half-finished turn (e.g. tool
+    // calls without results) in the history
+    const abandoned = () => {
+      if (!stream?.closed) return false;
+      messages = messages.slice(0, turnStart);
+      return true;
+    };
+
+    const message = await complete(completionBody);
+    if (abandoned()) return;
     messages.push(message);
+    let response = message.content;
 
     if (message.tool_calls) {
       for (const toolCall of message.tool_calls) {
         if (toolCall.type !== "function") continue;
+        if (abandoned()) return;
 
         console.log(`Executing tool: ${toolCall.function.name}`);
-        const args = JSON.parse(toolCall.function.arguments);
-
-        const result = await client!.callTool({
+        const args = JSON.parse(toolCall.function.arguments || "{}");
+        stream?.send("tool_call", {
+          id: toolCall.id,
           name: toolCall.function.name,
           arguments: args,
         });
 
+        const startedAt = Date.now();
+        const result = await client!.callTool(
+          { name: toolCall.function.name, arguments: args },
+          undefined,
+          TOOL_CALL_OPTIONS,
+        );
+        stream?.send("tool_result", {
+          id: toolCall.id,
+          name: toolCall.function.name,
+          isError: result.isError === true,
+          durationMs: Date.now() - startedAt,
+          ...toolResultPreview(result.content),
+        });
+
         messages.push({
           role: "tool",
           tool_call_id: toolCall.id,
           content: JSON.stringify(result.content),
         });
       }
+      if (abandoned()) return;
 
       // Get final response
-      const finalCompletion = await llmClient.chat.completions.create({
+      const finalMessage = await complete({
         model: selectedModel,
         messages: messages,
       });
+      if (abandoned()) return;
 
-      const finalContent = finalCompletion.choices[0].message.content;
-      messages.push(finalCompletion.choices[0].message);
-
-      return res.json({
-        response: finalContent,
-        provider: selectedProvider,
-        model: selectedModel,
-      });
+      messages.push(finalMessage);
+      response = finalMessage.content;
     }
 
-    return res.json({
-      response: message.content,
+    const answer = {
+      response,
       provider: selectedProvider,
       model: selectedModel,
-    });
+    };
+    if (!stream) return res.json(answer);
+    stream.send("done", answer);
+    stream.end();
   } catch (error: any) {
     console.error("Error processing request:", error);
-    res.status(500).json({ error: error.message });
+    if (!events) return res.status(500).json({ error: error.message });
+    events.send("error", { error: error.message });
+    events.end();
+  }
+});
+
+// ============================================================
+// INSTANCE SELECTOR — resolves ?instance= / X-Domo-Instance
+// for every /api/* route, defaulting to the primary instance.
+// Each request also gets its own Domo retry/give-up counters.
+// ============================================================
+app.use("/api", (req, res, next) => {
+  const requested = (req.query.instance as string) || req.get("X-Domo-Instance");
+  try {
+    res.locals.domo = getDomoClient(requested);
+    withRequestStats(() => next());
+  } catch (error: any) {
+    if (error instanceof UnknownInstanceError) {
+      return res.status(400).json({ error: error.message });
+    }
+    next(error);
+  }
+});
+
+// List configured instances (names and domains only — never credentials)
+app.get("/api/instances", (req, res) => {
+  const { primary } = getConfig();
+  res.json({
+    primary,
+    instances: listInstances().map((i) => ({
+      name: i.name,
+      domain: i.domain,
+      primary: i.name === primary,
+      auth: resolveAuthMode(i),
+      hasCreditsDataset: Boolean(i.creditsDatasetId),
+    })),
+  });
+});
+
+// Credit pricing of the current instance (?instance=) and the
+// contract period in effect today
+app.get("/api/pricing", (req, res) => {
+  const domo: DomoClient = res.locals.domo;
+  const { pricing } = domo.instance;
+  const today = isoDate(new Date());
+  res.json({
+    instance: domo.instance.name,
+    ...pricing,
+    currentPeriod: activePeriod(pricing, today) ?? null,
+  });
+});
+
+// Domo request health per instance since startup (retries, 429s, give-ups)
+app.get("/api/health/domo", (req, res) => {
+  res.json({ instances: getInstanceRequestStats() });
+});
+
+// ============================================================
+// CACHE ADMIN — inspect and purge cached Domo data
+// DELETE /api/admin/cache?resource=credits&key=...  (current instance)
+// DELETE /api/admin/cache?all=true                  (every instance)
+// Set ADMIN_TOKEN to require a matching X-Admin-Token header.
+// ============================================================
+function requireAdmin(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (adminToken && req.get("X-Admin-Token") !== adminToken) {
+    return res.status(401).json({ error: "Admin token required" });
   }
+  next();
+}
+
+app.get("/api/admin/cache", requireAdmin, (req, res) => {
+  res.json(getCache().describe());
+});
+
+app.delete("/api/admin/cache", requireAdmin, (req, res) => {
+  const domo: DomoClient = res.locals.domo;
+  const all = req.query.all === "true";
+  const removed = getCache().purge({
+    instance: all ? undefined : domo.instance.name,
+    resource: (req.query.resource as string) || undefined,
+    key: (req.query.key as string) || undefined
+  });
+  console.log(`Cache purge: removed ${removed} entries`);
+  res.json({ removed, stats: getCache().stats() });
+});
+
+// ============================================================
+// SYNC ADMIN — local store snapshot status and manual sync
+// POST /api/admin/sync starts a pass for the current instance
+// ============================================================
+app.get("/api/admin/sync", requireAdmin, (req, res) => {
+  res.json({ instances: getSyncWorker().status() });
+});
+
+app.post("/api/admin/sync", requireAdmin, (req, res) => {
+  const domo: DomoClient = res.locals.domo;
+  getSyncWorker()
+    .syncInstance(domo.instance.name)
+    .catch((e) => console.error(`Manual sync of ${domo.instance.name} failed: ${e.message}`));
+  res.status(202).json({ started: true, instance: domo.instance.name });
 });
 
+// Attached to aggregate responses: if any Domo call gave up after
+// retries, the numbers are built from incomplete data. `source` says
+// whether runs came from the synced store or live Domo calls; a range
+// reaching back before the store's backfill is fetched live.
+function dataQuality(domo: DomoClient, range?: TimeRange) {
+  const stats = currentRequestStats();
+  const fromStore = isStoreReady(domo.instance.name, "runs", range?.from);
+  const syncedAt = fromStore ? getSyncState(domo.instance.name, "runs")?.lastSuccessAt : null;
+  return {
+    partial: (stats?.giveUps ?? 0) > 0,
+    domoRequests: stats?.requests ?? 0,
+    retries: stats?.retries ?? 0,
+    rateLimited: stats?.rateLimited ?? 0,
+    giveUps: stats?.giveUps ?? 0,
+    source: fromStore ? "store" : "live",
+    syncedAt: syncedAt ? new Date(syncedAt).toISOString() : null
+  };
+}
+
+// Every analytics route takes ?window=7d|30d|90d or ?from=&to=
+function analyticsRange(query: Record<string, unknown>, defaultWindow: string) {
+  return parseTimeRange(query, { defaultWindow, maxDays: 366 });
+}
+
 /* 
 ====================================================
 DOMO WORKFLOW INTEGRATION WITH PROPER DATA MAPPING
 ====================================================
 */
 
-async function fetchUsers(token: string) {
+async function fetchUsers(domo: DomoClient) {
   try {
-    const res = await axios.get(
-      `${DOMO_DOMAIN}/api/content/v3/users?limit=500&offset=0&active=true`,
-      {
-        headers: {
-          "X-DOMO-Developer-Token": token,
-          "Accept": "application/json"
-        }
-      }
-    );
+    return await getCache().getOrLoad(domo.instance.name, "users", "all", async () => {
+      const users = await domo.listUsers({ limit: 500, offset: 0, active: true });
 
-    const map = new Map<string, string>();
-    if (res.data && Array.isArray(res.data)) {
-      res.data.forEach((u: any) => {
+      const map = new Map<string, string>();
+      users.forEach((u) => {
         // Get proper user name from Domo
         const name = u.displayName || u.name || u.userName || `User ${u.id}`;
         map.set(String(u.id), name);
       });
-    }
-    return map;
+      return map;
+    });
   } catch (e: any) {
     console.error("Error fetching users:", e.message);
     return new Map();
@@ -242,40 +537,55 @@ async function fetchUsers(token: string) {
 // ============================================================
 
 // ============================================================
-// FETCH REAL CREDITS (LAST 7 DAYS) USING DOMO SQL QUERY
+// FETCH REAL CREDITS FOR A TIME WINDOW USING DOMO SQL QUERY
 // ============================================================
-async function fetchRealCreditsMap(token: string): Promise<Map<string, number>> {
-  try {
-    const endpoint = `${DOMO_DOMAIN}/api/query/v1/execute/${CREDITS_DATASET_ID}`;
+// Rows stay split by day and SKU so each can be priced at the rate
+// of its contract period (see pricing/pricing.ts). Raw rows are
+// cached, not costs, so pricing changes apply without a purge.
+// Ids that go into credits dataset SQL come from request paths. Domo
+// ids are UUIDs or other word characters, so anything else is refused
+// rather than escaped.
+function sqlId(id: string) {
+  if (!/^[\w.-]+$/.test(id)) throw new Error(`Invalid id for a credits query: ${JSON.stringify(id)}`);
+  return id;
+}
+
+async function fetchSkuCreditRows(domo: DomoClient, entityType: string, range: TimeRange): Promise<SkuCreditRow[]> {
+  const sinceDate = isoDate(range.from);
+  const untilDate = isoDate(range.to);
+  if (isStoreReady(domo.instance.name, "credits", range.from)) {
+    return creditUsageBySku(domo.instance.name, entityType, sinceDate, untilDate);
+  }
+  return getCache().getOrLoad(domo.instance.name, "credits", `sku-days:${entityType}:${sinceDate}:${untilDate}`, async () => {
+    const datasetId = requireCreditsDataset(domo.instance);
 
     const sql = `
-      SELECT entityId, SUM(creditsUsed)
+      SELECT entityId, date, skuId, SUM(usageQuantity), SUM(creditsUsed)
       FROM credit_usage
-      WHERE entityType = 'Workflow'
-        AND date >= CURRENT_DATE - INTERVAL '30' DAY
-      GROUP BY entityId
+      WHERE entityType = '${entityType}'
+        AND date >= '${sinceDate}' AND date <= '${untilDate}'
+      GROUP BY entityId, date, skuId
     `;
 
-    // AND skuId IN ('workflows-task-completed')
-
-    const res = await axios.post(endpoint, { sql }, {
-      headers: {
-        "Content-Type": "application/json",
-        "X-DOMO-Developer-Token": token
-      }
-    });
-
-    const map = new Map<string, number>();
-    const rows = res.data?.rows || [];
-
-    rows.forEach((row: any) => {
-      const workflowId = String(row[0]);
-      const credits = parseFloat(row[1]);
-      if (workflowId && !isNaN(credits)) {
-        map.set(workflowId, credits);
-      }
-    });
+    const { rows } = await domo.queryDataset(datasetId, sql);
+
+    return rows
+      .filter((row) => row[0] != null && row[0] !== "")
+      .map((row) => ({
+        entityId: String(row[0]),
+        date: String(row[1]).slice(0, 10),
+        skuId: row[2] != null && row[2] !== "" ? String(row[2]) : null,
+        usageQuantity: parseFloat(row[3]) || 0,
+        creditsUsed: parseFloat(row[4]) || 0
+      }));
+  });
+}
 
+// Credits and cost per workflow id in the window
+async function fetchRealCreditsMap(domo: DomoClient, range: TimeRange): Promise<Map<string, CreditCost>> {
+  try {
+    const rows = await fetchSkuCreditRows(domo, "Workflow", range);
+    const map = costByEntity(domo.instance.pricing, "Workflow", rows);
     console.log(`Credits map loaded: ${map.size} workflows`);
     return map;
   } catch (error) {
@@ -283,67 +593,60 @@ async function fetchRealCreditsMap(token: string): Promise<Map<string, number>>
     return new Map();
   }
 }
-
-
-async function fetchExecutionCreditsMap(token: string, workflowId: string) {
+// Credits and cost per SKU for one workflow in the window
+async function fetchWorkflowSkuUsage(domo: DomoClient, workflowId: string, range: TimeRange) {
   try {
-    const endpoint = `${DOMO_DOMAIN}/api/query/v1/execute/${CREDITS_DATASET_ID}`;
-
-    const sql = `
-  SELECT
-    instanceId,
-    SUM(creditsUsed) AS total_credits
-  FROM credit_usage
-  WHERE entityType = 'Workflow'
-    AND entityId = '${workflowId}'
-    AND skuId IN ('workflows-task-completed')
-    
-  GROUP BY instanceId
-`;
-
-    const res = await axios.post(
-      endpoint,
-      { sql },
-      {
-        headers: {
-          "Content-Type": "application/json",
-          "X-DOMO-Developer-Token": token
-        }
-      }
-    );
-
-    const rows = res.data?.rows || [];
-    const map = new Map<string, number>();
+    const rows = (await fetchSkuCreditRows(domo, "Workflow", range)).filter((r) => r.entityId === workflowId);
+    return skuBreakdown(domo.instance.pricing, "Workflow", rows, domo.instance.skuProviders);
+  } catch (e: any) {
+    console.error("Workflow SKU breakdown failed:", e.message);
+    return [];
+  }
+}
 
-    console.log(`=== Credits dataset rows for workflow ${workflowId} ===`);
-    console.log(`Total credit rows: ${rows.length}`);
-    rows.forEach((row: any) => {
-      const instanceId = String(row[0]);
-      const credits = parseFloat(row[1]);
-      console.log(`  DATASET instanceId="${instanceId}" credits=${credits}`);
-      map.set(instanceId, credits);
+// Credit rows of one workflow in the window, summed per day and dataset instanceId
+async function fetchWorkflowCreditRows(domo: DomoClient, workflowId: string, range: TimeRange): Promise<AttributableCreditRow[]> {
+  const sinceDate = isoDate(range.from);
+  const untilDate = isoDate(range.to);
+  try {
+    if (isStoreReady(domo.instance.name, "credits", range.from)) {
+      return creditRowsForEntity(domo.instance.name, "Workflow", workflowId, sinceDate, untilDate);
+    }
+    return await getCache().getOrLoad(domo.instance.name, "credits", `rows:${workflowId}:${sinceDate}:${untilDate}`, async () => {
+      const datasetId = requireCreditsDataset(domo.instance);
+
+      const sql = `
+        SELECT date, instanceId, SUM(creditsUsed)
+        FROM credit_usage
+        WHERE entityType = 'Workflow'
+          AND entityId = '${sqlId(workflowId)}'
+          AND date >= '${sinceDate}' AND date <= '${untilDate}'
+        GROUP BY date, instanceId
+      `;
+
+      const { rows } = await domo.queryDataset(datasetId, sql);
+
+      return rows.map((row) => ({
+        date: String(row[0]).slice(0, 10),
+        instanceId: row[1] != null && row[1] !== "" ? String(row[1]) : null,
+        creditsUsed: parseFloat(row[2]) || 0
+      }));
     });
-
-    return map;
   } catch (e: any) {
-    console.error("Execution credit fetch failed:", e.message);
-    return new Map();
+    console.error("Workflow credit rows fetch failed:", e.message);
+    return [];
   }
 }
 
+// Per-run credits for `runs` (all runs of the workflow in `range`), see metrics/attribution.ts
+async function attributeWorkflowCredits(domo: DomoClient, workflowId: string, runs: WorkflowInstance[], range: TimeRange) {
+  return attributeCredits(runs, await fetchWorkflowCreditRows(domo, workflowId, range));
+}
+
 // Get workflow trigger type from executions
-async function getWorkflowTriggerType(token: string, workflowId: string): Promise<string> {
+async function getWorkflowTriggerType(domo: DomoClient, workflowId: string): Promise<string> {
   try {
-    const exeRes = await axios.get(
-      `${DOMO_DOMAIN}/api/workflow/v1/instances?modelId=${workflowId}&limit=1&sort=createdOn:desc`,
-      {
-        headers: {
-          "X-DOMO-Developer-Token": token
-        }
-      }
-    );
-
-    const executions = exeRes.data || [];
+    const executions = await fetchRecentExecutions(domo, workflowId, 1);
     if (executions.length > 0) {
       const trigger = executions[0].triggerType || "manual";
       // Map Domo trigger types to your UI types
@@ -360,74 +663,65 @@ async function getWorkflowTriggerType(token: string, workflowId: string): Promis
 }
 
 // Get total usage (execution count) for workflow
-async function getWorkflowUsage(token: string, workflowId: string): Promise<number> {
+async function getWorkflowUsage(domo: DomoClient, workflowId: string): Promise<number> {
   try {
     // Get total execution count
-    const exeRes = await axios.get(
-      `${DOMO_DOMAIN}/api/workflow/v1/instances?modelId=${workflowId}&limit=1000`,
-      {
-        headers: {
-          "X-DOMO-Developer-Token": token
-        }
-      }
-    );
+    const executions = await fetchRecentExecutions(domo, workflowId, 1000);
 
-    return exeRes.data?.length || 0;
+    return executions.length;
   } catch (error) {
     // console.log(`Could not get usage for ${workflowId}`);
     return 0;
   }
 }
 
-// Get last 7 days execution count
-async function getLast30DaysExecutions(token: string, workflowId: string): Promise<number> {
+// Execution count of a workflow in the window
+async function countExecutionsInRange(domo: DomoClient, workflowId: string, range: TimeRange): Promise<number> {
   try {
-    const thirtyDaysAgo = new Date();
-    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-
-    const exeRes = await axios.get(
-      `${DOMO_DOMAIN}/api/workflow/v1/instances?modelId=${workflowId}&limit=100&sort=createdOn:desc`,
-      {
-        headers: {
-          "X-DOMO-Developer-Token": token
-        }
-      }
-    );
+    return (await fetchExecutionsInRange(domo, workflowId, range)).length;
+  } catch (error) {
+    return 0;
+  }
+}
 
-    const executions = exeRes.data || [];
-    const recentExecutions = executions.filter((exe: any) => {
-      const execDate = new Date(exe.createdOn).getTime();
-      return execDate >= thirtyDaysAgo.getTime();
+// Latest `limit` executions of a workflow, newest first
+async function fetchRecentExecutions(domo: DomoClient, workflowId: string, limit: number) {
+  if (isStoreReady(domo.instance.name)) {
+    return listRuns(domo.instance.name, { modelId: workflowId, limit });
+  }
+  return getCache().getOrLoad(domo.instance.name, "executions", `recent:${workflowId}:${limit}`, () =>
+    domo.listWorkflowInstances({ modelId: workflowId, limit })
+  );
+}
 
+// ================= PAGINATED EXECUTION FETCH (TIME WINDOW) =================
+async function fetchExecutionsInRange(domo: DomoClient, workflowId: string, range: TimeRange) {
+  if (isStoreReady(domo.instance.name, "runs", range.from)) {
+    return listRuns(domo.instance.name, {
+      modelId: workflowId,
+      since: range.from.getTime(),
+      until: range.to.getTime()
     });
-
-    return recentExecutions.length;
-  } catch (error) {
-    // console.log(`Could not get 7-day executions for ${workflowId}`);
-    return 0;
   }
+  // Keyed by the minute so "last 30d" requests share a cache entry
+  const fromMinute = Math.floor(range.from.getTime() / 60000);
+  const executions = await getCache().getOrLoad(domo.instance.name, "executions", `since:${workflowId}:${fromMinute}`, () =>
+    loadExecutionsSince(domo, workflowId, range.from)
+  );
+  return executions.filter((exe) => new Date(exe.createdOn) <= range.to);
 }
 
-// ================= PAGINATED EXECUTION FETCH (LAST 7 DAYS) =================
-async function fetchExecutionsLast30Days(token: string, workflowId: string) {
+// Uncached fetch — use fetchExecutionsInRange
+// Pages newest-first through a workflow's executions until one is older than `since`
+async function loadExecutionsSince(domo: DomoClient, workflowId: string, since: Date) {
   const limit = 100;
   let offset = 0;
-  let allExecutions: any[] = [];
+  let allExecutions: WorkflowInstance[] = [];
 
-  const thirtyDaysAgo = new Date();
-  thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-
-  console.log(`Fetching executions after: ${thirtyDaysAgo.toISOString()}`);
+  console.log(`Fetching executions after: ${since.toISOString()}`);
 
   while (true) {
-    const res = await axios.get(
-      `${DOMO_DOMAIN}/api/workflow/v1/instances?modelId=${workflowId}&limit=${limit}&offset=${offset}&sort=createdOn:desc`,
-      {
-        headers: { "X-DOMO-Developer-Token": token }
-      }
-    );
-
-    const executions = res.data || [];
+    const executions = await domo.listWorkflowInstances({ modelId: workflowId, limit, offset });
     console.log(`Fetched ${executions.length} executions at offset ${offset}`);
 
     if (executions.length === 0) break;
@@ -435,12 +729,11 @@ async function fetchExecutionsLast30Days(token: string, workflowId: string) {
     let hitOldData = false;
     for (const exe of executions) {
       const execDate = new Date(exe.createdOn);
-      console.log(`  exe.id=${exe.id} createdOn=${exe.createdOn} passes30d=${execDate >= thirtyDaysAgo}`);
 
-      if (execDate >= thirtyDaysAgo) {
+      if (execDate >= since) {
         allExecutions.push(exe);
       } else {
-        // Older than 30 days - stop fetching
+        // Older than the range - stop fetching
         hitOldData = true;
         break;
       }
@@ -450,58 +743,39 @@ async function fetchExecutionsLast30Days(token: string, workflowId: string) {
     offset += limit;
   }
 
-  console.log(`Total executions within 30 days: ${allExecutions.length}`);
+  console.log(`Total executions since ${since.toISOString()}: ${allExecutions.length}`);
   return allExecutions;
 }
-// ===================== (DEPRECATED: Old Credits Fetcher) =====================
-// Kept for reference but replaced by fetchRealCreditsMap
-async function fetchCreditsFromDataset(token: string) {
-  // Logic replaced by fetchRealCreditsMap
-  return [];
-}
+// Failed runs' step-level errors come from fetchRunFailures (src/workflows/failures.ts)
+const NO_ERROR_DETAILS = "Failed — Domo returned no error details for this run";
 
 // ============================================================
 // FETCH ALL WORKFLOWS WITH PAGINATION — Industry Standard
 // Handles any number of workflows (100, 1000, 10000+)
 // ============================================================
-async function fetchAllWorkflows(token: string): Promise<any[]> {
+async function fetchAllWorkflows(domo: DomoClient): Promise<WorkflowSearchObject[]> {
+  if (isStoreReady(domo.instance.name, "workflows")) {
+    return listWorkflows(domo.instance.name);
+  }
+  return getCache().getOrLoad(domo.instance.name, "workflows", "all", () =>
+    loadAllWorkflows(domo)
+  );
+}
+
+// Uncached fetch — use fetchAllWorkflows
+async function loadAllWorkflows(domo: DomoClient): Promise<WorkflowSearchObject[]> {
   const pageSize = 100; // Domo recommended page size
   let offset = 0;
-  let allWorkflows: any[] = [];
+  let allWorkflows: WorkflowSearchObject[] = [];
   let totalCount = 0;
 
   console.log("=== Fetching ALL workflows with pagination ===");
 
   while (true) {
-    const searchPayload = {
-      query: "*",
-      entityList: [["workflow_model"]],
-      count: pageSize,
-      offset: offset,
-      sort: {
-        fieldSorts: [{ field: "last_modified", sortOrder: "DESC" }],
-        isRelevance: false
-      },
-      filters: [],
-      useEntities: true,
-      combineResults: true,
-      facetValueLimit: 1000,
-      hideSearchObjects: false
-    };
-
-    const searchRes = await axios.post(
-      `${DOMO_DOMAIN}/api/search/v1/query`,
-      searchPayload,
-      {
-        headers: {
-          "Content-Type": "application/json",
-          "X-DOMO-Developer-Token": token
-        }
-      }
-    );
+    const searchRes = await domo.searchWorkflows({ query: "*", count: pageSize, offset });
 
-    const searchObjects = searchRes.data?.searchObjects || [];
-    totalCount = searchRes.data?.totalResultCount || 0;
+    const searchObjects = searchRes.searchObjects;
+    totalCount = searchRes.totalResultCount;
 
     if (searchObjects.length === 0) break;
 
@@ -524,14 +798,13 @@ async function fetchAllWorkflows(token: string): Promise<any[]> {
 
 app.get("/api/workflows", async (req, res) => {
   try {
-    console.log("=== Fetching Domo workflows with proper data mapping ===");
-
-    // Use Hardcoded Token
-    const TOKEN = DOMO_DEVELOPER_TOKEN;
+    const domo: DomoClient = res.locals.domo;
+    const range = analyticsRange(req.query, "30d");
 
     // 1. Fetch Real Credits Map First
-    const creditsMapPromise = fetchRealCreditsMap(TOKEN);
-    const userMapPromise = fetchUsers(TOKEN);
+    const creditsMapPromise = fetchRealCreditsMap(domo, range);
+    const userMapPromise = fetchUsers(domo);
+    const lineagePromise = loadLineageGraph(domo);
 
     // Get query parameters
     const page = parseInt(req.query.page as string) || 1;
@@ -539,53 +812,22 @@ app.get("/api/workflows", async (req, res) => {
     const search = (req.query.search as string) || "";
     const offset = (page - 1) * limit;
 
-    console.log(`Page: ${page}, Limit: ${limit}, Offset: ${offset}, Search: "${search}"`);
-
     // Build search query
     const query = search ? `*${search}*` : "*";
 
     // Fetch workflows from Domo Search API
-    const searchPayload = {
-      query: query,
-      entityList: [["workflow_model"]],
+    const searchData = await domo.searchWorkflows({
+      query,
       count: search ? 1000 : limit,
       offset: search ? 0 : offset,
-      sort: {
-        fieldSorts: [
-          {
-            field: "last_modified",
-            sortOrder: "DESC"
-          }
-        ],
-        isRelevance: search ? true : false
-      },
-      filters: [],
-      useEntities: true,
-      combineResults: true,
-      facetValueLimit: 1000,
-      hideSearchObjects: false
-    };
-
-    const searchRes = await axios.post(
-      `${DOMO_DOMAIN}/api/search/v1/query`,
-      searchPayload,
-      {
-        headers: {
-          "Content-Type": "application/json",
-          "X-DOMO-Developer-Token": TOKEN
-        }
-      }
-    );
-
-    const searchData = searchRes.data;
-    const totalWorkflows = searchData.totalResultCount || 0;
-    let searchObjects = searchData.searchObjects || [];
-
-    console.log(`✓ Found ${totalWorkflows} total workflows, showing ${searchObjects.length}`);
+      isRelevance: Boolean(search)
+    });
+    const totalWorkflows = searchData.totalResultCount;
+    let searchObjects = searchData.searchObjects;
 
     // Filter search results if search term provided
     if (search) {
-      searchObjects = searchObjects.filter((obj: any) => {
+      searchObjects = searchObjects.filter((obj) => {
         const workflowName = obj.name || "";
         const ownerName = obj.ownedByName || "";
         return workflowName.toLowerCase().includes(search.toLowerCase()) ||
@@ -599,62 +841,43 @@ app.get("/api/workflows", async (req, res) => {
     // Await maps
     const creditsMap = await creditsMapPromise;
     const userMap = await userMapPromise;
+    const lineage = await lineagePromise;
 
     // Process workflows with proper data mapping
     const workflows = await Promise.all(
-      searchObjects.map(async (obj: any) => {
+      searchObjects.map(async (obj) => {
         const workflowId = obj.uuid;
 
         // Get Real Credits (Fixes "1 1 1")
-        const realCredits = creditsMap.get(workflowId) || 0;
+        const realCredits = creditsMap.get(workflowId)?.credits || 0;
+        const realCost = creditsMap.get(workflowId)?.cost || 0;
 
-        // Get execution data
-        let executions = [];
+        // Latest run, regardless of the window
         let lastRunTime = "";
         let lastRunStatus = "success";
-        let totalDuration = 0;
-        let failedRuns = 0;
 
         try {
-          const exeRes = await axios.get(
-            `${DOMO_DOMAIN}/api/workflow/v1/instances?modelId=${workflowId}&limit=10&sort=createdOn:desc`,
-            {
-              headers: {
-                "X-DOMO-Developer-Token": TOKEN
-              }
-            }
-          );
+          const [latestExecution] = await fetchRecentExecutions(domo, workflowId, 1);
 
-          executions = exeRes.data || [];
-
-          if (executions.length > 0) {
-            const latestExecution = executions[0];
+          if (latestExecution) {
             lastRunTime = latestExecution.createdOn;
             lastRunStatus = latestExecution.status === "FAILED" ? "fail" :
               latestExecution.status === "ABORTED" ? "cancel" : "success";
-
-            // Calculate metrics
-            executions.forEach((exe: any) => {
-              if (exe.status === "FAILED") failedRuns++;
-              if (exe.createdOn && exe.completedOn) {
-                totalDuration += Math.round(
-                  (new Date(exe.completedOn).getTime() - new Date(exe.createdOn).getTime()) / 1000
-                );
-              }
-            });
           }
         } catch (exeError: any) {
           // console.log(`No execution data for ${obj.name || 'Unknown Workflow'}`);
         }
 
-        const executions30d = await fetchExecutionsLast30Days(TOKEN, workflowId);
+        // The *_30d field names are kept for existing clients; values
+        // cover the requested window (reported as `window`)
+        const executions30d = await fetchExecutionsInRange(domo, workflowId, range);
         const runs30d = executions30d.length;
-        const failedRuns30d = executions30d.filter((e: any) => e.status === "FAILED").length;
+        const failedRuns30d = executions30d.filter((e) => e.status === "FAILED").length;
         const failureRate30d = runs30d > 0 ? failedRuns30d / runs30d : 0;
 
 
         let totalDuration30d = 0;
-        executions30d.forEach((exe: any) => {
+        executions30d.forEach((exe) => {
           if (exe.createdOn && exe.completedOn) {
             totalDuration30d += Math.round(
               (new Date(exe.completedOn).getTime() - new Date(exe.createdOn).getTime()) / 1000
@@ -665,7 +888,7 @@ app.get("/api/workflows", async (req, res) => {
         const avgDuration30d = runs30d > 0 ? Math.round(totalDuration30d / runs30d) : 0;
 
         const usage = runs30d;
-        const triggerType = await getWorkflowTriggerType(TOKEN, workflowId);
+        const triggerType = await getWorkflowTriggerType(domo, workflowId);
 
 
         // Get proper owner name (from your Domo screenshots, ownedByName seems to work)
@@ -682,6 +905,9 @@ app.get("/api/workflows", async (req, res) => {
         // Get status from Domo data
         const status = obj.active ? "enabled" : "disabled";
 
+        // Transitive downstream content from the lineage graph
+        const downstream = downstreamCounts(lineage, "workflow", workflowId);
+
         return {
           workflow_id: workflowId,
           name: obj.name || "Unnamed Workflow",
@@ -696,11 +922,8 @@ app.get("/api/workflows", async (req, res) => {
           run_count_30d: runs30d,
           usage: usage, // Total executions (like Domo shows in Usage column)
           credits_estimate_30d: parseFloat(realCredits.toFixed(2)), // USING REAL DATASET DATA
-          downstream_impacts: {
-            datasets: obj.inputDatasets?.length || 0,
-            cards: obj.outputCards?.length || 0,
-            apps: obj.connectedApps?.length || 0
-          }
+          cost_estimate_30d: roundCost(realCost),
+          downstream_impacts: { datasets: downstream.datasets, cards: downstream.cards, apps: downstream.apps }
         };
       })
     );
@@ -723,13 +946,16 @@ app.get("/api/workflows", async (req, res) => {
         hasPrevPage: page > 1,
         rawDatasetCount: rawDatasetCount,
         searchTerm: search || null
-      }
+      },
+      currency: domo.instance.pricing.currency,
+      window: describeRange(range),
+      dataQuality: dataQuality(domo, range)
     };
 
-    console.log(`✓ Returning ${workflows.length} workflows with proper Domo data mapping`);
     return res.json(response);
 
   } catch (error: any) {
+    if (error instanceof InvalidRangeError) return res.status(400).json({ error: error.message });
     console.error("✗ ERROR fetching workflows:", error.message);
     return res.status(500).json({
       error: "Failed to fetch workflows",
@@ -739,51 +965,70 @@ app.get("/api/workflows", async (req, res) => {
 });
 
 // ============================================================
-// WORKFLOW DETAILS — FULL REAL DATA (7 DAY WINDOW, PAGINATED)
-// ============================================================
-// ============================================================
-// WORKFLOW DETAILS — FULL REAL DATA (30 DAY WINDOW)
+// WORKFLOW DETAILS — FULL REAL DATA (?window=, default 30 days)
+// Runs and days whose duration, credits or failures stand out from
+// the workflow's history are flagged in `anomalies`
+// (?baseline=rolling|seasonal&threshold=3.5, see src/metrics/anomalies.ts)
 // ============================================================
+
+function parseAnomalySettings(query: any): AnomalySettings | null {
+  const baseline = query.baseline ?? DEFAULT_ANOMALY_SETTINGS.baseline;
+  const threshold = query.threshold !== undefined ? Number(query.threshold) : DEFAULT_ANOMALY_SETTINGS.threshold;
+  if ((baseline !== "rolling" && baseline !== "seasonal") || !(threshold > 0)) return null;
+  return { ...DEFAULT_ANOMALY_SETTINGS, baseline, threshold };
+}
+
+function anomalySample(exe: WorkflowInstance, credits: number | null): AnomalySample {
+  return {
+    id: exe.id,
+    startTime: new Date(exe.createdOn).getTime(),
+    status: exe.status === "FAILED" ? "failed" : exe.status === "COMPLETED" ? "success" : "other",
+    durationSeconds: runDurationSeconds(exe),
+    credits
+  };
+}
+
 app.get("/api/workflows/:id", async (req, res) => {
   try {
-    const TOKEN = DOMO_DEVELOPER_TOKEN;
+    const domo: DomoClient = res.locals.domo;
     const modelId = req.params.id;
+    const range = analyticsRange(req.query, "30d");
+    const anomalySettings = parseAnomalySettings(req.query);
+    if (!anomalySettings) {
+      return res.status(400).json({ error: "baseline must be rolling or seasonal and threshold a positive number" });
+    }
 
     // ---------------- FETCH REAL TOTAL CREDITS ----------------
-    const creditsMap = await fetchRealCreditsMap(TOKEN);
-    const totalRealCredits = creditsMap.get(modelId) || 0;
+    const creditsMap = await fetchRealCreditsMap(domo, range);
+    const totalRealCredits = creditsMap.get(modelId)?.credits || 0;
+    const totalRealCost = creditsMap.get(modelId)?.cost || 0;
+    // Runs are costed at the workflow's average rate over the window
+    const runRate = effectiveRate(domo.instance.pricing, creditsMap.get(modelId));
 
     // ---------------- FETCH WORKFLOW MODEL ----------------
     let workflowName = "Unknown Workflow";
-    let downstreamDatasets = 0;
-    let downstreamCards = 0;
-    let downstreamApps = 0;
     let workflowOwnerName = "Unknown";
+    let model: WorkflowModel | undefined;
 
     try {
-      const modelRes = await axios.get(
-        `${DOMO_DOMAIN}/api/workflow/v1/models/${modelId}?parts=users`,
-        { headers: { "X-DOMO-Developer-Token": TOKEN } }
-      );
-      const model = modelRes.data || {};
+      model = await domo.getWorkflowModel(modelId, "users");
       workflowName = model.name || "Unknown Workflow";
-      downstreamDatasets = model.inputDatasets?.length || 0;
-      downstreamCards = model.outputCards?.length || 0;
-      downstreamApps = model.connectedApps?.length || 0;
     } catch (e) {
       console.log("Model fetch failed, continuing...");
     }
 
-    // ---------------- FETCH EXECUTIONS (30 DAYS) ----------------
-    const executions = await fetchExecutionsLast30Days(TOKEN, modelId);
+    // ---------------- DOWNSTREAM IMPACTS (LINEAGE) ----------------
+    const lineage = await loadWorkflowLineageGraph(domo, modelId, model);
+    const { datasets: downstreamDatasets, cards: downstreamCards, apps: downstreamApps } =
+      downstreamCounts(lineage, "workflow", modelId);
 
-    console.log(`=== Workflow ${modelId}: found ${executions.length} executions in last 30 days ===`);
-    executions.forEach((e: any) => {
-      console.log(`  exe.id=${e.id} status=${e.status} createdOn=${e.createdOn}`);
-    });
+    // ---------------- FETCH EXECUTIONS (WINDOW) ----------------
+    const executions = await fetchExecutionsInRange(domo, modelId, range);
 
-    // ---------------- FETCH CREDITS PER INSTANCE ----------------
-    const executionCreditsMap = await fetchExecutionCreditsMap(TOKEN, modelId);
+    // ---------------- ATTRIBUTE CREDITS TO RUNS ----------------
+    const attribution = await attributeWorkflowCredits(domo, modelId, executions, range);
+    const creditsBySku = await fetchWorkflowSkuUsage(domo, modelId, range);
+    const failures = await fetchRunFailures(domo, executions);
 
     // If no executions, return empty with credits still shown
     if (executions.length === 0) {
@@ -799,25 +1044,31 @@ app.get("/api/workflows/:id", async (req, res) => {
           run_count_30d: 0,
           usage: 0,
           credits_estimate_30d: parseFloat(totalRealCredits.toFixed(2)),
+          cost_estimate_30d: roundCost(totalRealCost),
           downstream_impacts: {
             datasets: downstreamDatasets,
             cards: downstreamCards,
             apps: downstreamApps
           }
         },
-        runs: []
+        runs: [],
+        error_signatures: [],
+        anomalies: { baseline: anomalySettings.baseline, threshold: anomalySettings.threshold, flagged_runs: 0, days: [] },
+        credits_by_sku: creditsBySku,
+        currency: domo.instance.pricing.currency,
+        window: describeRange(range)
       });
     }
 
     // ---------------- MAP USERS ----------------
-    const userMap = await fetchUsers(TOKEN);
+    const userMap = await fetchUsers(domo);
 
     // ---------------- CALCULATE METRICS ----------------
     const totalRuns = executions.length;
-    const failedRuns = executions.filter((e: any) => e.status === "FAILED").length;
+    const failedRuns = executions.filter((e) => e.status === "FAILED").length;
 
     let totalDuration = 0;
-    executions.forEach((exe: any) => {
+    executions.forEach((exe) => {
       if (exe.createdOn && exe.completedOn) {
         totalDuration += Math.round(
           (new Date(exe.completedOn).getTime() - new Date(exe.createdOn).getTime()) / 1000
@@ -839,19 +1090,12 @@ app.get("/api/workflows/:id", async (req, res) => {
       else if (t.includes("webhook")) triggerType = "webhook";
     }
 
-    // ---------------- CREDITS PER RUN ----------------
-    // The dataset instanceId does NOT match exe.id directly.
-    // Strategy: distribute total credits evenly across all runs.
-    // If dataset has per-instance rows, use those; otherwise distribute evenly.
-    const creditsPerRun = totalRuns > 0
-      ? parseFloat((totalRealCredits / totalRuns).toFixed(4))
-      : 0;
-
-    console.log(`Total credits: ${totalRealCredits}, runs: ${totalRuns}, per run: ${creditsPerRun}`);
-    console.log(`Dataset instanceId entries: ${executionCreditsMap.size}`);
+    // ---------------- ANOMALIES ----------------
+    const samples = executions.map((exe) => anomalySample(exe, attribution.runs.get(exe.id)?.credits ?? null));
+    const flaggedRuns = runAnomalies(samples, anomalySettings);
 
     // ---------------- BUILD TIMELINE ----------------
-    const runs = executions.map((exe: any) => {
+    const runs = executions.map((exe) => {
       let status = "success";
       if (exe.status === "FAILED") status = "fail";
       else if (exe.status === "RUNNING") status = "running";
@@ -865,10 +1109,8 @@ app.get("/api/workflows/:id", async (req, res) => {
         );
       }
 
-      // Try to get credits: first by exe.id, then by deploymentId, then use per-run average
-      const creditByExeId = executionCreditsMap.get(exe.id) || 0;
-      const creditByDeployment = executionCreditsMap.get(exe.deploymentId) || 0;
-      const runCredits = creditByExeId || creditByDeployment || creditsPerRun;
+      const runCredits = attribution.runs.get(exe.id);
+      const failure = failures.get(exe.id);
 
       return {
         run_id: exe.id,
@@ -877,20 +1119,23 @@ app.get("/api/workflows/:id", async (req, res) => {
         end_time: exe.completedOn || null,
         duration: duration,
         status: status,
-        credits_estimate: parseFloat(runCredits.toFixed(4)),
-        error_summary: exe.errorMessage
-          || exe.error
-          || exe.failureReason
-          || exe.statusMessage
-          || (() => {
-            if (exe.status !== "FAILED") return "-";
-            const dur = exe.createdOn && exe.completedOn
-              ? Math.round((new Date(exe.completedOn).getTime() - new Date(exe.createdOn).getTime()) / 1000)
-              : 0;
-            if (dur === 0) return "Failed immediately — check workflow config or credentials";
-            if (dur < 10) return "Failed quickly — possible auth or connection issue";
-            return "Execution failed mid-run — check workflow logs in Domo";
-          })()
+        credits_estimate: runCredits?.credits ?? 0,
+        cost_estimate: roundCost((runCredits?.credits ?? 0) * runRate),
+        credits_attribution: runCredits?.method ?? "estimated",
+        error_summary: failure
+          ? failure.errorMessage ?? NO_ERROR_DETAILS
+          : exe.errorMessage || exe.statusMessage || "-",
+        error_detail: failure
+          ? {
+            failed_step: failure.failedStep,
+            step_type: failure.stepType,
+            message: failure.errorMessage,
+            inputs: failure.inputs,
+            signature: failure.signature?.id ?? null,
+            source: failure.source
+          }
+          : null,
+        anomalies: flaggedRuns.get(exe.id) ?? []
       };
     });
 
@@ -906,6 +1151,7 @@ app.get("/api/workflows/:id", async (req, res) => {
       run_count_30d: totalRuns,
       usage: totalRuns,
       credits_estimate_30d: parseFloat(totalRealCredits.toFixed(2)),
+      cost_estimate_30d: roundCost(totalRealCost),
       downstream_impacts: {
         datasets: downstreamDatasets,
         cards: downstreamCards,
@@ -913,10 +1159,24 @@ app.get("/api/workflows/:id", async (req, res) => {
       }
     };
 
-    console.log(`✓ Returning workflow detail: ${workflowName}, runs: ${runs.length}`);
-    res.json({ workflow, runs });
+    res.json({
+      workflow,
+      runs,
+      error_signatures: groupBySignature([...failures.values()]),
+      anomalies: {
+        baseline: anomalySettings.baseline,
+        threshold: anomalySettings.threshold,
+        flagged_runs: flaggedRuns.size,
+        days: dayAnomalies(samples, range.from, range.to, anomalySettings)
+      },
+      credits_attribution: attribution.summary,
+      credits_by_sku: creditsBySku,
+      currency: domo.instance.pricing.currency,
+      window: describeRange(range)
+    });
 
   } catch (error: any) {
+    if (error instanceof InvalidRangeError) return res.status(400).json({ error: error.message });
     console.error("Workflow detail error:", error.message);
     res.status(500).json({ error: "Failed to fetch workflow detail" });
   }
@@ -926,7 +1186,8 @@ app.get("/api/workflows/:id", async (req, res) => {
 // Endpoint for /api/domo/workflows (to fix frontend errors)
 app.get("/api/domo/workflows", async (req, res) => {
   try {
-    const TOKEN = DOMO_DEVELOPER_TOKEN;
+    const domo: DomoClient = res.locals.domo;
+    const range = analyticsRange(req.query, "30d");
 
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
@@ -935,44 +1196,17 @@ app.get("/api/domo/workflows", async (req, res) => {
 
     const query = search ? `*${search}*` : "*";
 
-    const searchPayload = {
-      query: query,
-      entityList: [["workflow_model"]],
+    const searchData = await domo.searchWorkflows({
+      query,
       count: search ? 1000 : limit,
       offset: search ? 0 : offset,
-      sort: {
-        fieldSorts: [
-          {
-            field: "last_modified",
-            sortOrder: "DESC"
-          }
-        ],
-        isRelevance: search ? true : false
-      },
-      filters: [],
-      useEntities: true,
-      combineResults: true,
-      facetValueLimit: 1000,
-      hideSearchObjects: false
-    };
-
-    const searchRes = await axios.post(
-      `${DOMO_DOMAIN}/api/search/v1/query`,
-      searchPayload,
-      {
-        headers: {
-          "Content-Type": "application/json",
-          "X-DOMO-Developer-Token": TOKEN
-        }
-      }
-    );
-
-    const searchData = searchRes.data;
-    const totalWorkflows = searchData.totalResultCount || 0;
-    let searchObjects = searchData.searchObjects || [];
+      isRelevance: Boolean(search)
+    });
+    const totalWorkflows = searchData.totalResultCount;
+    let searchObjects = searchData.searchObjects;
 
     if (search) {
-      searchObjects = searchObjects.filter((obj: any) => {
+      searchObjects = searchObjects.filter((obj) => {
         const workflowName = obj.name || "";
         const ownerName = obj.ownedByName || "";
         return workflowName.toLowerCase().includes(search.toLowerCase()) ||
@@ -982,30 +1216,21 @@ app.get("/api/domo/workflows", async (req, res) => {
       searchObjects = searchObjects.slice(offset, offset + limit);
     }
 
-    const userMap = await fetchUsers(TOKEN);
+    const userMap = await fetchUsers(domo);
 
     const workflows = await Promise.all(
-      searchObjects.map(async (obj: any) => {
+      searchObjects.map(async (obj) => {
         const workflowId = obj.uuid;
 
         // Get execution data
-        let executions = [];
+        let executions: WorkflowInstance[] = [];
         let lastRunTime = "";
         let lastRunStatus = "success";
         let totalDuration = 0;
         let failedRuns = 0;
 
         try {
-          const exeRes = await axios.get(
-            `${DOMO_DOMAIN}/api/workflow/v1/instances?modelId=${workflowId}&limit=10&sort=createdOn:desc`,
-            {
-              headers: {
-                "X-DOMO-Developer-Token": TOKEN
-              }
-            }
-          );
-
-          executions = exeRes.data || [];
+          executions = await fetchRecentExecutions(domo, workflowId, 10);
 
           if (executions.length > 0) {
             const latestExecution = executions[0];
@@ -1013,7 +1238,7 @@ app.get("/api/domo/workflows", async (req, res) => {
             lastRunStatus = latestExecution.status === "FAILED" ? "fail" :
               latestExecution.status === "ABORTED" ? "cancel" : "success";
 
-            executions.forEach((exe: any) => {
+            executions.forEach((exe) => {
               if (exe.status === "FAILED") failedRuns++;
               if (exe.createdOn && exe.completedOn) {
                 totalDuration += Math.round(
@@ -1026,9 +1251,9 @@ app.get("/api/domo/workflows", async (req, res) => {
           console.log(`No execution data for ${obj.name || 'Unknown Workflow'}`);
         }
 
-        const usage = await getWorkflowUsage(TOKEN, workflowId);
-        const runs30d = await getLast30DaysExecutions(TOKEN, workflowId);
-        const triggerType = await getWorkflowTriggerType(TOKEN, workflowId);
+        const usage = await getWorkflowUsage(domo, workflowId);
+        const runsInWindow = await countExecutionsInRange(domo, workflowId, range);
+        const triggerType = await getWorkflowTriggerType(domo, workflowId);
 
         const runCount = executions.length;
         const avgDuration = runCount > 0 ? Math.round(totalDuration / runCount) : 0;
@@ -1057,7 +1282,8 @@ app.get("/api/domo/workflows", async (req, res) => {
           lastRunStatus: lastRunStatus,
           avgDuration: avgDuration,
           usage: usage,
-          runCount: runCount
+          runCount: runCount,
+          runsInWindow: runsInWindow
         };
       })
     );
@@ -1065,85 +1291,91 @@ app.get("/api/domo/workflows", async (req, res) => {
     res.json(workflows);
 
   } catch (error: any) {
+    if (error instanceof InvalidRangeError) return res.status(400).json({ error: error.message });
     console.error("Error fetching Domo workflows:", error.message);
     res.status(500).json({ error: "Failed to fetch workflows" });
   }
 });
 
-// Endpoint for /api/domo/workflows/:id
+// Endpoint for /api/domo/workflows/:id (?window=, default 30 days)
 app.get("/api/domo/workflows/:id/credits", async (req, res) => {
   try {
-    const TOKEN = DOMO_DEVELOPER_TOKEN;
+    const domo: DomoClient = res.locals.domo;
     const workflowId = req.params.id;
+    const range = analyticsRange(req.query, "30d");
 
     // 🔥 Get REAL credits from dataset
-    const creditsMap = await fetchRealCreditsMap(TOKEN);
-    const totalCredits = creditsMap.get(workflowId) || 0;
+    const creditsMap = await fetchRealCreditsMap(domo, range);
+    const totalCredits = creditsMap.get(workflowId)?.credits || 0;
 
     // Get executions (for avg)
-    const executions = await fetchExecutionsLast30Days(TOKEN, workflowId);
+    const executions = await fetchExecutionsInRange(domo, workflowId, range);
     const runs = executions.length;
     const avg = runs > 0 ? totalCredits / runs : 0;
 
     res.json({
       total: parseFloat(totalCredits.toFixed(4)),
-      last30Days: parseFloat(totalCredits.toFixed(4)),
-      averagePerRun: parseFloat(avg.toFixed(4))
+      averagePerRun: parseFloat(avg.toFixed(4)),
+      window: describeRange(range)
     });
 
   } catch (error: any) {
+    if (error instanceof InvalidRangeError) return res.status(400).json({ error: error.message });
     console.error("Error fetching credits:", error.message);
-    res.status(500).json({ total: 0, last30Days: 0 });
+    res.status(500).json({ error: "Failed to fetch credits" });
   }
 });
 
-// Simple endpoint for /api/domo/workflows/:id/runs
+// Simple endpoint for /api/domo/workflows/:id/runs: the 50 latest runs
+// of the window (?window=, default 30 days)
 app.get("/api/domo/workflows/:id/runs", async (req, res) => {
   try {
-    const TOKEN = DOMO_DEVELOPER_TOKEN;
+    const domo: DomoClient = res.locals.domo;
     const workflowId = req.params.id;
 
-    const response = await axios.get(
-      `${DOMO_DOMAIN}/api/workflow/v1/instances?modelId=${workflowId}&limit=50&sort=createdOn:desc`,
-      {
-        headers: {
-          "X-DOMO-Developer-Token": TOKEN,
-          "Accept": "application/json"
-        }
-      }
-    );
-
-    const runs = response.data || [];
-    const executionCreditsMap = await fetchExecutionCreditsMap(TOKEN, workflowId);
+    // Attribute over the whole window so shared credit rows split correctly
+    const range = analyticsRange(req.query, "30d");
+    const windowRuns = await fetchExecutionsInRange(domo, workflowId, range);
+    const attribution = await attributeWorkflowCredits(domo, workflowId, windowRuns, range);
+    const runs = windowRuns.slice(0, 50);
 
-    const transformedRuns = runs.map((run: any) => ({
+    const transformedRuns = runs.map((run) => ({
       id: run.id,
       startTime: run.createdOn,
       endTime: run.completedOn || null,
       duration: run.duration || 0,
       status: run.status || 'UNKNOWN',
-      creditsUsed: parseFloat(
-        (executionCreditsMap.get(run.id) || 0).toFixed(4)
-      ),
+      creditsUsed: attribution.runs.get(run.id)?.credits ?? 0,
+      creditsAttribution: attribution.runs.get(run.id)?.method ?? "estimated",
 
       errorMessage: run.errorMessage || null
     }));
 
-    res.json(transformedRuns);
+    res.json({ runs: transformedRuns, window: describeRange(range) });
   } catch (error: any) {
+    if (error instanceof InvalidRangeError) return res.status(400).json({ error: error.message });
     console.error("Error fetching runs:", error.message);
     res.status(500).json({ error: "Failed to fetch runs" });
   }
 });
 
-// Simple endpoint for /api/domo/workflows/:id/dependencies
+// Dependencies of a workflow from the lineage graph: transitive
+// downstream counts plus the graph to ?depth= (default 2)
 app.get("/api/domo/workflows/:id/dependencies", async (req, res) => {
   try {
-    // Return default values
+    const domo: DomoClient = res.locals.domo;
+    const workflowId = req.params.id;
+    const options = parseLineageQuery(req.query);
+    if ("error" in options) return res.status(400).json({ error: options.error });
+
+    const lineage = await loadWorkflowLineageGraph(domo, workflowId);
+    const counts = downstreamCounts(lineage, "workflow", workflowId);
+    const upstream = lineage.traverse(nodeKey("workflow", workflowId), "upstream", 1);
+
     res.json({
-      datasets: 0,
-      cards: 0,
-      apps: 0
+      ...counts,
+      inputDatasets: upstream?.nodes.filter((n) => n.type === "dataset").length ?? 0,
+      graph: lineage.traverse(nodeKey("workflow", workflowId), options.direction, options.depth)
     });
   } catch (error: any) {
     console.error("Error fetching dependencies:", error.message);
@@ -1152,82 +1384,257 @@ app.get("/api/domo/workflows/:id/dependencies", async (req, res) => {
 });
 
 // ============================================================
-// CREDITS SUMMARY — REAL DATA (LAST 7 DAYS)
+// LINEAGE — workflows, dataflows, datasets, cards and apps
+// GET /api/lineage/:type/:id?direction=upstream|downstream|both&depth=2
 // ============================================================
-app.get("/api/credits-summary", async (req, res) => {
-  try {
-    const TOKEN = DOMO_DEVELOPER_TOKEN;
-    console.log("=== Fetching Credits Summary (30d) ===");
+const MAX_LINEAGE_DEPTH = 10;
 
-    // 1. Get real credits per workflow from dataset
-    const creditsMap = await fetchRealCreditsMap(TOKEN);
-
-    // 2. Get workflow names from search API in ONE call
-    // Use paginated fetch — handles any number of workflows
-    const allWorkflowObjects = await fetchAllWorkflows(TOKEN);
+function parseLineageQuery(query: any): { direction: LineageDirection; depth: number } | { error: string } {
+  const direction = query.direction || "both";
+  if (!["upstream", "downstream", "both"].includes(direction)) {
+    return { error: "direction must be upstream, downstream or both" };
+  }
+  const depth = query.depth === undefined ? 2 : Number(query.depth);
+  if (!Number.isInteger(depth) || depth < 0 || depth > MAX_LINEAGE_DEPTH) {
+    return { error: `depth must be an integer between 0 and ${MAX_LINEAGE_DEPTH}` };
+  }
+  return { direction, depth };
+}
 
-    const nameMap = new Map<string, string>();
-    allWorkflowObjects.forEach((obj: any) => {
-      if (obj.uuid && obj.name) {
-        nameMap.set(obj.uuid, obj.name);
-      }
-    });
+app.get("/api/lineage/:type/:id", async (req, res) => {
+  try {
+    const domo: DomoClient = res.locals.domo;
+    const type = req.params.type as LineageNodeType;
+    if (!LINEAGE_NODE_TYPES.includes(type)) {
+      return res.status(400).json({ error: `type must be one of: ${LINEAGE_NODE_TYPES.join(", ")}` });
+    }
+    const options = parseLineageQuery(req.query);
+    if ("error" in options) return res.status(400).json({ error: options.error });
+
+    const lineage = type === "workflow"
+      ? await loadWorkflowLineageGraph(domo, req.params.id)
+      : await loadLineageGraph(domo);
+    const traversal = lineage.traverse(nodeKey(type, req.params.id), options.direction, options.depth);
+    if (!traversal) {
+      return res.status(404).json({ error: `No lineage found for ${type} ${req.params.id}` });
+    }
 
-    console.log(`Name map loaded: ${nameMap.size} workflow names`);
+    res.json({ ...traversal, direction: options.direction, depth: options.depth, dataQuality: dataQuality(domo) });
+  } catch (error: any) {
+    console.error("Lineage error:", error.message);
+    res.status(500).json({ error: "Failed to build lineage", details: error.message });
+  }
+});
 
-    // 3. Build top workflows list — NO per-workflow API calls
-    let totalCredits = 0;
-    const topWorkflows: any[] = [];
+// ============================================================
+// IMPACT ANALYSIS — what breaks if a workflow or dataflow fails
+// GET /api/impact/:type/:id?depth=10   type: workflow | dataflow
+// ============================================================
+app.get("/api/impact/:type/:id", async (req, res) => {
+  try {
+    const domo: DomoClient = res.locals.domo;
+    const type = req.params.type as ImpactRootType;
+    if (type !== "workflow" && type !== "dataflow") {
+      return res.status(400).json({ error: "type must be workflow or dataflow" });
+    }
+    const depth = req.query.depth === undefined ? MAX_LINEAGE_DEPTH : Number(req.query.depth);
+    if (!Number.isInteger(depth) || depth < 1 || depth > MAX_LINEAGE_DEPTH) {
+      return res.status(400).json({ error: `depth must be an integer between 1 and ${MAX_LINEAGE_DEPTH}` });
+    }
 
-    for (const [workflowId, credits] of creditsMap.entries()) {
-      totalCredits += credits;
-      topWorkflows.push({
-        workflow_id: workflowId,
-        name: nameMap.get(workflowId) || workflowId, // Show name, fallback to ID
-        credits: parseFloat(credits.toFixed(2)),
-        run_count_30d: 0 // We skip per-workflow run fetch for speed
-      });
+    const lineage = type === "workflow"
+      ? await loadWorkflowLineageGraph(domo, req.params.id)
+      : await loadLineageGraph(domo);
+    const impact = analyzeImpact(lineage, type, req.params.id, depth);
+    if (!impact) {
+      return res.status(404).json({ error: `No lineage found for ${type} ${req.params.id}` });
     }
 
-    // 4. Sort by credits descending
-    topWorkflows.sort((a, b) => b.credits - a.credits);
-    const top20 = topWorkflows.slice(0, 20);
+    res.json({ ...impact, depth, dataQuality: dataQuality(domo) });
+  } catch (error: any) {
+    console.error("Impact analysis error:", error.message);
+    res.status(500).json({ error: "Failed to analyse impact", details: error.message });
+  }
+});
 
-    console.log(`✓ Credits summary ready: ${totalCredits.toFixed(2)} total credits`);
+// ============================================================
+// DATAFLOW EXECUTIONS — LIVE FROM DOMO (dataflow runs are not synced)
+// GET  /api/dataflows/:id/executions?window=7d         history + stats
+// GET  /api/dataflows/:id/executions/:executionId      status
+// POST /api/dataflows/:id/executions/:executionId/wait?timeout=60
+// POST /api/dataflows/:id/executions/:executionId/cancel   (admin)
+// ============================================================
+const MAX_WAIT_SECONDS = 300;
 
-    // Count total runs from top workflows that have credits
-    let totalRuns = 0;
-    let creditsWasted = 0;
+async function fetchAllDataflows(domo: DomoClient) {
+  return (await loadDataflows(domo))
+    .map((df) => ({ id: df.databaseId ?? df.uuid, name: df.name || "Unknown", owner: df.ownedByName || null, folders: entityFolders(df) }))
+    .filter((df): df is { id: string; name: string; owner: string | null; folders: string[] } => Boolean(df.id));
+}
 
-    const topWithCredits = top20.slice(0, 5); // Only top 5 for speed
-    await Promise.all(topWithCredits.map(async (wf: any) => {
-      try {
-        const exeRes = await axios.get(
-          `${DOMO_DOMAIN}/api/workflow/v1/instances?modelId=${wf.workflow_id}&limit=100&sort=createdOn:desc`,
-          { headers: { "X-DOMO-Developer-Token": TOKEN } }
-        );
-        const execs = exeRes.data || [];
-        const thirtyDaysAgo = new Date();
-        thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-        const recent = execs.filter((e: any) => new Date(e.createdOn) >= thirtyDaysAgo);
-        const failed = recent.filter((e: any) => e.status === "FAILED");
-        totalRuns += recent.length;
-        if (recent.length > 0 && failed.length > 0) {
-          creditsWasted += wf.credits * (failed.length / recent.length);
-        }
-      } catch (e) { }
-    }));
+async function fetchDataflowRunsInRange(domo: DomoClient, dataflowId: string, range: TimeRange): Promise<DataflowRun[]> {
+  // Keyed by the minute like workflow executions
+  const fromMinute = Math.floor(range.from.getTime() / 60000);
+  const runs = await getCache().getOrLoad(domo.instance.name, "executions", `dataflow-since:${dataflowId}:${fromMinute}`, () =>
+    loadDataflowRunsSince(domo, dataflowId, range.from)
+  );
+  return runs.filter((run) => run.startTime === null || new Date(run.startTime) <= range.to);
+}
+
+// Unknown dataflow or execution ids come back from Domo as 404s
+function dataflowErrorStatus(error: any) {
+  return error.response?.status === 404 ? 404 : 500;
+}
+
+app.get("/api/dataflows/:id/executions", async (req, res) => {
+  try {
+    const domo: DomoClient = res.locals.domo;
+    const range = analyticsRange(req.query, "7d");
+    const runs = await fetchDataflowRunsInRange(domo, req.params.id, range);
+    res.json({
+      dataflowId: req.params.id,
+      stats: dataflowRunStats(runs),
+      runs: runs.slice(0, 100),
+      window: describeRange(range),
+      dataQuality: dataQuality(domo, range)
+    });
+  } catch (error: any) {
+    if (error instanceof InvalidRangeError) return res.status(400).json({ error: error.message });
+    console.error("Dataflow executions error:", error.message);
+    res.status(dataflowErrorStatus(error)).json({ error: "Failed to fetch dataflow executions", details: error.message });
+  }
+});
+
+app.get("/api/dataflows/:id/executions/:executionId", async (req, res) => {
+  try {
+    const domo: DomoClient = res.locals.domo;
+    const execution = await domo.getDataflowExecution(req.params.id, req.params.executionId);
+    res.json(toDataflowRun(execution, req.params.id));
+  } catch (error: any) {
+    console.error("Dataflow execution error:", error.message);
+    res.status(dataflowErrorStatus(error)).json({ error: "Failed to fetch dataflow execution", details: error.message });
+  }
+});
+
+app.post("/api/dataflows/:id/executions/:executionId/wait", async (req, res) => {
+  const timeout = req.query.timeout === undefined ? 60 : Number(req.query.timeout);
+  if (!Number.isInteger(timeout) || timeout < 0 || timeout > MAX_WAIT_SECONDS) {
+    return res.status(400).json({ error: `timeout must be an integer between 0 and ${MAX_WAIT_SECONDS} seconds` });
+  }
+  try {
+    const domo: DomoClient = res.locals.domo;
+    res.json(await waitForDataflowRun(domo, req.params.id, req.params.executionId, timeout));
+  } catch (error: any) {
+    console.error("Dataflow wait error:", error.message);
+    res.status(dataflowErrorStatus(error)).json({ error: "Failed to wait for dataflow execution", details: error.message });
+  }
+});
+
+app.post("/api/dataflows/:id/executions/:executionId/cancel", requireAdmin, async (req, res) => {
+  try {
+    const domo: DomoClient = res.locals.domo;
+    const execution = await domo.cancelDataflowExecution(req.params.id, req.params.executionId);
+    res.json(toDataflowRun(execution, req.params.id));
+  } catch (error: any) {
+    console.error("Dataflow cancel error:", error.message);
+    res.status(dataflowErrorStatus(error)).json({ error: "Failed to cancel dataflow execution", details: error.message });
+  }
+});
+
+// ============================================================
+// CREDITS SUMMARY — REAL DATA (?window=, default 30 days)
+// ============================================================
+app.get("/api/credits-summary", async (req, res) => {
+  try {
+    const domo: DomoClient = res.locals.domo;
+    const range = analyticsRange(req.query, "30d");
+
+    // 1. Get real credits per workflow from dataset
+    const creditsMap = await fetchRealCreditsMap(domo, range);
+
+    // 2. Get workflow names from search API in ONE call
+    // Use paginated fetch — handles any number of workflows
+    const allWorkflowObjects = await fetchAllWorkflows(domo);
+
+    const nameMap = new Map<string, string>();
+    allWorkflowObjects.forEach((obj) => {
+      if (obj.uuid && obj.name) {
+        nameMap.set(obj.uuid, obj.name);
+      }
+    });
+
+    // 3. Build top workflows list — NO per-workflow API calls
+    let totalCredits = 0;
+    let totalCost = 0;
+    const topWorkflows: any[] = [];
+
+    for (const [workflowId, { credits, cost }] of creditsMap.entries()) {
+      totalCredits += credits;
+      totalCost += cost;
+      topWorkflows.push({
+        workflow_id: workflowId,
+        name: nameMap.get(workflowId) || workflowId, // Show name, fallback to ID
+        credits: parseFloat(credits.toFixed(2)),
+        cost: roundCost(cost),
+        run_count_30d: 0 // We skip per-workflow run fetch for speed
+      });
+    }
+
+    // 4. Sort by credits descending
+    topWorkflows.sort((a, b) => b.credits - a.credits);
+    const top20 = topWorkflows.slice(0, 20);
+
+    // Count total runs from top workflows that have credits
+    let totalRuns = 0;
+    let creditsWasted = 0;
+    let costWasted = 0;
+
+    const topWithCredits = top20.slice(0, 5); // Only top 5 for speed
+    await Promise.all(topWithCredits.map(async (wf: any) => {
+      try {
+        const recent = await fetchExecutionsInRange(domo, wf.workflow_id, range);
+        const failed = recent.filter((e) => e.status === "FAILED");
+        totalRuns += recent.length;
+        if (recent.length > 0 && failed.length > 0) {
+          creditsWasted += wf.credits * (failed.length / recent.length);
+          costWasted += wf.cost * (failed.length / recent.length);
+        }
+      } catch (e: any) {
+        console.warn(`Skipping run count for ${wf.workflow_id}: ${e.message}`);
+      }
+    }));
+
+    let topAgentsByCost: any[] = [];
+    try {
+      topAgentsByCost = (await loadAgentCatalog(domo, range))
+        .filter(({ profile }) => profile.credits > 0)
+        .slice(0, 5)
+        .map(({ profile, risk }) => ({
+          agent_id: profile.agentId,
+          name: profile.name,
+          credits: profile.credits,
+          cost: profile.cost,
+          risk_band: risk.band
+        }));
+    } catch (e: any) {
+      console.warn(`Skipping top agents: ${e.message}`);
+    }
 
     res.json({
       totalCredits: parseFloat(totalCredits.toFixed(2)),
-      totalCost: parseFloat((totalCredits * 0.04).toFixed(4)),
+      totalCost: roundCost(totalCost),
+      currency: domo.instance.pricing.currency,
       totalRuns,
       creditsWasted: parseFloat(creditsWasted.toFixed(4)),
+      costWasted: roundCost(costWasted),
       topWorkflows: top20,
-      topAgentsByCost: []
+      topAgentsByCost,
+      window: describeRange(range),
+      dataQuality: dataQuality(domo, range)
     });
 
   } catch (err: any) {
+    if (err instanceof InvalidRangeError) return res.status(400).json({ error: err.message });
     console.error("Credits summary error:", err.message);
     res.status(500).json({
       error: "Failed to fetch credits",
@@ -1235,29 +1642,55 @@ app.get("/api/credits-summary", async (req, res) => {
     });
   }
 });
+// ============================================================
+// CREDITS BY SKU (?window=, default 30 days)
+// ?entityType=Workflow|AI Agent (default both), ?entityId= one entity
+// `share` is the SKU's fraction of its entity type's credits
+// ============================================================
+const SKU_ENTITY_TYPES = ["Workflow", "AI Agent"];
+
+app.get("/api/credits/skus", async (req, res) => {
+  try {
+    const domo: DomoClient = res.locals.domo;
+    const range = analyticsRange(req.query, "30d");
+    const entityType = req.query.entityType as string | undefined;
+    const entityId = req.query.entityId as string | undefined;
+    if (entityType && !SKU_ENTITY_TYPES.includes(entityType)) {
+      return res.status(400).json({ error: `entityType must be one of: ${SKU_ENTITY_TYPES.join(", ")}` });
+    }
+
+    const breakdowns = await Promise.all((entityType ? [entityType] : SKU_ENTITY_TYPES).map(async (type) => {
+      const rows = (await fetchSkuCreditRows(domo, type, range)).filter((r) => !entityId || r.entityId === entityId);
+      return skuBreakdown(domo.instance.pricing, type, rows, domo.instance.skuProviders)
+        .map((usage) => ({ entityType: type, ...usage }));
+    }));
+    const skus = breakdowns.flat().sort((a, b) => b.credits - a.credits);
+
+    res.json({
+      entityType: entityType ?? null,
+      entityId: entityId ?? null,
+      totalCredits: roundCost(skus.reduce((sum, u) => sum + u.credits, 0)),
+      totalCost: roundCost(skus.reduce((sum, u) => sum + u.cost, 0)),
+      currency: domo.instance.pricing.currency,
+      skus,
+      window: describeRange(range),
+      dataQuality: dataQuality(domo, range)
+    });
+  } catch (err: any) {
+    if (err instanceof InvalidRangeError) return res.status(400).json({ error: err.message });
+    console.error("SKU breakdown error:", err.message);
+    res.status(500).json({ error: "Failed to fetch SKU breakdown", details: err.message });
+  }
+});
+
 // TEMP DEBUG ROUTE - remove after fixing
 app.get("/api/debug/workflow/:id", async (req, res) => {
   try {
-    const TOKEN = DOMO_DEVELOPER_TOKEN;
+    const domo: DomoClient = res.locals.domo;
     const modelId = req.params.id;
 
-    console.log("=== DEBUG: Fetching executions for", modelId);
-
     // Raw fetch - no date filter
-    const exeRes = await axios.get(
-      `${DOMO_DOMAIN}/api/workflow/v1/instances?modelId=${modelId}&limit=20&sort=createdOn:desc`,
-      {
-        headers: { "X-DOMO-Developer-Token": TOKEN }
-      }
-    );
-
-    const executions = exeRes.data || [];
-    console.log("Total executions returned:", executions.length);
-
-    if (executions.length > 0) {
-      console.log("Sample execution keys:", Object.keys(executions[0]));
-      console.log("Sample execution[0]:", JSON.stringify(executions[0], null, 2));
-    }
+    const executions = await domo.listWorkflowInstances({ modelId, limit: 20 });
 
     res.json({
       total: executions.length,
@@ -1272,16 +1705,12 @@ app.get("/api/debug/workflow/:id", async (req, res) => {
 // TEMP: Debug workflow model structure
 app.get("/api/debug/model/:id", async (req, res) => {
   try {
-    const TOKEN = DOMO_DEVELOPER_TOKEN;
+    const domo: DomoClient = res.locals.domo;
     const modelId = req.params.id;
 
-    const modelRes = await axios.get(
-      `${DOMO_DOMAIN}/api/workflow/v1/models/${modelId}?parts=users`,
-      { headers: { "X-DOMO-Developer-Token": TOKEN } }
-    );
+    const model = await domo.getWorkflowModel(modelId, "users");
 
-    console.log("Model API response:", JSON.stringify(modelRes.data, null, 2));
-    res.json(modelRes.data);
+    res.json(model);
 
   } catch (err: any) {
     res.status(500).json({ error: err.message });
@@ -1289,149 +1718,332 @@ app.get("/api/debug/model/:id", async (req, res) => {
 });
 
 // ============================================================
-// RUNS & INCIDENTS — REAL DATA FROM DOMO
+// RUNS & INCIDENTS — REAL DATA FROM DOMO (?window=, default 7 days)
+// Workflows and dataflows; dataflow runs are always fetched live.
+// Each scan updates the persisted incidents (src/incidents) and
+// returns the active queue; see /api/incidents to work it
 // ============================================================
-app.get("/api/runs-incidents", async (req, res) => {
-  try {
-    const TOKEN = DOMO_DEVELOPER_TOKEN;
-    console.log("=== Fetching Runs & Incidents ===");
 
-    // 1. Get all workflows from search API
-    const searchObjects = await fetchAllWorkflows(TOKEN);
-    const userMap = await fetchUsers(TOKEN);
+// Folder as the workflow list shows it (metadata, else the first tag), then the other tags
+function entityFolders(obj: SearchObject): string[] {
+  return [obj.metadata?.folder, ...(obj.tags ?? [])].filter((f): f is string => typeof f === "string" && f !== "");
+}
 
-    // 2. For each workflow fetch recent executions to find failures
-    const incidents: any[] = [];
-    const failedRuns: any[] = [];
+// Runs as incident rules read them (src/rules)
+function workflowRuleRun(exe: WorkflowInstance): RuleRun {
+  const start = new Date(exe.createdOn).getTime();
+  const endTime = exe.completedOn || exe.updatedOn;
+  return {
+    id: exe.id,
+    status: exe.status === "FAILED" ? "failed" : exe.status === "COMPLETED" ? "success" : exe.status === "RUNNING" ? "running" : "other",
+    startTime: start,
+    durationSeconds: endTime && exe.status !== "RUNNING" ? Math.max(0, Math.round((new Date(endTime).getTime() - start) / 1000)) : null,
+    trigger: exe.triggerType ?? null
+  };
+}
 
-    // Process top 50 workflows only for speed
-    const workflowsToCheck = searchObjects.slice(0, 50);
+function dataflowRuleRun(run: DataflowRun): RuleRun {
+  return {
+    id: run.executionId,
+    status: run.status === "queued" ? "running" : run.status === "cancelled" ? "other" : run.status,
+    startTime: run.startTime ? new Date(run.startTime).getTime() : null,
+    durationSeconds: run.durationSeconds,
+    trigger: run.activationType
+  };
+}
 
-    await Promise.all(workflowsToCheck.map(async (obj: any) => {
-      const workflowId = obj.uuid;
-      const workflowName = obj.name || "Unknown";
-      const owner = obj.ownedByName || "Unassigned";
+// Credits per run are only attributed when a rule or the caller asks for them
+function workflowRuleEntity(domo: DomoClient, obj: WorkflowSearchObject, executions: WorkflowInstance[], range: TimeRange) {
+  let attribution: Promise<AttributionResult> | null = null;
+  const attribute = () => attribution ??= attributeWorkflowCredits(domo, obj.uuid, executions, range);
+  const entity: RuleEntity = {
+    type: "workflow",
+    id: obj.uuid,
+    name: obj.name || "Unknown",
+    owner: obj.ownedByName || null,
+    folders: entityFolders(obj),
+    runs: executions.map(workflowRuleRun),
+    schedule: findSchedule(domo.instance.schedules, { id: obj.uuid, name: obj.name || "Unknown" }),
+    credits: async () => new Map([...(await attribute()).runs].map(([id, run]) => [id, run.credits]))
+  };
+  return { entity, attribute };
+}
 
-      try {
-        const exeRes = await axios.get(
-          `${DOMO_DOMAIN}/api/workflow/v1/instances?modelId=${workflowId}&limit=20&sort=createdOn:desc`,
-          { headers: { "X-DOMO-Developer-Token": TOKEN } }
-        );
+function dataflowRuleEntity(df: { id: string; name: string; owner: string | null; folders: string[] }, runs: DataflowRun[]): RuleEntity {
+  return { type: "dataflow", ...df, runs: runs.map(dataflowRuleRun) };
+}
+
+function ruleContext(range: TimeRange): RuleContext {
+  return { now: new Date(), range, windowLabel: range.window ? `the last ${range.window}` : "the selected range" };
+}
+
+// Incident raised by a matching rule
+function ruleIncident(evaluation: RuleEvaluation, lastActivity: string | null) {
+  const { rule } = evaluation;
+  return {
+    incident_id: evaluation.key,
+    entity_type: evaluation.entityType,
+    entity_id: evaluation.entityId,
+    entity_name: evaluation.entityName,
+    owner: evaluation.owner || "Unassigned",
+    issue: evaluation.issue,
+    severity: evaluation.severity,
+    last_activity: lastActivity,
+    evidence_at: evaluation.evidenceAt !== null ? new Date(evaluation.evidenceAt).toISOString() : null,
+    recommended_action: evaluation.recommendedAction,
+    rule: { id: rule.id, name: rule.name ?? rule.id, metric: rule.metric, value: evaluation.value }
+  };
+}
+
+// Detected incidents carry their dedupe key in incident_id until persisted
+function toDetectedIncident({ incident_id, entity_type, entity_id, entity_name, owner, issue, severity, recommended_action, last_activity, evidence_at, ...details }: any): DetectedIncident {
+  return {
+    key: incident_id,
+    entityType: entity_type ?? null,
+    entityId: entity_id ?? null,
+    entityName: entity_name ?? null,
+    owner: owner ?? null,
+    issue,
+    severity,
+    recommendedAction: recommended_action ?? null,
+    lastActivity: last_activity ?? null,
+    evidenceAt: evidence_at ?? null,
+    details
+  };
+}
+
+// Persisted incident in the shape /api/runs-incidents has always returned
+function incidentView(incident: Incident) {
+  return {
+    incident_id: incident.id,
+    dedupe_key: incident.dedupeKey,
+    entity_type: incident.entityType,
+    entity_id: incident.entityId,
+    entity_name: incident.entityName,
+    owner: incident.owner,
+    issue: incident.issue,
+    severity: incident.severity,
+    last_activity: incident.lastActivity,
+    recommended_action: incident.recommendedAction,
+    status: incident.status,
+    assignee: incident.assignee,
+    opened_at: incident.openedAt,
+    acknowledged_at: incident.acknowledgedAt,
+    resolved_at: incident.resolvedAt,
+    reopened_at: incident.reopenedAt,
+    reopen_count: incident.reopenCount,
+    last_detected_at: incident.lastDetectedAt,
+    ...incident.details
+  };
+}
+
+// Scan workflows, dataflows and budgets; with a window, also updates
+// the persisted incidents (also run by the notification worker)
+async function scanIncidents(domo: DomoClient, range: TimeRange) {
+  const context = ruleContext(range);
+  const rules = domo.instance.incidentRules.filter((rule) => rule.enabled);
+
+  // 1. Get all workflows from search API
+  const searchObjects = await fetchAllWorkflows(domo);
+  const userMap = await fetchUsers(domo);
+
+  // 2. For each workflow fetch recent executions and evaluate the incident rules
+  const incidents: any[] = [];
+  const failedRuns: any[] = [];
+  const allFailures: RunFailure[] = [];
+  // Dedupe keys whose condition this scan evaluated (for auto-resolve)
+  const checked = new Set<string>();
+
+  // Live mode: top 50 workflows only for speed; the store has them all
+  const workflowsToCheck = isStoreReady(domo.instance.name, "runs", range.from)
+    ? searchObjects
+    : searchObjects.slice(0, 50);
+
+  await Promise.all(workflowsToCheck.map(async (obj) => {
+    const workflowId = obj.uuid;
+    const workflowName = obj.name || "Unknown";
+    const owner = obj.ownedByName || "Unassigned";
 
-        const executions = exeRes.data || [];
-        if (executions.length === 0) return;
-
-        const failed = executions.filter((e: any) => e.status === "FAILED");
-        const failRate = executions.length > 0 ? failed.length / executions.length : 0;
-
-        // Generate incident if failure rate > 10%
-        if (failRate > 0.1) {
-          const severity =
-            failRate >= 0.5 ? "critical" :
-              failRate >= 0.3 ? "high" :
-                failRate >= 0.2 ? "medium" : "low";
-
-          incidents.push({
-            incident_id: `inc_${workflowId}`,
-            entity_type: "workflow",
-            entity_id: workflowId,
-            entity_name: workflowName,
-            owner: owner,
-            issue: `High failure rate: ${Math.round(failRate * 100)}% over last ${executions.length} runs`,
-            severity: severity,
-            last_activity: executions[0].createdOn,
-            recommended_action: "Review recent error logs and check workflow configuration",
-            status: "active"
-          });
+    try {
+      const executions = await fetchExecutionsInRange(domo, workflowId, range);
+      const { entity, attribute } = workflowRuleEntity(domo, obj, executions, range);
+      const applicable = rules.filter((rule) => inScope(rule, entity));
+      applicable.forEach((rule) => checked.add(incidentKey(rule, entity)));
+
+      // No early return without runs: a declared schedule can be missed entirely
+      const failed = executions.filter((e) => e.status === "FAILED");
+
+      // Step-level errors of the newest failures, grouped by signature
+      const failures = await fetchRunFailures(domo, failed, 10);
+      allFailures.push(...failures.values());
+      const signatures = groupBySignature([...failures.values()]);
+
+      for (const evaluation of await evaluateRules(applicable, entity, context)) {
+        if (!evaluation.matched) continue;
+        const incident: any = ruleIncident(evaluation, executions[0]?.createdOn ?? null);
+        if (getMetric(evaluation.rule.metric)?.failureBased) {
+          if (signatures.length > 0) {
+            incident.dominant_error = describeGroup(signatures[0]);
+            incident.recommended_action = signatures.length === 1 && !evaluation.rule.recommendedAction
+              ? `Fix the recurring error${signatures[0].step ? ` in step '${signatures[0].step}'` : ""}; all sampled failures share it`
+              : incident.recommended_action;
+          }
+          // Signatures cover the newest failures only
+          incident.errors_sampled = failures.size;
+          incident.error_signatures = signatures.slice(0, 3).map((g) => ({ id: g.id, signature: g.signature, step: g.step, count: g.count, sample_message: g.sampleMessage }));
         }
+        incidents.push(incident);
+      }
 
-        // Also flag orphaned workflows (no owner)
-        if (!obj.ownedByName || obj.ownedByName === "") {
-          incidents.push({
-            incident_id: `inc_orphan_${workflowId}`,
-            entity_type: "workflow",
-            entity_id: workflowId,
-            entity_name: workflowName,
-            owner: "Unassigned",
-            issue: "Orphaned workflow: no owner assigned",
-            severity: "medium",
-            last_activity: executions[0]?.createdOn || new Date().toISOString(),
-            recommended_action: "Assign owner for governance compliance",
-            status: "active"
-          });
+      // Collect failed runs with their attributed credits
+      const attribution = failed.length > 0
+        ? await attribute()
+        : null;
+
+      failed.slice(0, 5).forEach((exe) => {
+        // Duration: use updatedOn as fallback if completedOn is null
+        let duration = 0;
+        const endTime = exe.completedOn || exe.updatedOn;
+        if (exe.createdOn && endTime) {
+          const diff = Math.round(
+            (new Date(endTime).getTime() - new Date(exe.createdOn).getTime()) / 1000
+          );
+          duration = diff > 0 ? diff : 0;
         }
 
-        // Collect failed runs
-        // Get credits map for this workflow
-        const creditsMap = await fetchExecutionCreditsMap(TOKEN, workflowId);
-        let totalCredits = 0;
-        creditsMap.forEach((v) => { totalCredits += v; });
-        const creditsPerRun = executions.length > 0
-          ? parseFloat((totalCredits / executions.length).toFixed(4))
-          : 0;
-
-        failed.slice(0, 5).forEach((exe: any) => {
-          // Duration: use updatedOn as fallback if completedOn is null
-          let duration = 0;
-          const endTime = exe.completedOn || exe.updatedOn;
-          if (exe.createdOn && endTime) {
-            const diff = Math.round(
-              (new Date(endTime).getTime() - new Date(exe.createdOn).getTime()) / 1000
-            );
-            duration = diff > 0 ? diff : 0;
-          }
+        const runCredits = attribution?.runs.get(exe.id);
+        const failure = failures.get(exe.id);
 
-          // Credits: try exact match first, fallback to per-run average
-          const runCredits = creditsMap.get(exe.id) || creditsPerRun;
-
-          failedRuns.push({
-            run_id: exe.id,
-            workflow_id: workflowId,
-            workflow_name: workflowName,
-            owner: owner,
-            start_time: exe.createdOn,
-            end_time: endTime || null,
-            duration: duration,
-            status: "fail",
-            error_summary: exe.errorMessage || exe.error || exe.failureReason || (() => {
-              const endTime = exe.completedOn || exe.updatedOn;
-              const dur = exe.createdOn && endTime
-                ? Math.round((new Date(endTime).getTime() - new Date(exe.createdOn).getTime()) / 1000)
-                : 0;
-              if (dur === 0) return "Failed immediately — check workflow config or credentials";
-              if (dur < 10) return "Failed quickly — possible auth or connection issue";
-              return "Execution failed mid-run — check workflow logs in Domo";
-            })(),
-            credits_estimate: parseFloat(runCredits.toFixed(4))
-          });
+        failedRuns.push({
+          run_id: exe.id,
+          entity_type: "workflow",
+          entity_id: workflowId,
+          entity_name: workflowName,
+          workflow_id: workflowId,
+          workflow_name: workflowName,
+          owner: owner,
+          start_time: exe.createdOn,
+          end_time: endTime || null,
+          duration: duration,
+          status: "fail",
+          error_summary: failure?.errorMessage ?? NO_ERROR_DETAILS,
+          failed_step: failure?.failedStep ?? null,
+          error_signature: failure?.signature?.id ?? null,
+          credits_estimate: runCredits?.credits ?? 0,
+          credits_attribution: runCredits?.method ?? "estimated"
         });
+      });
 
-      } catch (e: any) {
-        // Skip workflows with no execution data
+    } catch (e: any) {
+      // Skip workflows with no execution data (counted in dataQuality)
+      console.warn(`Skipping ${workflowId} in incidents scan: ${e.message}`);
+    }
+  }));
+
+  // Dataflows: 50 most recently created, like live-mode workflows
+  const dataflows = (await fetchAllDataflows(domo)).slice(0, 50);
+  await Promise.all(dataflows.map(async (df) => {
+    const owner = df.owner || "Unassigned";
+    try {
+      const runs = await fetchDataflowRunsInRange(domo, df.id, range);
+      const entity = dataflowRuleEntity(df, runs);
+      const applicable = rules.filter((rule) => inScope(rule, entity));
+      applicable.forEach((rule) => checked.add(incidentKey(rule, entity)));
+      if (runs.length === 0) return;
+
+      for (const evaluation of await evaluateRules(applicable, entity, context)) {
+        if (evaluation.matched) incidents.push(ruleIncident(evaluation, runs[0].startTime));
       }
-    }));
 
-    // Sort incidents by severity
-    const severityOrder: Record<string, number> = { critical: 0, high: 1, medium: 2, low: 3 };
-    incidents.sort((a, b) => (severityOrder[a.severity] ?? 4) - (severityOrder[b.severity] ?? 4));
+      const failed = runs.filter((r) => r.status === "failed");
 
-    // Sort failed runs by start_time desc
-    failedRuns.sort((a, b) => new Date(b.start_time).getTime() - new Date(a.start_time).getTime());
+      failed.slice(0, 5).forEach((run) => {
+        failedRuns.push({
+          run_id: run.executionId,
+          entity_type: "dataflow",
+          entity_id: df.id,
+          entity_name: df.name,
+          owner: owner,
+          start_time: run.startTime,
+          end_time: run.endTime,
+          duration: run.durationSeconds ?? 0,
+          status: "fail",
+          error_summary: run.errorMessage || `Dataflow execution ended in state ${run.state ?? "unknown"} — check the execution log in Domo`,
+          // Credits are attributed to workflow runs only
+          credits_estimate: null,
+          credits_attribution: null
+        });
+      });
+    } catch (e: any) {
+      console.warn(`Skipping dataflow ${df.id} in incidents scan: ${e.message}`);
+    }
+  }));
 
-    console.log(`✓ Incidents: ${incidents.length}, Failed runs: ${failedRuns.length}`);
+  // Budget breaches sit next to the rule incidents
+  let budgetsChecked = false;
+  try {
+    (await evaluateInstanceBudgets(domo)).filter(isBudgetAlert).forEach((e) => incidents.push(budgetIncident(e)));
+    budgetsChecked = true;
+  } catch (e: any) {
+    console.warn(`Skipping budget incidents: ${e.message}`);
+  }
 
-    res.json({
-      incidents,
-      failedRuns,
-      summary: {
-        totalIncidents: incidents.length,
-        criticalCount: incidents.filter(i => i.severity === "critical").length,
-        highCount: incidents.filter(i => i.severity === "high").length,
-        totalFailedRuns: failedRuns.length
-      }
-    });
+  // Blast radius so on-call knows what else breaks and whom to notify
+  try {
+    const workflowIds = [...new Set(incidents.filter((i) => i.entity_type === "workflow").map((i) => i.entity_id))];
+    const lineage = await loadLineageGraphWithModels(domo, workflowIds);
+    for (const incident of incidents) {
+      if (incident.entity_type !== "workflow" && incident.entity_type !== "dataflow") continue;
+      incident.blast_radius = blastRadius(analyzeImpact(lineage, incident.entity_type, incident.entity_id));
+    }
+  } catch (e: any) {
+    console.warn(`Skipping blast radius: ${e.message}`);
+  }
 
+  // Persist: update incidents already open, reopen recurring ones and
+  // auto-resolve the ones whose condition cleared, then list the queue.
+  // Custom from/to ranges look at the past and leave incident state alone
+  let lifecycle = null;
+  let queue: any[];
+  if (range.window) {
+    lifecycle = reconcileIncidents(domo.instance.name, incidents.map(toDetectedIncident),
+      (key) => checked.has(key) || (budgetsChecked && key.startsWith("inc_budget_")));
+    queue = listIncidents(domo.instance.name, { status: ACTIVE_STATUSES }).map(incidentView);
+  } else {
+    queue = incidents.map(({ evidence_at, ...incident }) => ({ ...incident, status: "detected" }));
+  }
+
+  // Sort incidents by severity
+  const severityOrder: Record<string, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+  queue.sort((a, b) => (severityOrder[a.severity] ?? 4) - (severityOrder[b.severity] ?? 4));
+
+  // Sort failed runs by start_time desc
+  failedRuns.sort((a, b) => new Date(b.start_time).getTime() - new Date(a.start_time).getTime());
+
+  return {
+    incidents: queue,
+    failedRuns,
+    errorSignatures: groupBySignature(allFailures).slice(0, 20).map((g) => ({ ...g, description: describeGroup(g) })),
+    summary: {
+      totalIncidents: queue.length,
+      criticalCount: queue.filter(i => i.severity === "critical").length,
+      highCount: queue.filter(i => i.severity === "high").length,
+      totalFailedRuns: failedRuns.length,
+      byStatus: Object.fromEntries(ACTIVE_STATUSES.map((status) => [status, queue.filter((i) => i.status === status).length])),
+      // Changes made by this scan; null for custom ranges
+      lifecycle
+    },
+    window: describeRange(range)
+  };
+}
+
+app.get("/api/runs-incidents", async (req, res) => {
+  try {
+    const domo: DomoClient = res.locals.domo;
+    const range = analyticsRange(req.query, "7d");
+    res.json({ ...(await scanIncidents(domo, range)), dataQuality: dataQuality(domo, range) });
   } catch (err: any) {
+    if (err instanceof InvalidRangeError) return res.status(400).json({ error: err.message });
     console.error("Runs & Incidents error:", err.message);
     res.status(500).json({ error: "Failed to fetch runs and incidents" });
   }
@@ -1439,84 +2051,506 @@ app.get("/api/runs-incidents", async (req, res) => {
 
 
 // ============================================================
-// SUMMARY API — Fix Command Center tiles
-// Calculates: paused count, failed runs 24h, success rate 24h
-// From ALL workflows, not just page 1
+// INCIDENTS — persisted queue fed by /api/runs-incidents scans
+// GET  /api/incidents?status=open,acknowledged,reopened|all&assignee=&limit=
+// GET  /api/incidents/:id                 incident with its history
+// POST /api/incidents/:id/acknowledge     { actor?, note? }
+// POST /api/incidents/:id/resolve         { actor?, note? }
+// POST /api/incidents/:id/reopen          { actor?, note? }
+// POST /api/incidents/:id/assign          { assignee | null, actor? }
+// POST /api/incidents/:id/notes           { note, actor? }
+// The POSTs need X-Admin-Token when ADMIN_TOKEN is set.
 // ============================================================
-app.get("/api/summary", async (req, res) => {
+
+const INCIDENT_STATUSES: IncidentStatus[] = ["open", "acknowledged", "resolved", "reopened"];
+
+app.get("/api/incidents", (req, res) => {
+  const domo: DomoClient = res.locals.domo;
+  const statusParam = typeof req.query.status === "string" ? req.query.status : null;
+  const status = statusParam === "all"
+    ? INCIDENT_STATUSES
+    : statusParam ? statusParam.split(",").map((s) => s.trim()) as IncidentStatus[] : ACTIVE_STATUSES;
+  const unknown = status.filter((s) => !INCIDENT_STATUSES.includes(s));
+  if (unknown.length > 0) {
+    return res.status(400).json({ error: `Unknown status ${unknown.join(", ")} (use ${INCIDENT_STATUSES.join(", ")} or all)` });
+  }
+  const limit = req.query.limit !== undefined ? Number(req.query.limit) : 500;
+  if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+    return res.status(400).json({ error: "limit must be an integer between 1 and 1000" });
+  }
+  const assignee = typeof req.query.assignee === "string" ? req.query.assignee : undefined;
+  const incidents = listIncidents(domo.instance.name, { status, assignee, limit });
+  res.json({
+    incidents,
+    total: incidents.length,
+    byStatus: Object.fromEntries(status.map((s) => [s, incidents.filter((i) => i.status === s).length]))
+  });
+});
+
+app.get("/api/incidents/:id", (req, res) => {
+  const domo: DomoClient = res.locals.domo;
+  const incident = getIncident(domo.instance.name, req.params.id);
+  if (!incident) return res.status(404).json({ error: "Incident not found" });
+  res.json({ ...incident, history: incidentHistory(incident.id) });
+});
+
+for (const action of ["acknowledge", "resolve", "reopen"] as IncidentAction[]) {
+  app.post(`/api/incidents/:id/${action}`, requireAdmin, (req, res) => {
+    const domo: DomoClient = res.locals.domo;
+    const parsed = incidentActionSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid request", issues: parsed.error.issues });
+    }
+    try {
+      const incident = transitionIncident(domo.instance.name, req.params.id, action, parsed.data);
+      if (!incident) return res.status(404).json({ error: "Incident not found" });
+      res.json(incident);
+    } catch (err: any) {
+      if (err instanceof IncidentStateError) return res.status(409).json({ error: err.message });
+      throw err;
+    }
+  });
+}
+
+app.post("/api/incidents/:id/assign", requireAdmin, (req, res) => {
+  const domo: DomoClient = res.locals.domo;
+  const parsed = incidentAssignSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid assignment", issues: parsed.error.issues });
+  }
+  const incident = assignIncident(domo.instance.name, req.params.id, parsed.data.assignee, parsed.data.actor);
+  if (!incident) return res.status(404).json({ error: "Incident not found" });
+  res.json(incident);
+});
+
+app.post("/api/incidents/:id/notes", requireAdmin, (req, res) => {
+  const domo: DomoClient = res.locals.domo;
+  const parsed = incidentNoteSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid note", issues: parsed.error.issues });
+  }
+  const incident = addIncidentNote(domo.instance.name, req.params.id, parsed.data.note, parsed.data.actor);
+  if (!incident) return res.status(404).json({ error: "Incident not found" });
+  res.status(201).json({ ...incident, history: incidentHistory(incident.id) });
+});
+
+
+// ============================================================
+// INCIDENT RULES — what /api/runs-incidents scans for: the built-in
+// rules merged with `incidentRules` from the instance config (see
+// src/rules/engine.ts)
+// GET  /api/rules                              rules and available metrics
+// POST /api/rules/dry-run?window=7d            { rule }  evaluate without opening incidents
+// ============================================================
+
+app.get("/api/rules", (req, res) => {
+  const domo: DomoClient = res.locals.domo;
+  res.json({ rules: domo.instance.incidentRules, metrics: listMetrics() });
+});
+
+// Evaluates over the workflows and dataflows a scan would look at; a
+// rule with the id of a configured one is merged over it, so a tweak
+// can be tried by sending just the changed fields
+async function dryRunRule(domo: DomoClient, rule: IncidentRule, range: TimeRange) {
+  const context = ruleContext(range);
+  const evaluations: RuleEvaluation[] = [];
+  let failedToLoad = 0;
+
+  const workflows = isStoreReady(domo.instance.name, "runs", range.from)
+    ? await fetchAllWorkflows(domo)
+    : (await fetchAllWorkflows(domo)).slice(0, 50);
+  const dataflows = (await fetchAllDataflows(domo)).slice(0, 50);
+
+  await Promise.all([
+    ...workflows
+      .filter((obj) => inScope(rule, { type: "workflow", id: obj.uuid, name: obj.name || "Unknown", owner: obj.ownedByName || null, folders: entityFolders(obj) }))
+      .map(async (obj) => {
+        try {
+          const executions = await fetchExecutionsInRange(domo, obj.uuid, range);
+          const evaluation = await evaluateRule(rule, workflowRuleEntity(domo, obj, executions, range).entity, context);
+          if (evaluation) evaluations.push(evaluation);
+        } catch (e: any) {
+          failedToLoad++;
+          console.warn(`Skipping ${obj.uuid} in rule dry run: ${e.message}`);
+        }
+      }),
+    ...dataflows
+      .filter((df) => inScope(rule, { type: "dataflow", ...df }))
+      .map(async (df) => {
+        try {
+          const runs = await fetchDataflowRunsInRange(domo, df.id, range);
+          const evaluation = await evaluateRule(rule, dataflowRuleEntity(df, runs), context);
+          if (evaluation) evaluations.push(evaluation);
+        } catch (e: any) {
+          failedToLoad++;
+          console.warn(`Skipping dataflow ${df.id} in rule dry run: ${e.message}`);
+        }
+      })
+  ]);
+
+  const active = new Map(listIncidents(domo.instance.name, { status: ACTIVE_STATUSES, limit: 1000 }).map((i) => [i.dedupeKey, i]));
+  const matches = evaluations
+    .filter((e) => e.matched)
+    .sort((a, b) => severityRank(b.severity) - severityRank(a.severity) || (b.value ?? 0) - (a.value ?? 0))
+    .map((e) => ({
+      dedupe_key: e.key,
+      entity_type: e.entityType,
+      entity_id: e.entityId,
+      entity_name: e.entityName,
+      owner: e.owner || "Unassigned",
+      value: e.value,
+      severity: e.severity,
+      issue: e.issue,
+      recommended_action: e.recommendedAction,
+      facts: e.facts,
+      evidence_at: e.evidenceAt !== null ? new Date(e.evidenceAt).toISOString() : null,
+      // The incident this match would update instead of opening a new one
+      active_incident: active.has(e.key) ? { incident_id: active.get(e.key)!.id, status: active.get(e.key)!.status } : null
+    }));
+
+  return {
+    rule,
+    window: describeRange(range),
+    evaluated: evaluations.length,
+    matched: matches.length,
+    // Too few runs, or not enough data for the metric
+    skipped: evaluations.filter((e) => e.skipped).length,
+    failedToLoad,
+    matches
+  };
+}
+
+app.post("/api/rules/dry-run", async (req, res) => {
+  const domo: DomoClient = res.locals.domo;
+  const entry = req.body?.rule;
+  if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+    return res.status(400).json({ error: "Expected { rule } in the request body" });
+  }
+  const parsed = parseRule(entry, domo.instance.incidentRules.find((r) => r.id === entry.id));
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid rule", issues: parsed.error.issues });
+  }
   try {
-    const TOKEN = DOMO_DEVELOPER_TOKEN;
-    console.log("=== Fetching Summary Stats ===");
+    const range = analyticsRange(req.query, "7d");
+    res.json(await dryRunRule(domo, parsed.data, range));
+  } catch (err: any) {
+    if (err instanceof InvalidRangeError) return res.status(400).json({ error: err.message });
+    console.error("Rule dry run error:", err.message);
+    res.status(500).json({ error: err.message });
+  }
+});
 
-    // Step 1 — Get ALL workflows in one call
-    // Use paginated fetch — handles any number of workflows
-    const allWorkflows = await fetchAllWorkflows(TOKEN);
-    const totalCount = allWorkflows.length;
+// ============================================================
+// SCHEDULES — do scheduled workflows run when they should?
+// (?window=, default 7 days; see src/schedules/detect.ts)
+// GET /api/schedules?status=all|issues
+// Missed, late and duplicate runs also become incidents through
+// the *-schedule rules
+// ============================================================
 
-    // Step 2 — Count paused from ALL workflows
-    const pausedCount = allWorkflows.filter(
-      (w: any) => !w.active
-    ).length;
+function scheduleView(workflow: { workflow_id: string; workflow_name: string; owner: string }, check: ScheduleCheck) {
+  const count = (type: string) => check.events.filter((e) => e.type === type).length;
+  return {
+    ...workflow,
+    cadence: check.cadence,
+    expected: check.slots.length,
+    on_time: check.onTime,
+    missed: count("missed"),
+    late: count("late"),
+    duplicate: count("duplicate"),
+    stopped: check.stopped,
+    last_run: check.lastRunAt !== null ? new Date(check.lastRunAt).toISOString() : null,
+    next_expected: check.nextExpectedAt !== null ? new Date(check.nextExpectedAt).toISOString() : null,
+    // Newest first
+    events: check.events.slice().reverse().map((e) => ({
+      type: e.type,
+      expected_at: new Date(e.expectedAt).toISOString(),
+      run_ids: e.runIds,
+      delay_minutes: e.delayMinutes
+    }))
+  };
+}
 
-    console.log(`Total workflows: ${totalCount}, searchObjects returned: ${allWorkflows.length}, Paused: ${pausedCount}`);
+// Workflows with a declared schedule or schedule-triggered runs in
+// the range, judged as of its end. Live mode looks at the top 50
+// workflows like the incidents scan, plus every declared one
+async function checkSchedules(domo: DomoClient, range: TimeRange) {
+  const schedules = domo.instance.schedules;
+  const all = await fetchAllWorkflows(domo);
+  const live = !isStoreReady(domo.instance.name, "runs", range.from);
+  const workflows = all.filter((obj, i) =>
+    !live || i < 50 || findSchedule(schedules, { id: obj.uuid, name: obj.name || "Unknown" }));
+
+  const checked: ReturnType<typeof scheduleView>[] = [];
+  const undetermined: { workflow_id: string; workflow_name: string; owner: string; reason: string }[] = [];
+  await Promise.all(workflows.map(async (obj) => {
+    const workflow = { workflow_id: obj.uuid, workflow_name: obj.name || "Unknown", owner: obj.ownedByName || "Unassigned" };
+    const definition = findSchedule(schedules, { id: obj.uuid, name: workflow.workflow_name });
+    try {
+      const runs = (await fetchExecutionsInRange(domo, obj.uuid, range))
+        .map((exe) => ({ id: exe.id, startTime: new Date(exe.createdOn).getTime(), trigger: exe.triggerType ?? null }));
+      if (!definition && !runs.some((r) => isScheduledTrigger(r.trigger))) return;
+      const check = checkSchedule(runs, definition, { from: range.from, now: range.to });
+      if ("reason" in check) undetermined.push({ ...workflow, reason: check.reason });
+      else checked.push(scheduleView(workflow, check));
+    } catch (e: any) {
+      console.warn(`Skipping ${obj.uuid} in schedule check: ${e.message}`);
+    }
+  }));
+
+  checked.sort((a, b) => Number(b.stopped) - Number(a.stopped) || b.missed - a.missed || b.late - a.late || b.duplicate - a.duplicate);
+  return {
+    workflows: checked,
+    undetermined,
+    summary: {
+      scheduled: checked.length,
+      healthy: checked.filter((w) => w.missed + w.late + w.duplicate === 0).length,
+      withMissedRuns: checked.filter((w) => w.missed > 0).length,
+      withLateRuns: checked.filter((w) => w.late > 0).length,
+      withDuplicateRuns: checked.filter((w) => w.duplicate > 0).length,
+      stopped: checked.filter((w) => w.stopped).length,
+      undetermined: undetermined.length
+    },
+    window: describeRange(range)
+  };
+}
 
-    // Step 3 — Check last 24h runs from top 50 workflows
-    const now = new Date();
-    const last24h = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+app.get("/api/schedules", async (req, res) => {
+  try {
+    const domo: DomoClient = res.locals.domo;
+    const range = analyticsRange(req.query, "7d");
+    const status = req.query.status ?? "all";
+    if (status !== "all" && status !== "issues") {
+      return res.status(400).json({ error: "status must be all or issues" });
+    }
+    const report = await checkSchedules(domo, range);
+    res.json(status === "issues"
+      ? { ...report, workflows: report.workflows.filter((w) => w.missed + w.late + w.duplicate > 0) }
+      : report);
+  } catch (err: any) {
+    if (err instanceof InvalidRangeError) return res.status(400).json({ error: err.message });
+    console.error("Schedule check error:", err.message);
+    res.status(500).json({ error: err.message });
+  }
+});
 
-    let failed24h = 0;
-    let success24h = 0;
-    let total24h = 0;
+// ============================================================
+// NOTIFICATIONS — alert channels and routes from the instance config
+// (`notifications`, see src/notify/config.ts)
+// GET  /api/notifications                  channels, routes, quiet hours, last pass
+// GET  /api/notifications/deliveries?status=sent|failed|deduplicated|deferred&channel=&limit=
+// POST /api/notifications/test             { channel }
+// POST /api/notifications/dispatch?scan=true   run a pass now
+// Both POSTs send messages, so they are admin-only (requireAdmin).
+// ============================================================
 
-    // Check top 50 most recently modified workflows for 24h stats
-    const workflowsToCheck = allWorkflows.slice(0, 200);
+const DELIVERY_STATUSES: DeliveryStatus[] = ["sent", "failed", "deduplicated", "deferred"];
 
-    await Promise.all(workflowsToCheck.map(async (wf: any) => {
-      try {
-        const exeRes = await axios.get(
-          `${DOMO_DOMAIN}/api/workflow/v1/instances?modelId=${wf.uuid}&limit=20&sort=createdOn:desc`,
-          { headers: { "X-DOMO-Developer-Token": TOKEN } }
-        );
+// Webhook URLs carry their credentials, so only the host is shown
+function describeChannel(name: string, channel: ChannelConfig) {
+  return channel.type === "email"
+    ? { name, type: channel.type, target: `${channel.host}:${channel.port}`, to: channel.to }
+    : { name, type: channel.type, target: new URL(channel.url).host };
+}
 
-        const runs = exeRes.data || [];
+app.get("/api/notifications", (req, res) => {
+  const domo: DomoClient = res.locals.domo;
+  const config = domo.instance.notifications;
+  res.json({
+    enabled: notifySettings.enabled && config.routes.length > 0,
+    intervalMs: notifySettings.intervalMs,
+    channels: Object.entries(config.channels).map(([name, channel]) => describeChannel(name, channel)),
+    routes: config.routes,
+    quietHours: config.quietHours ?? null,
+    inQuietHours: inQuietHours(config.quietHours, new Date()),
+    dedupWindowMinutes: config.dedupWindowMinutes,
+    digest: config.digest ?? null,
+    lastPass: getNotifyWorker().lastPass(domo.instance.name)
+  });
+});
 
-        // Filter only last 24 hours
-        const recent = runs.filter((r: any) => {
-          const runTime = new Date(r.createdOn);
-          return runTime >= last24h;
-        });
+app.get("/api/notifications/deliveries", (req, res) => {
+  const domo: DomoClient = res.locals.domo;
+  const status = typeof req.query.status === "string" ? req.query.status as DeliveryStatus : undefined;
+  if (status && !DELIVERY_STATUSES.includes(status)) {
+    return res.status(400).json({ error: `Unknown status ${status} (use ${DELIVERY_STATUSES.join(", ")})` });
+  }
+  const limit = req.query.limit !== undefined ? Number(req.query.limit) : 100;
+  if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+    return res.status(400).json({ error: "limit must be an integer between 1 and 1000" });
+  }
+  const channel = typeof req.query.channel === "string" ? req.query.channel : undefined;
+  res.json({ deliveries: listDeliveries(domo.instance.name, { status, channel, limit }) });
+});
 
-        recent.forEach((r: any) => {
-          total24h++;
-          if (r.status === "FAILED") failed24h++;
-          else {
-            // COMPLETED, RUNNING, or any other status = not failed
-            success24h++;
-          }
-        });
+app.post("/api/notifications/test", requireAdmin, async (req, res) => {
+  const domo: DomoClient = res.locals.domo;
+  const config = domo.instance.notifications;
+  const channel = req.body?.channel;
+  if (typeof channel !== "string" || !config.channels[channel]) {
+    return res.status(400).json({ error: `Unknown channel (configured: ${Object.keys(config.channels).join(", ") || "none"})` });
+  }
+  try {
+    await sendTestNotification(domo.instance.name, config, channel);
+    res.json({ channel, status: "sent" });
+  } catch (err: any) {
+    res.status(502).json({ channel, status: "failed", error: err.message });
+  }
+});
 
-      } catch (e) {
-        // Skip workflows with no execution data
-      }
-    }));
+app.post("/api/notifications/dispatch", requireAdmin, async (req, res) => {
+  const domo: DomoClient = res.locals.domo;
+  if (domo.instance.notifications.routes.length === 0) {
+    return res.status(400).json({ error: `No notification routes configured for instance '${domo.instance.name}'` });
+  }
+  res.json(await getNotifyWorker().notifyInstance(domo.instance.name, req.query.scan === "true"));
+});
 
-    // Step 4 — Calculate success rate
-    const successRate = total24h > 0
-      ? Math.round((success24h / total24h) * 100)
-      : 100;
 
-    console.log(`24h stats — total: ${total24h}, failed: ${failed24h}, success: ${success24h}, rate: ${successRate}%`);
+// ============================================================
+// RECURRING FAILURES — failed runs of all workflows clustered by
+// error signature (?window=, default 30 days)
+// GET /api/failures/clusters?limit=20&minOccurrences=2
+// ============================================================
+app.get("/api/failures/clusters", async (req, res) => {
+  try {
+    const domo: DomoClient = res.locals.domo;
+    const range = analyticsRange(req.query, "30d");
+    const limit = req.query.limit === undefined ? 20 : Number(req.query.limit);
+    const minOccurrences = req.query.minOccurrences === undefined ? 2 : Number(req.query.minOccurrences);
+    if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+      return res.status(400).json({ error: "limit must be an integer between 1 and 100" });
+    }
+    if (!Number.isInteger(minOccurrences) || minOccurrences < 1) {
+      return res.status(400).json({ error: "minOccurrences must be a positive integer" });
+    }
 
+    const report = await failureClusters(domo, range, { limit, minOccurrences });
     res.json({
-      totalWorkflows: totalCount,
-      pausedCount,
-      failed24h,
-      success24h,
-      total24h,
-      successRate
+      ...report,
+      clusters: report.clusters.map((c) => ({ ...c, description: describeGroup(c) })),
+      window: describeRange(range),
+      dataQuality: dataQuality(domo, range)
     });
+  } catch (err: any) {
+    if (err instanceof InvalidRangeError) return res.status(400).json({ error: err.message });
+    console.error("Failure clusters error:", err.message);
+    res.status(500).json({ error: "Failed to cluster failures", details: err.message });
+  }
+});
+
+// ============================================================
+// SUMMARY API — Fix Command Center tiles
+// Calculates: paused count, failed runs, success rate over the
+// window (?window=, default 24h) from ALL workflows, not just page 1,
+// plus dataflow runs (live, 200 most recently created dataflows)
+// ============================================================
+// Workflow counts and run outcomes of the window (also the daily digest)
+async function buildSummary(domo: DomoClient, range: TimeRange) {
+  // Step 1 — Get ALL workflows in one call
+  // Use paginated fetch — handles any number of workflows
+  const allWorkflows = await fetchAllWorkflows(domo);
+  const totalCount = allWorkflows.length;
+
+  // Step 2 — Count paused from ALL workflows
+  const pausedCount = allWorkflows.filter(
+    (w) => !w.active
+  ).length;
+
+  // Step 3 — Count runs in the window. The *24h field names are kept
+  // for existing clients; values cover `window`.
+  let failed24h = 0;
+  let success24h = 0;
+  let total24h = 0;
+  const byEntityType = {
+    workflow: { total: 0, failed: 0, success: 0 },
+    dataflow: { total: 0, failed: 0, success: 0 }
+  };
+
+  const count = (type: keyof typeof byEntityType, failed: boolean) => {
+    total24h++;
+    byEntityType[type].total++;
+    if (failed) {
+      failed24h++;
+      byEntityType[type].failed++;
+    } else {
+      // Completed, running, or any other status = not failed
+      success24h++;
+      byEntityType[type].success++;
+    }
+  };
+  const countRun = (r: WorkflowInstance) => count("workflow", r.status === "FAILED");
+
+  if (isStoreReady(domo.instance.name, "runs", range.from)) {
+    // Every run of every workflow in one local query
+    listRuns(domo.instance.name, {
+      since: range.from.getTime(),
+      until: range.to.getTime()
+    }).forEach(countRun);
+  } else {
+    // Live mode: top 200 most recently modified workflows only
+    const workflowsToCheck = allWorkflows.slice(0, 200);
+
+    await Promise.all(workflowsToCheck.map(async (wf) => {
+      try {
+        const runs = await fetchExecutionsInRange(domo, wf.uuid, range);
+        runs.forEach(countRun);
+      } catch (e: any) {
+        // Skip workflows with no execution data (counted in dataQuality)
+        console.warn(`Skipping ${wf.uuid} in summary scan: ${e.message}`);
+      }
+    }));
+  }
+
+  const dataflows = (await fetchAllDataflows(domo)).slice(0, 200);
+  await Promise.all(dataflows.map(async (df) => {
+    try {
+      const runs = await fetchDataflowRunsInRange(domo, df.id, range);
+      runs.forEach((r) => count("dataflow", r.status === "failed"));
+    } catch (e: any) {
+      console.warn(`Skipping dataflow ${df.id} in summary scan: ${e.message}`);
+    }
+  }));
 
+  // Step 4 — Calculate success rate
+  const successRate = total24h > 0
+    ? Math.round((success24h / total24h) * 100)
+    : 100;
+
+  // Step 5 — Scheduled workflows that stopped or skipped runs; always
+  // over 7 days, as shorter windows hold too few runs of a daily schedule
+  let schedules = null;
+  try {
+    const report = await checkSchedules(domo, analyticsRange({}, "7d"));
+    schedules = {
+      ...report.summary,
+      stoppedWorkflows: report.workflows.filter((w) => w.stopped).map((w) => ({ workflow_id: w.workflow_id, workflow_name: w.workflow_name, last_run: w.last_run })),
+      window: report.window
+    };
+  } catch (e: any) {
+    console.warn(`Skipping schedule check in summary: ${e.message}`);
+  }
+
+  return {
+    totalWorkflows: totalCount,
+    pausedCount,
+    failed24h,
+    success24h,
+    total24h,
+    successRate,
+    byEntityType,
+    schedules,
+    window: describeRange(range)
+  };
+}
+
+app.get("/api/summary", async (req, res) => {
+  try {
+    const domo: DomoClient = res.locals.domo;
+    const range = analyticsRange(req.query, "24h");
+    res.json({ ...(await buildSummary(domo, range)), dataQuality: dataQuality(domo, range) });
   } catch (err: any) {
+    if (err instanceof InvalidRangeError) return res.status(400).json({ error: err.message });
     console.error("Summary API error:", err.message);
     res.status(500).json({
       totalWorkflows: 0,
@@ -1528,108 +2562,400 @@ app.get("/api/summary", async (req, res) => {
 });
 
 // ============================================================
-// AGENTS SUMMARY — REAL DATA FROM CREDITS DATASET
+// AI AGENT CATALOG — CREDITS DATASET + DOMO METADATA (?window=, default 30 days)
+// GET /api/agents       inventory with tokens, owners, cost and risk
+// GET /api/agents/:id   one agent with daily credits
 // ============================================================
+
+// Search-indexed agents by id; empty when the index has none
+async function fetchAgentMetadata(domo: DomoClient): Promise<Map<string, SearchObject>> {
+  try {
+    return await getCache().getOrLoad(domo.instance.name, "workflows", "agents", async () => {
+      const { searchObjects } = await domo.searchAgents();
+      const map = new Map<string, SearchObject>();
+      for (const obj of searchObjects) {
+        const id = obj.uuid || obj.databaseId;
+        if (id) map.set(id, obj);
+      }
+      return map;
+    });
+  } catch (e: any) {
+    console.warn(`Agent metadata unavailable: ${e.message}`);
+    return new Map();
+  }
+}
+
+async function loadAgentCatalog(domo: DomoClient, range: TimeRange) {
+  const sinceDate = isoDate(range.from);
+  const untilDate = isoDate(range.to);
+  const [rows, metadata, users] = await Promise.all([
+    fetchSkuCreditRows(domo, "AI Agent", range),
+    fetchAgentMetadata(domo),
+    fetchUsers(domo)
+  ]);
+  console.log(`Agent rows from dataset: ${rows.length}, indexed agents: ${metadata.size}`);
+
+  const profiles = buildAgentProfiles(rows, {
+    pricing: domo.instance.pricing,
+    skuProviders: domo.instance.skuProviders,
+    registry: domo.instance.agents,
+    metadata,
+    users,
+    untilDate
+  });
+  const context = {
+    totalAgentCost: profiles.reduce((sum, p) => sum + p.cost, 0),
+    sinceDate,
+    untilDate
+  };
+  return profiles
+    .map((profile) => ({ profile, risk: assessAgentRisk(profile, context) }))
+    .sort((a, b) => b.profile.cost - a.profile.cost);
+}
+
+// The *_30d field names are kept for existing clients; values cover
+// the requested window. Unknown facts are null rather than defaults.
+function agentSummary(domo: DomoClient, profile: AgentProfile, risk: RiskAssessment) {
+  return {
+    agent_id: profile.agentId,
+    name: profile.name,
+    description: profile.description,
+    owner: profile.owner,
+    owner_source: profile.ownerSource,
+    location: new URL(domo.instance.domain).host,
+    location_type: "cloud",
+    status: profile.status,
+    model_provider: profile.modelProvider,
+    invocations_30d: profile.invocations,
+    tokens_in_30d: profile.tokensIn,
+    tokens_out_30d: profile.tokensOut,
+    tokens_unsplit_30d: profile.tokensUnsplit,
+    avg_tokens_in: profile.avgTokensIn,
+    avg_tokens_out: profile.avgTokensOut,
+    estimated_cost_30d: profile.cost,
+    credits_30d: profile.credits,
+    first_seen: profile.firstSeen,
+    last_seen: profile.lastSeen,
+    skus: profile.skus,
+    risk_score: risk.score,
+    risk_band: risk.band,
+    risk_reasons: risk.reasons,
+    guardrails_enabled: profile.guardrails,
+    data_classification: profile.dataClassification,
+    approved: profile.approved,
+    registered: profile.registered
+  };
+}
+
 app.get("/api/agents", async (req, res) => {
   try {
-    const TOKEN = DOMO_DEVELOPER_TOKEN;
+    const domo: DomoClient = res.locals.domo;
+    const range = analyticsRange(req.query, "30d");
     console.log("=== Fetching Agents from Credits Dataset ===");
 
-    const endpoint = `${DOMO_DOMAIN}/api/query/v1/execute/${CREDITS_DATASET_ID}`;
+    const catalog = await loadAgentCatalog(domo, range);
+    const agents = catalog.map(({ profile, risk }) => agentSummary(domo, profile, risk));
+
+    console.log(`✓ Agents ready: ${agents.length}`);
+    res.json({ agents, currency: domo.instance.pricing.currency, window: describeRange(range), dataQuality: dataQuality(domo, range) });
+
+  } catch (err: any) {
+    if (err instanceof InvalidRangeError) return res.status(400).json({ error: err.message });
+    console.error("Agents error:", err.message);
+    res.status(500).json({ error: "Failed to fetch agents", agents: [] });
+  }
+});
 
-    // Get agent usage — sum requests and credits per agent
-    const thirtyDaysAgo = new Date();
-    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-    const dateStr = thirtyDaysAgo.toISOString().split('T')[0]; // e.g. "2026-02-08"
+app.get("/api/agents/:id", async (req, res) => {
+  try {
+    const domo: DomoClient = res.locals.domo;
+    const range = analyticsRange(req.query, "30d");
+    const entry = (await loadAgentCatalog(domo, range)).find((a) => a.profile.agentId === req.params.id);
+    if (!entry) return res.status(404).json({ error: `Agent not found: ${req.params.id}` });
 
+    res.json({
+      agent: agentSummary(domo, entry.profile, entry.risk),
+      daily_credits: entry.profile.dailyCredits,
+      currency: domo.instance.pricing.currency,
+      window: describeRange(range),
+      dataQuality: dataQuality(domo, range)
+    });
+  } catch (err: any) {
+    if (err instanceof InvalidRangeError) return res.status(400).json({ error: err.message });
+    console.error("Agent detail error:", err.message);
+    res.status(500).json({ error: "Failed to fetch agent" });
+  }
+});
+
+// ============================================================
+// CREDIT BUDGETS — per workflow, owner or AI agent
+// GET    /api/budgets            budgets with spend, burn rate and projection
+// GET    /api/budgets/breaches   breached or projected to breach this period
+// POST   /api/budgets            create
+// PUT    /api/budgets/:id        replace
+// DELETE /api/budgets/:id
+// Creating, replacing and deleting need the admin token.
+// ============================================================
+
+// Daily credits per Workflow / AI Agent entity (dates inclusive)
+async function fetchEntityDayCredits(domo: DomoClient, sinceDate: string, untilDate: string): Promise<EntityDayCredits[]> {
+  const entityTypes = ["Workflow", "AI Agent"];
+  if (isStoreReady(domo.instance.name, "credits", new Date(sinceDate))) {
+    return creditsByEntityAndDate(domo.instance.name, entityTypes, sinceDate, untilDate);
+  }
+  return getCache().getOrLoad(domo.instance.name, "credits", `entity-days:${sinceDate}:${untilDate}`, async () => {
+    const datasetId = requireCreditsDataset(domo.instance);
     const sql = `
-      SELECT entityId, SUM(usageQuantity), SUM(creditsUsed)
+      SELECT entityType, entityId, date, SUM(creditsUsed)
       FROM credit_usage
-      WHERE entityType = 'AI Agent'
-        AND date >= CURRENT_DATE - INTERVAL '30' DAY
-      GROUP BY entityId
+      WHERE entityType IN ('Workflow', 'AI Agent')
+        AND date >= '${sinceDate}' AND date <= '${untilDate}'
+      GROUP BY entityType, entityId, date
     `;
+    const { rows } = await domo.queryDataset(datasetId, sql);
+    return rows.map((row) => ({
+      entityType: String(row[0]),
+      entityId: String(row[1]),
+      date: String(row[2]).slice(0, 10),
+      credits: parseFloat(row[3]) || 0
+    }));
+  });
+}
 
-    const res2 = await axios.post(endpoint, { sql }, {
-      headers: {
-        "Content-Type": "application/json",
-        "X-DOMO-Developer-Token": TOKEN
-      }
+async function evaluateInstanceBudgets(domo: DomoClient): Promise<BudgetEvaluation[]> {
+  const budgets = listBudgets(domo.instance.name);
+  if (budgets.length === 0) return [];
+
+  const now = new Date();
+  const credits = await fetchEntityDayCredits(domo, earliestPeriodStart(budgets, now), isoDate(now));
+  const workflows = budgets.some((b) => b.scope !== "agent") ? await fetchAllWorkflows(domo) : [];
+  return evaluateBudgets(budgets, credits, workflows, now);
+}
+
+const isBudgetAlert = (e: BudgetEvaluation) => e.status === "breached" || e.status === "projected_breach";
+
+// Shaped like the failure-rate incidents in /api/runs-incidents
+function budgetIncident(e: BudgetEvaluation) {
+  const { budget } = e;
+  const breached = e.status === "breached";
+  return {
+    incident_id: `inc_budget_${budget.id}`,
+    entity_type: budget.scope,
+    entity_id: budget.target,
+    entity_name: e.entityName,
+    owner: e.owner || "Unassigned",
+    issue: breached
+      ? `Credit budget exceeded: ${e.spent} of ${budget.limitCredits} credits (${e.periodStart} – ${e.periodEnd})`
+      : `Projected to exceed credit budget${e.projectedBreachDate ? ` on ${e.projectedBreachDate}` : ""}: ` +
+        `${e.spent} of ${budget.limitCredits} credits used, burning ${e.burnRatePerDay}/day`,
+    severity: breached ? (e.percentUsed >= 1.2 ? "critical" : "high") : "medium",
+    last_activity: new Date().toISOString(),
+    recommended_action: breached
+      ? "Pause or throttle the biggest consumers, or raise the budget"
+      : "Review recent credit spikes before the period ends",
+    // The breach is ongoing rather than a datable occurrence
+    evidence_at: null
+  };
+}
+
+app.get("/api/budgets", async (req, res) => {
+  try {
+    const domo: DomoClient = res.locals.domo;
+    const budgets = await evaluateInstanceBudgets(domo);
+    res.json({ budgets, dataQuality: dataQuality(domo) });
+  } catch (err: any) {
+    console.error("Budgets error:", err.message);
+    res.status(500).json({ error: "Failed to evaluate budgets", details: err.message });
+  }
+});
+
+app.get("/api/budgets/breaches", async (req, res) => {
+  try {
+    const domo: DomoClient = res.locals.domo;
+    const breaches = (await evaluateInstanceBudgets(domo)).filter(isBudgetAlert);
+    res.json({
+      breaches,
+      summary: {
+        breached: breaches.filter((b) => b.status === "breached").length,
+        projected: breaches.filter((b) => b.status === "projected_breach").length
+      },
+      dataQuality: dataQuality(domo)
     });
+  } catch (err: any) {
+    console.error("Budget breaches error:", err.message);
+    res.status(500).json({ error: "Failed to evaluate budgets", details: err.message });
+  }
+});
+
+app.post("/api/budgets", requireAdmin, (req, res) => {
+  const domo: DomoClient = res.locals.domo;
+  const parsed = budgetInputSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid budget", issues: parsed.error.issues });
+  }
+  res.status(201).json(createBudget(domo.instance.name, parsed.data));
+});
+
+app.put("/api/budgets/:id", requireAdmin, (req, res) => {
+  const domo: DomoClient = res.locals.domo;
+  const parsed = budgetInputSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid budget", issues: parsed.error.issues });
+  }
+  const budget = updateBudget(domo.instance.name, req.params.id, parsed.data);
+  if (!budget) return res.status(404).json({ error: "Budget not found" });
+  res.json(budget);
+});
 
-    const rows = res2.data?.rows || [];
-    console.log(`Agent rows from dataset: ${rows.length}`);
+app.delete("/api/budgets/:id", requireAdmin, (req, res) => {
+  const domo: DomoClient = res.locals.domo;
+  if (!deleteBudget(domo.instance.name, req.params.id)) {
+    return res.status(404).json({ error: "Budget not found" });
+  }
+  res.status(204).end();
+});
 
-    // Group by entityId
-    const agentMap = new Map<string, any>();
+// ============================================================
+// TRENDS — daily/hourly buckets of runs, failures, p50/p95
+// duration and credits
+// GET /api/trends?bucket=day|hour&window=7d  or  &from=...&to=...  (tenant-wide)
+// GET /api/workflows/:id/trends?bucket=day|hour&window=...|from=...&to=...
+// Default window: 30 days (48h for hourly buckets). Tenant-wide run series need the sync
+// store; per-workflow series fall back to live Domo calls.
+// ============================================================
+function parseTrendQuery(query: Record<string, unknown>) {
+  const bucket = parseBucketSize(query.bucket);
+  if (!bucket) throw new InvalidRangeError("`bucket` must be \"day\" or \"hour\"");
+  const range = parseTimeRange(query, { defaultWindow: bucket === "hour" ? "48h" : "30d", maxDays: 366 });
+  if (bucketCount(range, bucket) > MAX_BUCKETS) {
+    throw new InvalidRangeError(`Range too long for ${bucket} buckets (max ${MAX_BUCKETS})`);
+  }
+  return { bucket, range };
+}
 
-    rows.forEach((row: any) => {
-      const entityId = String(row[0]);
-      // const skuId = String(row[1]);
-      const requests = parseFloat(row[1]) || 0;
-      const credits = parseFloat(row[2]) || 0;
+// Credits per YYYY-MM-DD for the whole tenant or one workflow; null if unavailable
+async function fetchCreditsByDate(domo: DomoClient, range: TimeRange, workflowId?: string) {
+  const sinceDate = isoDate(range.from);
+  const untilDate = isoDate(range.to);
+  const entity = workflowId ? { type: "Workflow", id: workflowId } : {};
 
-      if (!agentMap.has(entityId)) {
-        agentMap.set(entityId, {
-          agent_id: entityId,
-          invocations_30d: 0,
-          credits_30d: 0,
-          skus: []
-        });
-      }
+  if (isStoreReady(domo.instance.name, "credits", range.from)) {
+    return creditsByDate(domo.instance.name, sinceDate, untilDate, entity);
+  }
+  if (!domo.instance.creditsDatasetId) return null;
 
-      const agent = agentMap.get(entityId);
-      agent.invocations_30d += requests;
-      agent.credits_30d += credits;
-      // agent.skus.push(skuId);
-    });
+  try {
+    const sql = `
+      SELECT date, SUM(creditsUsed)
+      FROM credit_usage
+      WHERE date >= '${sinceDate}' AND date <= '${untilDate}'
+        ${workflowId ? `AND entityType = 'Workflow' AND entityId = '${sqlId(workflowId)}'` : ""}
+      GROUP BY date
+    `;
+    const { rows } = await domo.queryDataset(domo.instance.creditsDatasetId, sql);
+    return new Map<string, number>(
+      rows.map((row) => [String(row[0]).slice(0, 10), parseFloat(row[1]) || 0])
+    );
+  } catch (e: any) {
+    console.warn(`Credits trend query failed: ${e.message}`);
+    return null;
+  }
+}
 
-    // Map entityId to friendly names
-    const nameMap: Record<string, string> = {
-      "DOMO_PAGE_BUILDER": "Page Builder Agent",
-      "DOMO_BASIC_ASSISTANT": "Basic Assistant Agent"
-    };
+function trendTotals(buckets: TrendBucket[]) {
+  const runs = buckets.reduce((sum, b) => sum + b.runs, 0);
+  const failures = buckets.reduce((sum, b) => sum + b.failures, 0);
+  const credits = buckets.some((b) => b.credits !== null)
+    ? parseFloat(buckets.reduce((sum, b) => sum + (b.credits ?? 0), 0).toFixed(4))
+    : null;
+  return { runs, failures, failureRate: runs > 0 ? parseFloat((failures / runs).toFixed(4)) : 0, credits };
+}
 
-    const skuToProvider: Record<string, string> = {
-      "ai-agent-content-builder": "Domo AI",
-      "ai-agent-chat": "Domo AI"
-    };
+app.get("/api/trends", async (req, res) => {
+  try {
+    const domo: DomoClient = res.locals.domo;
+    const { bucket, range } = parseTrendQuery(req.query);
 
-    const agents = Array.from(agentMap.values()).map((a: any) => {
-      const credits = parseFloat(a.credits_30d.toFixed(4));
-      const cost = credits; // For agents, creditsUsed IS the cost directly
-      const invocations = Math.round(a.invocations_30d);
+    if (!isStoreReady(domo.instance.name)) {
+      return res.status(503).json({
+        error: "Tenant-wide trends need the sync store, which has not finished syncing",
+        sync: getSyncWorker().status().find((s) => s.instance === domo.instance.name)
+      });
+    }
 
-      return {
-        agent_id: a.agent_id,
-        name: nameMap[a.agent_id] || a.agent_id,
-        owner: "Domo Platform",
-        location: "gwcteq-partner.domo.com",
-        location_type: "cloud",
-        status: "active",
-        model_provider: skuToProvider[a.skus[0]] || "Domo AI",
-        invocations_30d: invocations,
-        avg_tokens_in: 0,
-        avg_tokens_out: 0,
-        estimated_cost_30d: cost,
-        credits_30d: credits,
-        risk_band: "low",
-        guardrails_enabled: true,
-        confidence_avg: 0.9
-      };
+    // Only the store has every workflow's runs, and it reaches back to
+    // its first backfill: the window is cut to that and says so
+    const coveredFrom = storeCoveredFrom(domo.instance.name);
+    if (coveredFrom && coveredFrom >= range.to) {
+      throw new InvalidRangeError(`The sync store has runs from ${coveredFrom.toISOString()} only`);
+    }
+    const covered: TimeRange = coveredFrom && coveredFrom > range.from ? { from: coveredFrom, to: range.to, window: null } : range;
+
+    const runs = listRuns(domo.instance.name, { since: covered.from.getTime(), until: covered.to.getTime() });
+    const credits = await fetchCreditsByDate(domo, covered);
+    const buckets = buildTrend(runs, credits, covered, bucket);
+
+    res.json({
+      bucket,
+      window: describeRange(covered),
+      ...(covered !== range ? { requestedWindow: describeRange(range) } : {}),
+      totals: trendTotals(buckets),
+      buckets,
+      dataQuality: dataQuality(domo, covered)
     });
+  } catch (err: any) {
+    if (err instanceof InvalidRangeError) return res.status(400).json({ error: err.message });
+    console.error("Trends error:", err.message);
+    res.status(500).json({ error: "Failed to build trends" });
+  }
+});
 
-    console.log(`✓ Agents ready: ${agents.length}`);
-    res.json({ agents });
+app.get("/api/workflows/:id/trends", async (req, res) => {
+  try {
+    const domo: DomoClient = res.locals.domo;
+    const workflowId = req.params.id;
+    const { bucket, range } = parseTrendQuery(req.query);
+
+    const runs = isStoreReady(domo.instance.name, "runs", range.from)
+      ? listRuns(domo.instance.name, { modelId: workflowId, since: range.from.getTime(), until: range.to.getTime() })
+      : await loadExecutionsSince(domo, workflowId, range.from);
+    const credits = await fetchCreditsByDate(domo, range, workflowId);
+    const buckets = buildTrend(runs, credits, range, bucket);
 
+    res.json({
+      workflow_id: workflowId,
+      bucket,
+      window: describeRange(range),
+      totals: trendTotals(buckets),
+      buckets,
+      dataQuality: dataQuality(domo, range)
+    });
   } catch (err: any) {
-    console.error("Agents error:", err.message);
-    res.status(500).json({ error: "Failed to fetch agents", agents: [] });
+    if (err instanceof InvalidRangeError) return res.status(400).json({ error: err.message });
+    console.error("Workflow trends error:", err.message);
+    res.status(500).json({ error: "Failed to build workflow trends" });
   }
 });
 
 // ========== SERVER START ==========
 app.listen(port, () => {
   console.log(`API Server running at http://localhost:${port}`);
+  getSyncWorker().start();
+  getNotifyWorker().start({
+    scanIncidents: async (domo) => {
+      await scanIncidents(domo, analyticsRange({}, "7d"));
+    },
+    summarize: async (domo, window) => {
+      const summary = await buildSummary(domo, analyticsRange({ window }, "24h"));
+      return {
+        window,
+        totalRuns: summary.total24h,
+        failedRuns: summary.failed24h,
+        successRate: summary.successRate,
+        totalWorkflows: summary.totalWorkflows,
+        pausedWorkflows: summary.pausedCount
+      };
+    }
+  });
   initMcpClient().catch(console.error);
 });
\ No newline at end of file
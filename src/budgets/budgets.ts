@@ -0,0 +1,152 @@
+import { randomUUID } from "node:crypto";
+import z from "zod";
+import { getDb } from "../store/db.js";
+
+// ============================================================
+// CREDIT BUDGETS
+// ============================================================
+// A budget caps credits for one workflow, one owner (all workflows
+// they own) or one AI agent over a period: the current calendar
+// month (UTC) or a fixed custom range. Budgets are stored per
+// instance in the local store; evaluation lives in burn.ts.
+// ============================================================
+
+export type BudgetScope = "workflow" | "owner" | "agent";
+
+const isoDay = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date");
+
+export const budgetInputSchema = z
+  .object({
+    scope: z.enum(["workflow", "owner", "agent"]),
+    // Workflow id, owner name (or id), or AI agent entity id
+    target: z.string().min(1),
+    name: z.string().nullish(),
+    limitCredits: z.number().positive(),
+    period: z.enum(["monthly", "custom"]).default("monthly"),
+    periodStart: isoDay.nullish(),
+    periodEnd: isoDay.nullish(),
+    // Fraction of the limit that raises a warning
+    warnAt: z.number().gt(0).max(1).default(0.8),
+  })
+  .superRefine((b, ctx) => {
+    if (b.period !== "custom") return;
+    if (!b.periodStart || !b.periodEnd) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Custom budgets need periodStart and periodEnd",
+        path: ["periodStart"],
+      });
+    } else if (b.periodStart > b.periodEnd) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "periodStart must not be after periodEnd",
+        path: ["periodEnd"],
+      });
+    }
+  });
+
+export type BudgetInput = z.infer<typeof budgetInputSchema>;
+
+export interface Budget extends BudgetInput {
+  id: string;
+  instance: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+function fromRow(row: any): Budget {
+  return {
+    id: row.id,
+    instance: row.instance,
+    scope: row.scope,
+    target: row.target,
+    name: row.name,
+    limitCredits: row.limit_credits,
+    period: row.period,
+    periodStart: row.period_start,
+    periodEnd: row.period_end,
+    warnAt: row.warn_at,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+  };
+}
+
+export function listBudgets(instance: string): Budget[] {
+  return getDb()
+    .prepare(
+      "SELECT * FROM credit_budgets WHERE instance = ? ORDER BY created_at",
+    )
+    .all(instance)
+    .map(fromRow);
+}
+
+export function getBudget(instance: string, id: string): Budget | undefined {
+  const row = getDb()
+    .prepare("SELECT * FROM credit_budgets WHERE instance = ? AND id = ?")
+    .get(instance, id);
+  return row ? fromRow(row) : undefined;
+}
+
+export function createBudget(instance: string, input: BudgetInput): Budget {
+  const id = randomUUID();
+  const now = Date.now();
+  getDb()
+    .prepare(
+      `INSERT INTO credit_budgets
+         (id, instance, scope, target, name, limit_credits, period, period_start, period_end, warn_at, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    )
+    .run(
+      id,
+      instance,
+      input.scope,
+      input.target,
+      input.name ?? null,
+      input.limitCredits,
+      input.period,
+      input.periodStart ?? null,
+      input.periodEnd ?? null,
+      input.warnAt,
+      now,
+      now,
+    );
+  return getBudget(instance, id)!;
+}
+
+export function updateBudget(
+  instance: string,
+  id: string,
+  input: BudgetInput,
+): Budget | undefined {
+  const result = getDb()
+    .prepare(
+      `UPDATE credit_budgets SET
+         scope = ?, target = ?, name = ?, limit_credits = ?, period = ?,
+         period_start = ?, period_end = ?, warn_at = ?, updated_at = ?
+       WHERE instance = ? AND id = ?`,
+    )
+    .run(
+      input.scope,
+      input.target,
+      input.name ?? null,
+      input.limitCredits,
+      input.period,
+      input.periodStart ?? null,
+      input.periodEnd ?? null,
+      input.warnAt,
+      Date.now(),
+      instance,
+      id,
+    );
+  return result.changes > 0 ? getBudget(instance, id) : undefined;
+}
+
+export function deleteBudget(instance: string, id: string): boolean {
+  return (
+    getDb()
+      .prepare("DELETE FROM credit_budgets WHERE instance = ? AND id = ?")
+      .run(instance, id).changes > 0
+  );
+}
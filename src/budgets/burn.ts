@@ -0,0 +1,188 @@
+import { WorkflowSearchObject } from "../domo/schemas.js";
+import { isoDate } from "../metrics/range.js";
+import { Budget } from "./budgets.js";
+
+// ============================================================
+// BUDGET EVALUATION & BURN RATE
+// ============================================================
+// Spend is credits since the period start. The burn rate is the
+// average daily spend over the trailing week (or the period so far
+// when shorter), projected linearly to the period end:
+//   breached          -> spent >= limit
+//   projected_breach  -> projected spend at period end >= limit
+//   warning           -> spent >= warnAt * limit
+//   ok                -> otherwise
+// ============================================================
+
+export type BudgetStatus = "ok" | "warning" | "projected_breach" | "breached";
+
+// Credits of one entity on one day
+export interface EntityDayCredits {
+  entityType: string;
+  entityId: string;
+  date: string;
+  credits: number;
+}
+
+export interface BudgetEvaluation {
+  budget: Budget;
+  entityName: string;
+  owner: string | null;
+  periodStart: string;
+  // Inclusive
+  periodEnd: string;
+  spent: number;
+  remaining: number;
+  percentUsed: number;
+  burnRatePerDay: number;
+  projected: number;
+  projectedBreachDate: string | null;
+  status: BudgetStatus;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const BURN_WINDOW_DAYS = 7;
+
+const ENTITY_TYPES: Record<Budget["scope"], string> = {
+  workflow: "Workflow",
+  owner: "Workflow",
+  agent: "AI Agent",
+};
+
+const round = (value: number) => parseFloat(value.toFixed(4));
+
+// [start, end) of the budget's current period
+export function budgetPeriod(budget: Budget, now: Date) {
+  if (budget.period === "custom") {
+    return {
+      start: new Date(`${budget.periodStart}T00:00:00Z`),
+      end: new Date(Date.parse(`${budget.periodEnd}T00:00:00Z`) + DAY),
+    };
+  }
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+// Earliest date credit rows are needed from to evaluate `budgets`
+export function earliestPeriodStart(budgets: Budget[], now: Date): string {
+  const starts = budgets.map((b) => budgetPeriod(b, now).start.getTime());
+  return isoDate(new Date(Math.min(now.getTime(), ...starts)));
+}
+
+function matchesOwner(wf: WorkflowSearchObject, target: string) {
+  return (
+    (wf.ownedByName || "").toLowerCase() === target.toLowerCase() ||
+    (wf.ownedById != null && String(wf.ownedById) === target)
+  );
+}
+
+/**
+ * Evaluate budgets against daily credit rows.
+ *
+ * @param budgets Budgets of one instance
+ * @param credits Daily credits per entity covering every budget period
+ * @param workflows Workflow list, for owner budgets and display names
+ * @param now Evaluation time
+ */
+export function evaluateBudgets(
+  budgets: Budget[],
+  credits: EntityDayCredits[],
+  workflows: WorkflowSearchObject[],
+  now = new Date(),
+): BudgetEvaluation[] {
+  const workflowById = new Map(workflows.map((wf) => [wf.uuid, wf]));
+
+  return budgets.map((budget) => {
+    const { start, end } = budgetPeriod(budget, now);
+    const startDate = isoDate(start);
+    const lastDate = isoDate(new Date(end.getTime() - DAY));
+    const entityType = ENTITY_TYPES[budget.scope];
+
+    let entityIds: Set<string>;
+    let entityName = budget.name || budget.target;
+    let owner: string | null = null;
+    if (budget.scope === "owner") {
+      entityIds = new Set(
+        workflows
+          .filter((wf) => matchesOwner(wf, budget.target))
+          .map((wf) => wf.uuid),
+      );
+      owner = budget.target;
+    } else {
+      entityIds = new Set([budget.target]);
+      const wf =
+        budget.scope === "workflow"
+          ? workflowById.get(budget.target)
+          : undefined;
+      if (wf) {
+        entityName = budget.name || wf.name || budget.target;
+        owner = wf.ownedByName || null;
+      }
+    }
+
+    const rows = credits.filter(
+      (c) =>
+        c.entityType === entityType &&
+        entityIds.has(c.entityId) &&
+        c.date >= startDate &&
+        c.date <= lastDate,
+    );
+    const spent = rows.reduce((sum, c) => sum + c.credits, 0);
+
+    // Trailing-week burn rate, clamped to the part of the period elapsed
+    const elapsedEnd = Math.min(now.getTime(), end.getTime());
+    const trailingStart = new Date(
+      Math.max(
+        start.getTime(),
+        Date.parse(`${isoDate(new Date(elapsedEnd))}T00:00:00Z`) -
+          (BURN_WINDOW_DAYS - 1) * DAY,
+      ),
+    );
+    const trailingDays = Math.max(
+      (elapsedEnd - trailingStart.getTime()) / DAY,
+      1,
+    );
+    const trailingSpend = rows
+      .filter((c) => c.date >= isoDate(trailingStart))
+      .reduce((sum, c) => sum + c.credits, 0);
+    const burnRatePerDay = now < start ? 0 : trailingSpend / trailingDays;
+
+    const remainingDays = Math.max(
+      (end.getTime() - Math.max(now.getTime(), start.getTime())) / DAY,
+      0,
+    );
+    const projected = spent + burnRatePerDay * remainingDays;
+
+    let projectedBreachDate: string | null = null;
+    if (spent < budget.limitCredits && burnRatePerDay > 0) {
+      const breachAt =
+        Math.max(now.getTime(), start.getTime()) +
+        ((budget.limitCredits - spent) / burnRatePerDay) * DAY;
+      if (breachAt < end.getTime()) {
+        projectedBreachDate = isoDate(new Date(breachAt));
+      }
+    }
+
+    let status: BudgetStatus = "ok";
+    if (spent >= budget.limitCredits) status = "breached";
+    else if (projected >= budget.limitCredits) status = "projected_breach";
+    else if (spent >= budget.warnAt * budget.limitCredits) status = "warning";
+
+    return {
+      budget,
+      entityName,
+      owner,
+      periodStart: startDate,
+      periodEnd: lastDate,
+      spent: round(spent),
+      remaining: round(Math.max(budget.limitCredits - spent, 0)),
+      percentUsed: round(spent / budget.limitCredits),
+      burnRatePerDay: round(burnRatePerDay),
+      projected: round(projected),
+      projectedBreachDate,
+      status,
+    };
+  });
+}
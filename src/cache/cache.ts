@@ -0,0 +1,192 @@
+import path from "node:path";
+import dotenv from "dotenv";
+import { CacheStore, FileStore, MemoryLruStore } from "./stores.js";
+
+dotenv.config({ quiet: true });
+
+// ============================================================
+// SERVER-SIDE CACHE
+// ============================================================
+// Keys are "<instance>:<resource>:<key>". Each resource has its own
+// TTL and stale-while-revalidate window:
+//   fresh  -> served from cache
+//   stale  -> served from cache, refreshed once in the background
+//   gone   -> loaded (concurrent callers share one load)
+// Loaders that throw are never cached.
+//
+// Env: CACHE_STORE=memory|file, CACHE_FILE, CACHE_MAX_ENTRIES,
+//      CACHE_TTL_<RESOURCE>_MS, CACHE_STALE_<RESOURCE>_MS
+// ============================================================
+
+export type CacheResource =
+  "users" | "workflows" | "credits" | "executions" | "lineage" | "instances";
+
+export interface CachePolicy {
+  ttlMs: number;
+  staleMs: number;
+}
+
+const MINUTE = 60 * 1000;
+
+const DEFAULT_POLICIES: Record<CacheResource, CachePolicy> = {
+  users: { ttlMs: 10 * MINUTE, staleMs: 60 * MINUTE },
+  workflows: { ttlMs: 5 * MINUTE, staleMs: 30 * MINUTE },
+  credits: { ttlMs: 15 * MINUTE, staleMs: 120 * MINUTE },
+  executions: { ttlMs: 1 * MINUTE, staleMs: 10 * MINUTE },
+  lineage: { ttlMs: 15 * MINUTE, staleMs: 120 * MINUTE },
+  // Details of finished instances, which Domo no longer updates
+  instances: { ttlMs: 60 * MINUTE, staleMs: 24 * 60 * MINUTE },
+};
+
+export interface PurgeFilter {
+  instance?: string;
+  resource?: string;
+  key?: string;
+}
+
+export interface CacheStats {
+  hits: number;
+  staleHits: number;
+  misses: number;
+  loadErrors: number;
+  entries: number;
+}
+
+export class Cache {
+  private inflight = new Map<string, Promise<unknown>>();
+  private counters = { hits: 0, staleHits: 0, misses: 0, loadErrors: 0 };
+
+  constructor(
+    private readonly store: CacheStore,
+    private readonly policies: Record<CacheResource, CachePolicy>,
+  ) {}
+
+  /**
+   * Return the cached value for (instance, resource, key), loading it
+   * with `loader` when missing or expired.
+   *
+   * @param instance Domo instance name the value belongs to
+   * @param resource Resource type; selects the TTL policy
+   * @param key Resource-specific key (e.g. workflow id, "all")
+   * @param loader Fetches a fresh value; errors propagate and are not cached
+   */
+  async getOrLoad<T>(
+    instance: string,
+    resource: CacheResource,
+    key: string,
+    loader: () => Promise<T>,
+  ): Promise<T> {
+    const cacheKey = `${instance}:${resource}:${key}`;
+    const entry = this.store.get(cacheKey);
+    const now = Date.now();
+
+    if (entry && now < entry.expiresAt) {
+      this.counters.hits++;
+      return entry.value as T;
+    }
+
+    if (entry) {
+      this.counters.staleHits++;
+      this.load(cacheKey, resource, loader).catch((e) =>
+        console.error(`Background refresh of ${cacheKey} failed: ${e.message}`),
+      );
+      return entry.value as T;
+    }
+
+    this.counters.misses++;
+    return this.load(cacheKey, resource, loader);
+  }
+
+  private load<T>(
+    cacheKey: string,
+    resource: CacheResource,
+    loader: () => Promise<T>,
+  ): Promise<T> {
+    const pending = this.inflight.get(cacheKey);
+    if (pending) return pending as Promise<T>;
+
+    const promise = loader()
+      .then((value) => {
+        const policy = this.policies[resource];
+        const storedAt = Date.now();
+        this.store.set(cacheKey, {
+          value,
+          storedAt,
+          expiresAt: storedAt + policy.ttlMs,
+          staleUntil: storedAt + policy.ttlMs + policy.staleMs,
+        });
+        return value;
+      })
+      .catch((e) => {
+        this.counters.loadErrors++;
+        throw e;
+      })
+      .finally(() => {
+        this.inflight.delete(cacheKey);
+      });
+
+    this.inflight.set(cacheKey, promise);
+    return promise;
+  }
+
+  // Remove every entry matching all given filter fields; returns the count
+  purge(filter: PurgeFilter = {}): number {
+    let removed = 0;
+    for (const cacheKey of this.store.keys()) {
+      const [instance, resource, ...rest] = cacheKey.split(":");
+      const key = rest.join(":");
+      if (filter.instance && filter.instance !== instance) continue;
+      if (filter.resource && filter.resource !== resource) continue;
+      if (filter.key && filter.key !== key) continue;
+      if (this.store.delete(cacheKey)) removed++;
+    }
+    return removed;
+  }
+
+  stats(): CacheStats {
+    return { ...this.counters, entries: this.store.keys().length };
+  }
+
+  describe() {
+    return {
+      store: this.store.constructor.name,
+      policies: this.policies,
+      stats: this.stats(),
+    };
+  }
+}
+
+function envNumber(key: string): number | undefined {
+  const value = Number(process.env[key]);
+  return process.env[key] && !isNaN(value) && value >= 0 ? value : undefined;
+}
+
+function loadPolicies(): Record<CacheResource, CachePolicy> {
+  const policies = { ...DEFAULT_POLICIES };
+  for (const resource of Object.keys(policies) as CacheResource[]) {
+    const name = resource.toUpperCase();
+    policies[resource] = {
+      ttlMs: envNumber(`CACHE_TTL_${name}_MS`) ?? policies[resource].ttlMs,
+      staleMs:
+        envNumber(`CACHE_STALE_${name}_MS`) ?? policies[resource].staleMs,
+    };
+  }
+  return policies;
+}
+
+function createStore(): CacheStore {
+  const maxEntries = envNumber("CACHE_MAX_ENTRIES") ?? 5000;
+  if ((process.env.CACHE_STORE || "memory").toLowerCase() === "file") {
+    const file =
+      process.env.CACHE_FILE || path.join(".cache", "domo-cache.json");
+    return new FileStore(path.resolve(file), maxEntries);
+  }
+  return new MemoryLruStore(maxEntries);
+}
+
+let cache: Cache | null = null;
+
+export function getCache(): Cache {
+  if (!cache) cache = new Cache(createStore(), loadPolicies());
+  return cache;
+}
@@ -0,0 +1,153 @@
+import fs from "node:fs";
+import path from "node:path";
+
+// ============================================================
+// CACHE STORES
+// ============================================================
+// A store only keeps entries; freshness rules live in cache.ts.
+// MemoryLruStore is the default. FileStore keeps the same LRU in
+// memory and mirrors it to a JSON file so a restart starts warm.
+// ============================================================
+
+export interface CacheEntry<T = unknown> {
+  value: T;
+  storedAt: number;
+  // Served as-is until expiresAt, served stale (and refreshed in the
+  // background) until staleUntil, then dropped
+  expiresAt: number;
+  staleUntil: number;
+}
+
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined;
+  set(key: string, entry: CacheEntry): void;
+  delete(key: string): boolean;
+  keys(): string[];
+  clear(): void;
+}
+
+export class MemoryLruStore implements CacheStore {
+  protected entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries: number) {}
+
+  get(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (Date.now() > entry.staleUntil) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Re-insert so Map iteration order tracks recency
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string) {
+    return this.entries.delete(key);
+  }
+
+  keys() {
+    return Array.from(this.entries.keys());
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+}
+
+// Maps (users, credits) survive the JSON round trip as tagged entry lists
+function replacer(_key: string, value: unknown) {
+  return value instanceof Map ? { __map: Array.from(value.entries()) } : value;
+}
+
+function reviver(_key: string, value: any) {
+  return value && typeof value === "object" && Array.isArray(value.__map)
+    ? new Map(value.__map)
+    : value;
+}
+
+const FLUSH_DELAY_MS = 1000;
+
+export class FileStore extends MemoryLruStore {
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly filePath: string,
+    maxEntries: number,
+  ) {
+    super(maxEntries);
+    this.load();
+  }
+
+  set(key: string, entry: CacheEntry) {
+    super.set(key, entry);
+    this.scheduleFlush();
+  }
+
+  delete(key: string) {
+    const deleted = super.delete(key);
+    if (deleted) this.scheduleFlush();
+    return deleted;
+  }
+
+  clear() {
+    super.clear();
+    this.scheduleFlush();
+  }
+
+  private load() {
+    try {
+      const raw = fs.readFileSync(this.filePath, "utf8");
+      const stored: [string, CacheEntry][] = JSON.parse(raw, reviver);
+      const now = Date.now();
+      for (const [key, entry] of stored) {
+        if (entry.staleUntil > now) super.set(key, entry);
+      }
+      console.error(
+        `Cache loaded ${this.entries.size} entries from ${this.filePath}`,
+      );
+    } catch (e: any) {
+      if (e.code !== "ENOENT") {
+        console.error(
+          `Ignoring unreadable cache file ${this.filePath}: ${e.message}`,
+        );
+      }
+    }
+  }
+
+  private scheduleFlush() {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, FLUSH_DELAY_MS);
+    this.flushTimer.unref();
+  }
+
+  private flush() {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      // Write-then-rename so a crash never leaves a half-written file
+      const tmp = `${this.filePath}.tmp`;
+      fs.writeFileSync(
+        tmp,
+        JSON.stringify(Array.from(this.entries.entries()), replacer),
+      );
+      fs.renameSync(tmp, this.filePath);
+    } catch (e: any) {
+      console.error(`Cache flush to ${this.filePath} failed: ${e.message}`);
+    }
+  }
+}
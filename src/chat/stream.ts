@@ -0,0 +1,178 @@
+// ============================================================
+// STREAMING CHAT
+// ============================================================
+// Writes the progress of a /chat request as it happens, either as
+// Server-Sent Events or as newline-delimited JSON:
+//   start        provider and model
+//   delta        a piece of the assistant's answer
+//   tool_call    a tool is about to be called, with its arguments
+//   tool_result  what the tool returned, and how long it took
+//   done         the full answer
+//   error        the request failed; nothing follows
+// In NDJSON every line is the event's data plus its `type`.
+// ============================================================
+
+export type ChatStreamFormat = "sse" | "ndjson";
+
+export type ChatEventType =
+  "start" | "delta" | "tool_call" | "tool_result" | "done" | "error";
+
+export interface ChatStream {
+  send(type: ChatEventType, data: Record<string, unknown>): void;
+  end(): void;
+  // The client went away; stop working on its behalf
+  readonly closed: boolean;
+}
+
+export interface StreamedMessage {
+  role: "assistant";
+  content: string | null;
+  tool_calls?: {
+    id: string;
+    type: "function";
+    function: { name: string; arguments: string };
+  }[];
+}
+
+// Keeps proxies from timing out the connection during slow tool calls
+const HEARTBEAT_MS = 15 * 1000;
+
+// Longest tool result text sent to the client; the model gets it all
+export const MAX_TOOL_RESULT_CHARS = 4000;
+
+/**
+ * Whether a /chat request asked for a stream, and in which format.
+ *
+ * @param body Request body; `stream: true` asks for SSE
+ * @param accept Accept header; text/event-stream or application/x-ndjson
+ * @returns null for a single JSON response
+ */
+export function chatStreamFormat(
+  body: { stream?: unknown },
+  accept: string | undefined,
+): ChatStreamFormat | null {
+  if (accept?.includes("application/x-ndjson")) return "ndjson";
+  if (accept?.includes("text/event-stream") || body.stream === true) {
+    return "sse";
+  }
+  return null;
+}
+
+/**
+ * Start a streamed response.
+ *
+ * @param res Express response; headers are sent right away, and it
+ *   closing early means the client disconnected
+ * @param format SSE or NDJSON framing
+ */
+export function openChatStream(res: any, format: ChatStreamFormat): ChatStream {
+  let closed = false;
+  res.status(200);
+  res.set({
+    "Content-Type":
+      format === "sse" ? "text/event-stream" : "application/x-ndjson",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    // Disables response buffering in nginx
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  const heartbeat =
+    format === "sse"
+      ? setInterval(() => {
+          if (!closed) res.write(": ping\n\n");
+        }, HEARTBEAT_MS)
+      : null;
+  const close = () => {
+    closed = true;
+    if (heartbeat) clearInterval(heartbeat);
+  };
+  // Not req: that closes as soon as the body has been read
+  res.on("close", close);
+
+  return {
+    send(type, data) {
+      if (closed) return;
+      res.write(
+        format === "sse"
+          ? `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`
+          : `${JSON.stringify({ type, ...data })}\n`,
+      );
+    },
+    end() {
+      if (closed) return;
+      close();
+      res.end();
+    },
+    get closed() {
+      return closed;
+    },
+  };
+}
+
+/**
+ * Assemble a streamed chat completion into the message the
+ * non-streaming API would have returned.
+ *
+ * @param chunks Completion created with `stream: true` (OpenAI or Groq)
+ * @param onDelta Called with each piece of answer text
+ * @param isClosed Stops reading (and aborts the request) when true
+ */
+export async function readCompletionStream(
+  chunks: AsyncIterable<any>,
+  onDelta: (content: string) => void,
+  isClosed: () => boolean = () => false,
+): Promise<StreamedMessage> {
+  let content = "";
+  const toolCalls: NonNullable<StreamedMessage["tool_calls"]> = [];
+  for await (const chunk of chunks) {
+    if (isClosed()) break;
+    const delta = chunk.choices?.[0]?.delta;
+    if (!delta) continue;
+    if (delta.content) {
+      content += delta.content;
+      onDelta(delta.content);
+    }
+    // Tool calls arrive in pieces, keyed by their index
+    for (const part of delta.tool_calls ?? []) {
+      const call = (toolCalls[part.index] ??= {
+        id: "",
+        type: "function",
+        function: { name: "", arguments: "" },
+      });
+      if (part.id) call.id = part.id;
+      if (part.function?.name) call.function.name += part.function.name;
+      if (part.function?.arguments) {
+        call.function.arguments += part.function.arguments;
+      }
+    }
+  }
+  const calls = toolCalls.filter(Boolean);
+  return {
+    role: "assistant",
+    content: content || null,
+    ...(calls.length > 0 ? { tool_calls: calls } : {}),
+  };
+}
+
+/**
+ * Tool result content for a tool_result event, with long text cut
+ * down to MAX_TOOL_RESULT_CHARS.
+ */
+export function toolResultPreview(content: unknown) {
+  if (!Array.isArray(content)) return { content, truncated: false };
+  let truncated = false;
+  const preview = content.map((part) => {
+    if (
+      part?.type !== "text" ||
+      typeof part.text !== "string" ||
+      part.text.length <= MAX_TOOL_RESULT_CHARS
+    ) {
+      return part;
+    }
+    truncated = true;
+    return { ...part, text: part.text.slice(0, MAX_TOOL_RESULT_CHARS) };
+  });
+  return { content: preview, truncated };
+}
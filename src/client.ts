@@ -85,10 +85,20 @@ async function main() {
           console.log(`Executing ${toolCall.function.name}...`);
 
           const args = JSON.parse(toolCall.function.arguments);
-          const result = await client.callTool({
-            name: toolCall.function.name,
-            arguments: args,
-          });
+          // Wait tools outlast the 60s request timeout; their progress
+          // reports keep restarting it
+          const result = await client.callTool(
+            {
+              name: toolCall.function.name,
+              arguments: args,
+            },
+            undefined,
+            {
+              onprogress: () => {},
+              resetTimeoutOnProgress: true,
+              maxTotalTimeout: 11 * 60 * 1000,
+            }
+          );
 
           messages.push({
             role: "tool",
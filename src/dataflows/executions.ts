@@ -0,0 +1,207 @@
+import { DomoClient } from "../domo/client.js";
+import { DataflowExecution } from "../domo/schemas.js";
+
+// ============================================================
+// DATAFLOW EXECUTIONS
+// ============================================================
+// Dataflow executions report a free-form `state` (SUCCESS, FAILED,
+// RUNNING, KILLED, ...) and epoch-millisecond begin/end times. They
+// are normalised to the run shape used elsewhere:
+//   queued | running | success | failed | cancelled
+// Dataflow runs are not synced to the store, so history is always
+// fetched live (callers cache it).
+// ============================================================
+
+export type DataflowRunStatus =
+  "queued" | "running" | "success" | "failed" | "cancelled";
+
+export interface DataflowRun {
+  executionId: string;
+  dataflowId: string;
+  state: string | null;
+  status: DataflowRunStatus;
+  activationType: string | null;
+  startTime: string | null;
+  endTime: string | null;
+  durationSeconds: number | null;
+  errorMessage: string | null;
+}
+
+export interface DataflowRunStats {
+  total: number;
+  success: number;
+  failed: number;
+  cancelled: number;
+  running: number;
+  // Of finished runs; null when none finished
+  successRate: number | null;
+  avgDurationSeconds: number | null;
+}
+
+export interface DataflowWaitResult {
+  run: DataflowRun;
+  timedOut: boolean;
+  waitedSeconds: number;
+}
+
+const PAGE_SIZE = 100;
+// Guards against an API that keeps returning full pages
+const MAX_PAGES = 50;
+
+const QUEUED_STATES = new Set(["CREATED", "QUEUED", "PENDING", "WAITING"]);
+const SUCCESS_STATES = new Set(["SUCCESS", "SUCCEEDED", "COMPLETED"]);
+const CANCELLED_STATES = new Set([
+  "KILLED",
+  "CANCELED",
+  "CANCELLED",
+  "ABORTED",
+]);
+
+export const isFinished = (status: DataflowRunStatus) =>
+  status === "success" || status === "failed" || status === "cancelled";
+
+function statusOf(exe: DataflowExecution): DataflowRunStatus {
+  const state = (exe.state ?? "").toUpperCase();
+  if (SUCCESS_STATES.has(state)) return "success";
+  if (CANCELLED_STATES.has(state)) return "cancelled";
+  if (exe.failed || state.startsWith("FAIL") || state === "ERROR") {
+    return "failed";
+  }
+  if (QUEUED_STATES.has(state)) return "queued";
+  return "running";
+}
+
+function toIso(value: string | number | null | undefined): string | null {
+  if (value == null || value === "") return null;
+  const date = new Date(
+    typeof value === "number" || /^\d+$/.test(value) ? Number(value) : value,
+  );
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+export function toDataflowRun(
+  exe: DataflowExecution,
+  dataflowId: string,
+): DataflowRun {
+  const status = statusOf(exe);
+  const startTime = toIso(exe.beginTime);
+  const endTime = isFinished(status)
+    ? (toIso(exe.endTime) ?? toIso(exe.lastUpdated))
+    : null;
+  const durationSeconds =
+    startTime && endTime
+      ? Math.max(
+          0,
+          Math.round((Date.parse(endTime) - Date.parse(startTime)) / 1000),
+        )
+      : null;
+  return {
+    executionId: String(exe.id),
+    dataflowId,
+    state: exe.state ?? null,
+    status,
+    activationType: exe.activationType ?? null,
+    startTime,
+    endTime,
+    durationSeconds,
+    errorMessage: exe.errorMessage ?? null,
+  };
+}
+
+/**
+ * Executions of a dataflow started at or after `since`, newest first.
+ * Uncached.
+ *
+ * @param domo Client of the dataflow's instance
+ * @param dataflowId Dataflow id
+ * @param since Earliest start time to include
+ */
+export async function loadDataflowRunsSince(
+  domo: DomoClient,
+  dataflowId: string,
+  since: Date,
+): Promise<DataflowRun[]> {
+  const runs: DataflowRun[] = [];
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const executions = await domo.listDataflowExecutions({
+      dataflowId,
+      limit: PAGE_SIZE,
+      offset: page * PAGE_SIZE,
+    });
+    let hitOldData = false;
+    for (const exe of executions) {
+      const run = toDataflowRun(exe, dataflowId);
+      // Queued runs have no begin time yet and are always recent
+      if (run.startTime !== null && new Date(run.startTime) < since) {
+        hitOldData = true;
+        break;
+      }
+      runs.push(run);
+    }
+    if (hitOldData || executions.length < PAGE_SIZE) break;
+  }
+  return runs;
+}
+
+export function dataflowRunStats(runs: DataflowRun[]): DataflowRunStats {
+  const count = (status: DataflowRunStatus) =>
+    runs.filter((r) => r.status === status).length;
+  const success = count("success");
+  const failed = count("failed");
+  const cancelled = count("cancelled");
+  const finished = success + failed + cancelled;
+  const durations = runs
+    .map((r) => r.durationSeconds)
+    .filter((d): d is number => d !== null);
+  return {
+    total: runs.length,
+    success,
+    failed,
+    cancelled,
+    running: count("running") + count("queued"),
+    successRate:
+      finished > 0 ? parseFloat((success / finished).toFixed(4)) : null,
+    avgDurationSeconds:
+      durations.length > 0
+        ? Math.round(durations.reduce((a, b) => a + b, 0) / durations.length)
+        : null,
+  };
+}
+
+/**
+ * Poll an execution until it finishes or the timeout passes.
+ *
+ * @param domo Client of the dataflow's instance
+ * @param dataflowId Dataflow id
+ * @param executionId Execution id
+ * @param timeoutSeconds Give up (timedOut: true) after this long
+ * @param onPoll Called with the seconds waited after each unfinished check
+ * @param pollSeconds Delay between status checks
+ */
+export async function waitForDataflowRun(
+  domo: DomoClient,
+  dataflowId: string,
+  executionId: string,
+  timeoutSeconds: number,
+  onPoll?: (waitedSeconds: number) => Promise<void>,
+  pollSeconds = 5,
+): Promise<DataflowWaitResult> {
+  const started = Date.now();
+  const deadline = started + timeoutSeconds * 1000;
+  while (true) {
+    const run = toDataflowRun(
+      await domo.getDataflowExecution(dataflowId, executionId),
+      dataflowId,
+    );
+    const now = Date.now();
+    const waitedSeconds = Math.round((now - started) / 1000);
+    if (isFinished(run.status)) {
+      return { run, timedOut: false, waitedSeconds };
+    }
+    if (now >= deadline) return { run, timedOut: true, waitedSeconds };
+    await onPoll?.(waitedSeconds);
+    await new Promise((resolve) =>
+      setTimeout(resolve, Math.min(pollSeconds * 1000, deadline - now)),
+    );
+  }
+}
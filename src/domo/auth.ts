@@ -0,0 +1,138 @@
+import axios from "axios";
+import { DomoInstance, resolveAuthMode } from "./config.js";
+
+// ============================================================
+// DOMO AUTHENTICATION
+// ============================================================
+// Two modes per instance:
+//   - developer-token: static X-DOMO-Developer-Token header
+//   - oauth: client-credentials access tokens from api.domo.com,
+//     cached until shortly before they expire
+// ============================================================
+
+// Refresh this long before the token actually lapses so in-flight
+// requests never carry an expired token
+const REFRESH_SKEW_MS = 60 * 1000;
+
+export interface AuthProvider {
+  readonly mode: "developer-token" | "oauth";
+  getHeaders(): Promise<Record<string, string>>;
+  // Drop the cached credential that produced `rejected` so the next
+  // getHeaders() fetches a fresh one (no-op if it was already replaced)
+  invalidate(rejected: Record<string, string>): void;
+}
+
+class DeveloperTokenAuth implements AuthProvider {
+  readonly mode = "developer-token";
+
+  constructor(private readonly token: string) {}
+
+  async getHeaders() {
+    return { "X-DOMO-Developer-Token": this.token };
+  }
+
+  invalidate(_rejected: Record<string, string>) {
+    // Static token — nothing to refresh
+  }
+}
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+class OAuthClientCredentialsAuth implements AuthProvider {
+  readonly mode = "oauth";
+
+  private cached: CachedToken | null = null;
+  private pending: Promise<CachedToken> | null = null;
+
+  constructor(private readonly instance: DomoInstance) {}
+
+  async getHeaders() {
+    const token = await this.getToken();
+    return { Authorization: `Bearer ${token.accessToken}` };
+  }
+
+  invalidate(rejected: Record<string, string>) {
+    if (
+      this.cached &&
+      rejected.Authorization === `Bearer ${this.cached.accessToken}`
+    ) {
+      this.cached = null;
+    }
+  }
+
+  private async getToken(): Promise<CachedToken> {
+    if (this.cached && Date.now() < this.cached.expiresAt - REFRESH_SKEW_MS) {
+      return this.cached;
+    }
+
+    // Share one token request between concurrent callers
+    if (!this.pending) {
+      this.pending = this.fetchToken()
+        .then((token) => {
+          this.cached = token;
+          return token;
+        })
+        .finally(() => {
+          this.pending = null;
+        });
+    }
+    return this.pending;
+  }
+
+  private async fetchToken(): Promise<CachedToken> {
+    const { apiHost, clientId, clientSecret, scope, name } = this.instance;
+
+    try {
+      const res = await axios.get(`${apiHost}/oauth/token`, {
+        params: { grant_type: "client_credentials", scope },
+        auth: { username: clientId!, password: clientSecret! },
+        headers: { Accept: "application/json" },
+      });
+
+      const accessToken = res.data?.access_token;
+      const expiresIn = Number(res.data?.expires_in) || 3600;
+      if (!accessToken) {
+        throw new Error("token response did not contain access_token");
+      }
+
+      console.error(
+        `OAuth token acquired for instance '${name}' (expires in ${expiresIn}s)`,
+      );
+      return { accessToken, expiresAt: Date.now() + expiresIn * 1000 };
+    } catch (e: any) {
+      throw new Error(
+        `OAuth token request failed for instance '${name}': ${e.message} - ${JSON.stringify(
+          e.response?.data || "",
+        )}`,
+      );
+    }
+  }
+}
+
+const providers = new Map<string, AuthProvider>();
+
+export function getAuthProvider(instance: DomoInstance): AuthProvider {
+  let provider = providers.get(instance.name);
+  if (!provider) {
+    provider =
+      resolveAuthMode(instance) === "oauth"
+        ? new OAuthClientCredentialsAuth(instance)
+        : new DeveloperTokenAuth(instance.developerToken!);
+    providers.set(instance.name, provider);
+  }
+  return provider;
+}
+
+// Dataset SQL goes through the public API when using OAuth tokens; the
+// developer token only works against the instance's own query endpoint
+export function datasetQueryUrl(
+  instance: DomoInstance,
+  datasetId: string,
+): string {
+  return resolveAuthMode(instance) === "oauth"
+    ? `${instance.apiHost}/v1/datasets/query/execute/${datasetId}`
+    : `${instance.domain}/api/query/v1/execute/${datasetId}`;
+}
@@ -0,0 +1,340 @@
+import z from "zod";
+import { DomoInstance, getInstance } from "./config.js";
+import { datasetQueryUrl } from "./auth.js";
+import { DomoRequestConfig, domoRequest } from "./http.js";
+import {
+  collectionDocumentListSchema,
+  collectionsQueryResponseSchema,
+  dataflowExecutionListSchema,
+  dataflowExecutionSchema,
+  domoUserListSchema,
+  queryResultSchema,
+  searchResponseSchema,
+  workflowInstanceListSchema,
+  workflowInstanceSchema,
+  workflowModelSchema,
+  workflowSearchResponseSchema,
+} from "./schemas.js";
+
+// ============================================================
+// DOMO API CLIENT
+// ============================================================
+// One client per configured instance. Every method validates the
+// response against its zod schema so a changed Domo payload fails
+// loudly (DomoSchemaError) instead of silently producing zeros.
+// ============================================================
+
+export class DomoSchemaError extends Error {
+  constructor(
+    readonly endpoint: string,
+    readonly issues: z.ZodIssue[],
+  ) {
+    super(
+      `Unexpected response shape from ${endpoint}: ` +
+        issues
+          .slice(0, 5)
+          .map((i) => `${i.path.join(".") || "(root)"} ${i.message}`)
+          .join("; "),
+    );
+    this.name = "DomoSchemaError";
+  }
+}
+
+export interface WorkflowSearchOptions {
+  query?: string;
+  count?: number;
+  offset?: number;
+  isRelevance?: boolean;
+}
+
+export interface DataflowSearchOptions {
+  query: string;
+  count?: number;
+  offset?: number;
+}
+
+export interface DataflowExecutionListOptions {
+  dataflowId: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface InstanceListOptions {
+  modelId: string;
+  limit?: number;
+  offset?: number;
+  sort?: string;
+}
+
+export class DomoClient {
+  constructor(readonly instance: DomoInstance) {}
+
+  private async request<S extends z.ZodTypeAny>(
+    schema: S,
+    config: DomoRequestConfig & { url: string },
+  ): Promise<z.infer<S>> {
+    const res = await domoRequest(this.instance, config);
+    const parsed = schema.safeParse(res.data);
+    if (!parsed.success) {
+      const endpoint = `${config.method || "GET"} ${config.url.replace(this.instance.domain, "")}`;
+      throw new DomoSchemaError(endpoint, parsed.error.issues);
+    }
+    return parsed.data;
+  }
+
+  private url(path: string) {
+    return `${this.instance.domain}${path}`;
+  }
+
+  // ---------------- USERS ----------------
+  listUsers({ limit = 500, offset = 0, active = true } = {}) {
+    return this.request(domoUserListSchema, {
+      method: "GET",
+      url: this.url("/api/content/v3/users"),
+      params: { limit, offset, active },
+    });
+  }
+
+  // ---------------- SEARCH ----------------
+  search<S extends z.ZodTypeAny = typeof searchResponseSchema>(
+    payload: Record<string, unknown>,
+    schema: S = searchResponseSchema as unknown as S,
+  ): Promise<z.infer<S>> {
+    return this.request(schema, {
+      method: "POST",
+      url: this.url("/api/search/v1/query"),
+      data: payload,
+      // Read-only query despite being a POST
+      idempotent: true,
+    });
+  }
+
+  searchWorkflows({
+    query = "*",
+    count = 100,
+    offset = 0,
+    isRelevance = false,
+  }: WorkflowSearchOptions = {}) {
+    return this.search(
+      {
+        query,
+        entityList: [["workflow_model"]],
+        count,
+        offset,
+        sort: {
+          fieldSorts: [{ field: "last_modified", sortOrder: "DESC" }],
+          isRelevance,
+        },
+        filters: [],
+        useEntities: true,
+        combineResults: true,
+        facetValueLimit: 1000,
+        hideSearchObjects: false,
+      },
+      workflowSearchResponseSchema,
+    );
+  }
+
+  searchDataflows({ query, count = 100, offset = 0 }: DataflowSearchOptions) {
+    return this.search({
+      entities: ["DATAFLOW"],
+      filters: [
+        { field: "name_sort", filterType: "wildcard", query: `*${query}*` },
+      ],
+      combineResults: true,
+      query: "*",
+      count,
+      offset,
+      sort: {
+        isRelevance: false,
+        fieldSorts: [{ field: "create_date", sortOrder: "DESC" }],
+      },
+    });
+  }
+
+  searchCards({ count = 100, offset = 0 } = {}) {
+    return this.search({
+      entities: ["CARD"],
+      combineResults: true,
+      query: "*",
+      count,
+      offset,
+      sort: {
+        isRelevance: false,
+        fieldSorts: [{ field: "create_date", sortOrder: "DESC" }],
+      },
+    });
+  }
+
+  // AI agents indexed by search; ids match the credits dataset's
+  // entityId for agent rows
+  searchAgents({ count = 500, offset = 0 } = {}) {
+    return this.search({
+      query: "*",
+      entityList: [["ai_agent"]],
+      count,
+      offset,
+      sort: {
+        fieldSorts: [{ field: "last_modified", sortOrder: "DESC" }],
+        isRelevance: false,
+      },
+      filters: [],
+      useEntities: true,
+      combineResults: true,
+      hideSearchObjects: false,
+    });
+  }
+
+  // ---------------- WORKFLOWS ----------------
+  getWorkflowModel(modelId: string, parts = "users") {
+    return this.request(workflowModelSchema, {
+      method: "GET",
+      url: this.url(`/api/workflow/v1/models/${modelId}`),
+      params: { parts },
+    });
+  }
+
+  createWorkflowModel(body: {
+    name: string;
+    description: string;
+    versions: { version: string }[];
+  }) {
+    return this.request(workflowModelSchema, {
+      method: "POST",
+      url: this.url("/api/workflow/v2/models"),
+      data: body,
+    });
+  }
+
+  listWorkflowInstances({
+    modelId,
+    limit = 100,
+    offset,
+    sort = "createdOn:desc",
+  }: InstanceListOptions) {
+    return this.request(workflowInstanceListSchema, {
+      method: "GET",
+      url: this.url("/api/workflow/v1/instances"),
+      params: { modelId, limit, offset, sort },
+    });
+  }
+
+  getWorkflowInstance(instanceId: string, parts = "steps,data") {
+    return this.request(workflowInstanceSchema, {
+      method: "GET",
+      url: this.url(`/api/workflow/v1/instances/${instanceId}`),
+      params: { parts },
+    });
+  }
+
+  // The response carries nothing useful; re-read the instance for status
+  cancelWorkflowInstance(instanceId: string) {
+    return this.request(z.any(), {
+      method: "PUT",
+      url: this.url(`/api/workflow/v1/instances/${instanceId}/cancel`),
+      data: {},
+    });
+  }
+
+  sendWorkflowMessage(body: {
+    messageName: string;
+    version: string;
+    modelId: string;
+    data: Record<string, unknown>;
+  }) {
+    return this.request(z.object({ id: z.string().nullish() }).passthrough(), {
+      method: "POST",
+      url: this.url("/api/workflow/v1/instances/message"),
+      data: body,
+    });
+  }
+
+  // ---------------- DATAFLOWS ----------------
+  runDataflow(dataflowId: string) {
+    return this.request(dataflowExecutionSchema, {
+      method: "POST",
+      url: this.url(
+        `/api/dataprocessing/v1/dataflows/${dataflowId}/executions`,
+      ),
+      data: {},
+    });
+  }
+
+  // Newest first
+  listDataflowExecutions({
+    dataflowId,
+    limit = 100,
+    offset = 0,
+  }: DataflowExecutionListOptions) {
+    return this.request(dataflowExecutionListSchema, {
+      method: "GET",
+      url: this.url(
+        `/api/dataprocessing/v1/dataflows/${dataflowId}/executions`,
+      ),
+      params: { limit, offset },
+    });
+  }
+
+  getDataflowExecution(dataflowId: string, executionId: string) {
+    return this.request(dataflowExecutionSchema, {
+      method: "GET",
+      url: this.url(
+        `/api/dataprocessing/v1/dataflows/${dataflowId}/executions/${executionId}`,
+      ),
+    });
+  }
+
+  cancelDataflowExecution(dataflowId: string, executionId: string) {
+    return this.request(dataflowExecutionSchema, {
+      method: "PUT",
+      url: this.url(
+        `/api/dataprocessing/v1/dataflows/${dataflowId}/executions/${executionId}/cancel`,
+      ),
+      data: {},
+    });
+  }
+
+  // ---------------- DATASTORES ----------------
+  queryCollections(payload: Record<string, unknown>) {
+    return this.request(collectionsQueryResponseSchema, {
+      method: "POST",
+      url: this.url("/api/datastores/v1/collections/query"),
+      data: payload,
+      idempotent: true,
+    });
+  }
+
+  getCollectionDocuments(collectionId: string) {
+    return this.request(collectionDocumentListSchema, {
+      method: "GET",
+      url: this.url(`/api/datastores/v1/collections/${collectionId}/documents`),
+    });
+  }
+
+  // ---------------- DATASET SQL ----------------
+  queryDataset(datasetId: string, sql: string) {
+    return this.request(queryResultSchema, {
+      method: "POST",
+      url: datasetQueryUrl(this.instance, datasetId),
+      data: { sql },
+      idempotent: true,
+    });
+  }
+}
+
+const clients = new Map<string, DomoClient>();
+
+/**
+ * Get the shared client for a configured Domo instance.
+ *
+ * @param name Instance name; falls back to the primary instance when omitted
+ */
+export function getDomoClient(name?: string): DomoClient {
+  const instance = getInstance(name);
+  let client = clients.get(instance.name);
+  if (!client) {
+    client = new DomoClient(instance);
+    clients.set(instance.name, client);
+  }
+  return client;
+}
@@ -0,0 +1,328 @@
+import fs from "node:fs";
+import path from "node:path";
+import z from "zod";
+import { parse as parseYaml } from "yaml";
+import dotenv from "dotenv";
+import { agentRegistrySchema } from "../agents/catalog.js";
+import { pricingSchema } from "../pricing/pricing.js";
+import { notificationsSchema } from "../notify/config.js";
+import { incidentRulesSchema } from "../rules/engine.js";
+import { schedulesSchema } from "../schedules/detect.js";
+
+dotenv.config({ quiet: true });
+
+// ============================================================
+// DOMO INSTANCE CONFIGURATION
+// ============================================================
+// Instances come from two places, merged in this order:
+//   1. An optional JSON/YAML file pointed to by DOMO_CONFIG_FILE
+//   2. Environment variables (DOMO_DOMAIN, DOMO_DEVELOPER_TOKEN, ...)
+//      which define (or override) the instance named DOMO_INSTANCE.
+// String values in the file may reference env vars as ${VAR_NAME}
+// so secrets never have to be committed to the config file.
+// ============================================================
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+export class UnknownInstanceError extends ConfigError {
+  constructor(name: string, known: string[]) {
+    super(`Unknown Domo instance '${name}' (known: ${known.join(", ")})`);
+    this.name = "UnknownInstanceError";
+  }
+}
+
+const instanceSchema = z.object({
+  domain: z
+    .string()
+    .min(1)
+    .transform(normalizeDomain)
+    .describe(
+      "Instance host, e.g. 'gwcteq-partner' or 'https://gwcteq-partner.domo.com'",
+    ),
+  auth: z
+    .enum(["developer-token", "oauth"])
+    .optional()
+    .describe(
+      "Defaults to developer-token when a token is set, oauth otherwise",
+    ),
+  developerToken: z.string().min(1).optional(),
+  clientId: z.string().min(1).optional(),
+  clientSecret: z.string().min(1).optional(),
+  scope: z.string().min(1).default("data user"),
+  apiHost: z.string().url().default("https://api.domo.com"),
+  creditsDatasetId: z.string().min(1).optional(),
+  http: z
+    .object({
+      timeoutMs: z.coerce.number().int().positive().default(30000),
+      maxRetries: z.coerce.number().int().min(0).default(3),
+      concurrency: z.coerce.number().int().positive().default(8),
+      baseDelayMs: z.coerce.number().int().positive().default(500),
+      maxDelayMs: z.coerce.number().int().positive().default(15000),
+    })
+    .default({}),
+  // Credit price per SKU / entity type and contract period, see pricing/pricing.ts
+  pricing: pricingSchema,
+  // skuId -> model provider, for AI SKUs the built-in patterns miss
+  skuProviders: z.record(z.string().min(1)).default({}),
+  // Governance facts per AI agent id, see agents/catalog.ts
+  agents: agentRegistrySchema,
+  // Alert channels and routing rules, see notify/config.ts
+  notifications: notificationsSchema,
+  // Incident detection rules over the built-in ones, see rules/engine.ts
+  incidentRules: incidentRulesSchema,
+  // Expected run times of scheduled workflows, see schedules/detect.ts
+  schedules: schedulesSchema,
+});
+
+const configSchema = z
+  .object({
+    primary: z.string().min(1),
+    instances: z.record(instanceSchema),
+  })
+  .superRefine((config, ctx) => {
+    const names = Object.keys(config.instances);
+    if (names.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "At least one Domo instance must be configured",
+        path: ["instances"],
+      });
+      return;
+    }
+    if (!config.instances[config.primary]) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Primary instance '${config.primary}' is not defined (known: ${names.join(", ")})`,
+        path: ["primary"],
+      });
+    }
+    for (const [name, instance] of Object.entries(config.instances)) {
+      const mode = resolveAuthMode(instance);
+      if (mode === "developer-token" && !instance.developerToken) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Instance '${name}' uses developer-token auth but has no developerToken`,
+          path: ["instances", name, "developerToken"],
+        });
+      }
+      if (mode === "oauth" && !(instance.clientId && instance.clientSecret)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Instance '${name}' uses oauth auth but is missing clientId/clientSecret`,
+          path: ["instances", name],
+        });
+      }
+    }
+  });
+
+export type AuthMode = "developer-token" | "oauth";
+
+export function resolveAuthMode(instance: {
+  auth?: AuthMode;
+  developerToken?: string;
+}): AuthMode {
+  return (
+    instance.auth ?? (instance.developerToken ? "developer-token" : "oauth")
+  );
+}
+
+export type DomoInstanceConfig = z.infer<typeof instanceSchema>;
+
+export interface DomoInstance extends DomoInstanceConfig {
+  name: string;
+}
+
+export interface DomoConfig {
+  primary: string;
+  instances: Record<string, DomoInstance>;
+}
+
+// Accept "acme", "acme.domo.com" or "https://acme.domo.com/" and
+// always return "https://acme.domo.com"
+function normalizeDomain(value: string): string {
+  let domain = value.trim().replace(/\/+$/, "");
+  if (!/^https?:\/\//i.test(domain)) {
+    if (!domain.includes(".")) domain = `${domain}.domo.com`;
+    domain = `https://${domain}`;
+  }
+  return domain;
+}
+
+// Replace ${VAR} references in every string value of the parsed file.
+// A value that is only a reference to an unset (or empty) variable is
+// dropped, like an unset env var, so optional secrets can stay unset.
+function interpolateEnv(value: unknown): unknown {
+  if (typeof value === "string") {
+    const only = value.trim().match(/^\$\{([A-Z0-9_]+)\}$/i);
+    if (only) return envValue(only[1]);
+    return value.replace(
+      /\$\{([A-Z0-9_]+)\}/gi,
+      (_, key) => process.env[key] ?? "",
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map(interpolateEnv).filter((v) => v !== undefined);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .map(([k, v]) => [k, interpolateEnv(v)])
+        .filter(([, v]) => v !== undefined),
+    );
+  }
+  return value;
+}
+
+function readConfigFile(filePath: string): any {
+  const resolved = path.resolve(filePath);
+  let raw: string;
+  try {
+    raw = fs.readFileSync(resolved, "utf8");
+  } catch (e: any) {
+    throw new ConfigError(
+      `Cannot read Domo config file ${resolved}: ${e.message}`,
+    );
+  }
+
+  try {
+    const ext = path.extname(resolved).toLowerCase();
+    const parsed =
+      ext === ".yaml" || ext === ".yml" ? parseYaml(raw) : JSON.parse(raw);
+    return interpolateEnv(parsed ?? {});
+  } catch (e: any) {
+    throw new ConfigError(
+      `Cannot parse Domo config file ${resolved}: ${e.message}`,
+    );
+  }
+}
+
+// Drop empty strings so `CLIENT_ID=""` in .env counts as "not set"
+function envValue(key: string): string | undefined {
+  const value = process.env[key];
+  return value && value.trim() !== "" ? value.trim() : undefined;
+}
+
+function readEnvHttp(): Record<string, string> | undefined {
+  const fromEnv = {
+    timeoutMs: envValue("DOMO_HTTP_TIMEOUT_MS"),
+    maxRetries: envValue("DOMO_HTTP_MAX_RETRIES"),
+    concurrency: envValue("DOMO_HTTP_CONCURRENCY"),
+    baseDelayMs: envValue("DOMO_HTTP_BASE_DELAY_MS"),
+    maxDelayMs: envValue("DOMO_HTTP_MAX_DELAY_MS"),
+  };
+  const defined = Object.entries(fromEnv).filter(([, v]) => v !== undefined);
+  return defined.length > 0
+    ? (Object.fromEntries(defined) as Record<string, string>)
+    : undefined;
+}
+
+function readEnvPricing(): Record<string, string> | undefined {
+  const fromEnv = {
+    currency: envValue("CREDIT_CURRENCY"),
+    defaultRate: envValue("CREDIT_PRICE"),
+  };
+  const defined = Object.entries(fromEnv).filter(([, v]) => v !== undefined);
+  return defined.length > 0
+    ? (Object.fromEntries(defined) as Record<string, string>)
+    : undefined;
+}
+
+function readEnvInstance(): Record<string, unknown> | null {
+  const fromEnv = {
+    domain: envValue("DOMO_DOMAIN"),
+    developerToken: envValue("DOMO_DEVELOPER_TOKEN"),
+    clientId: envValue("CLIENT_ID"),
+    clientSecret: envValue("CLIENT_SECRET"),
+    creditsDatasetId: envValue("CREDITS_DATASET_ID"),
+    auth: envValue("DOMO_AUTH_MODE"),
+    scope: envValue("DOMO_OAUTH_SCOPE"),
+    http: readEnvHttp(),
+    pricing: readEnvPricing(),
+  };
+  const defined = Object.entries(fromEnv).filter(([, v]) => v !== undefined);
+  return defined.length > 0 ? Object.fromEntries(defined) : null;
+}
+
+export function loadConfig(): DomoConfig {
+  const file = envValue("DOMO_CONFIG_FILE")
+    ? readConfigFile(envValue("DOMO_CONFIG_FILE")!)
+    : {};
+  const instances: Record<string, any> = { ...(file.instances || {}) };
+
+  const envName = envValue("DOMO_INSTANCE") || "default";
+  const envInstance = readEnvInstance();
+  if (envInstance) {
+    const fromFile = instances[envName] || {};
+    instances[envName] = {
+      ...fromFile,
+      ...envInstance,
+      // CREDIT_PRICE / CREDIT_CURRENCY keep the file's contract periods
+      pricing: { ...(fromFile.pricing || {}), ...(envInstance.pricing || {}) },
+    };
+  }
+
+  const primary =
+    envValue("DOMO_PRIMARY_INSTANCE") ||
+    file.primary ||
+    (envInstance ? envName : Object.keys(instances)[0]) ||
+    envName;
+
+  const result = configSchema.safeParse({ primary, instances });
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((i) => `  - ${i.path.join(".") || "config"}: ${i.message}`)
+      .join("\n");
+    throw new ConfigError(`Invalid Domo configuration:\n${issues}`);
+  }
+
+  return {
+    primary: result.data.primary,
+    instances: Object.fromEntries(
+      Object.entries(result.data.instances).map(([name, instance]) => [
+        name,
+        { name, ...instance },
+      ]),
+    ),
+  };
+}
+
+let cachedConfig: DomoConfig | null = null;
+
+export function getConfig(): DomoConfig {
+  if (!cachedConfig) cachedConfig = loadConfig();
+  return cachedConfig;
+}
+
+/**
+ * Resolve a configured Domo instance by name.
+ *
+ * @param name Instance name; falls back to the primary instance when omitted
+ */
+export function getInstance(name?: string): DomoInstance {
+  const config = getConfig();
+  const key = name && name.trim() !== "" ? name.trim() : config.primary;
+  const instance = config.instances[key];
+  if (!instance) {
+    throw new UnknownInstanceError(key, Object.keys(config.instances));
+  }
+  return instance;
+}
+
+export function listInstances(): DomoInstance[] {
+  return Object.values(getConfig().instances);
+}
+
+// Credits SQL needs a dataset; fail with a clear message instead of a 404
+export function requireCreditsDataset(instance: DomoInstance): string {
+  if (!instance.creditsDatasetId) {
+    throw new ConfigError(
+      `Instance '${instance.name}' has no creditsDatasetId configured`,
+    );
+  }
+  return instance.creditsDatasetId;
+}
@@ -0,0 +1,237 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import axios, { AxiosError, AxiosRequestConfig, AxiosResponse } from "axios";
+import { DomoInstance } from "./config.js";
+import { getAuthProvider } from "./auth.js";
+
+// ============================================================
+// RESILIENT REQUEST LAYER
+// ============================================================
+// Every Domo call goes through domoRequest(), which:
+//   - caps in-flight requests per instance (queued, not rejected)
+//   - applies a per-request timeout
+//   - retries 429 (honoring Retry-After), transient 5xx and network
+//     errors with exponential backoff + full jitter
+//   - refreshes OAuth tokens once on 401
+//   - counts retries and give-ups, both per instance and per API
+//     request scope, so responses can say when numbers are partial
+// ============================================================
+
+export interface RequestStats {
+  requests: number;
+  retries: number;
+  rateLimited: number;
+  timeouts: number;
+  giveUps: number;
+}
+
+export interface DomoRequestConfig extends AxiosRequestConfig {
+  // Safe to repeat after a timeout/5xx. Defaults to true for GET only;
+  // non-idempotent requests are retried on 429 alone.
+  idempotent?: boolean;
+}
+
+const RETRYABLE_STATUS = new Set([500, 502, 503, 504]);
+const RETRYABLE_CODES = new Set([
+  "ECONNABORTED",
+  "ECONNRESET",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "ECONNREFUSED",
+  "ERR_NETWORK",
+]);
+
+// Don't sit on a request longer than this even if Domo asks us to
+const MAX_RETRY_AFTER_MS = 60 * 1000;
+
+function emptyStats(): RequestStats {
+  return { requests: 0, retries: 0, rateLimited: 0, timeouts: 0, giveUps: 0 };
+}
+
+// ---------------- STATS ----------------
+const instanceStats = new Map<string, RequestStats>();
+const scopeStorage = new AsyncLocalStorage<RequestStats>();
+
+function record(instance: DomoInstance, key: keyof RequestStats) {
+  let stats = instanceStats.get(instance.name);
+  if (!stats) {
+    stats = emptyStats();
+    instanceStats.set(instance.name, stats);
+  }
+  stats[key]++;
+
+  const scoped = scopeStorage.getStore();
+  if (scoped) scoped[key]++;
+}
+
+/**
+ * Run `fn` with its own request counters; every Domo call made inside
+ * it (including from nested async work) is counted in the returned scope.
+ */
+export function withRequestStats<T>(fn: () => T): T {
+  return scopeStorage.run(emptyStats(), fn);
+}
+
+// Counters for the current scope (see withRequestStats), or null outside one
+export function currentRequestStats(): RequestStats | null {
+  const scoped = scopeStorage.getStore();
+  return scoped ? { ...scoped } : null;
+}
+
+export function getInstanceRequestStats(): Record<string, RequestStats> {
+  return Object.fromEntries(
+    Array.from(instanceStats.entries()).map(([name, stats]) => [
+      name,
+      { ...stats },
+    ]),
+  );
+}
+
+// ---------------- CONCURRENCY ----------------
+class Semaphore {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(private readonly limit: number) {}
+
+  async acquire() {
+    if (this.active < this.limit) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>((resolve) => this.waiting.push(resolve));
+  }
+
+  release() {
+    const next = this.waiting.shift();
+    if (next) next();
+    else this.active--;
+  }
+}
+
+const semaphores = new Map<string, Semaphore>();
+
+function semaphoreFor(instance: DomoInstance) {
+  let semaphore = semaphores.get(instance.name);
+  if (!semaphore) {
+    semaphore = new Semaphore(instance.http.concurrency);
+    semaphores.set(instance.name, semaphore);
+  }
+  return semaphore;
+}
+
+// ---------------- RETRY POLICY ----------------
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// Retry-After is either delta-seconds or an HTTP date
+function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== "string" || value.trim() === "") return null;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function backoffDelay(instance: DomoInstance, attempt: number) {
+  const { baseDelayMs, maxDelayMs } = instance.http;
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+// Returns the delay before the next attempt, or null when the error
+// isn't worth retrying at all
+function retryDelay(
+  instance: DomoInstance,
+  error: AxiosError,
+  attempt: number,
+  idempotent: boolean,
+): number | null {
+  const status = error.response?.status;
+  if (status === 429) {
+    const retryAfter = parseRetryAfter(
+      error.response?.headers?.["retry-after"],
+    );
+    return retryAfter ?? backoffDelay(instance, attempt);
+  }
+
+  if (!idempotent) return null;
+  if (status && RETRYABLE_STATUS.has(status)) {
+    return backoffDelay(instance, attempt);
+  }
+  if (!error.response && error.code && RETRYABLE_CODES.has(error.code)) {
+    return backoffDelay(instance, attempt);
+  }
+  return null;
+}
+
+/**
+ * Send a request to Domo through the shared request layer.
+ *
+ * @param instance The Domo instance to call
+ * @param config Axios request config plus the `idempotent` retry hint
+ */
+export async function domoRequest<T = any>(
+  instance: DomoInstance,
+  config: DomoRequestConfig,
+): Promise<AxiosResponse<T>> {
+  const { idempotent: idempotentHint, ...axiosConfig } = config;
+  const idempotent =
+    idempotentHint ?? (axiosConfig.method || "GET").toUpperCase() === "GET";
+  const provider = getAuthProvider(instance);
+  const semaphore = semaphoreFor(instance);
+
+  let refreshedAuth = false;
+  for (let attempt = 0; ; attempt++) {
+    const authHeaders = await provider.getHeaders();
+
+    let error: AxiosError;
+    await semaphore.acquire();
+    record(instance, "requests");
+    try {
+      return await axios.request<T>({
+        timeout: instance.http.timeoutMs,
+        ...axiosConfig,
+        headers: {
+          Accept: "application/json",
+          ...(axiosConfig.headers as Record<string, string>),
+          ...authHeaders,
+        },
+      });
+    } catch (e) {
+      if (!axios.isAxiosError(e)) throw e;
+      error = e;
+    } finally {
+      // Release before backing off so waiting requests can proceed
+      semaphore.release();
+    }
+
+    if (error.code === "ECONNABORTED") record(instance, "timeouts");
+    if (error.response?.status === 429) record(instance, "rateLimited");
+
+    // Expired/revoked OAuth token: refresh once, doesn't count as a retry
+    if (
+      error.response?.status === 401 &&
+      provider.mode === "oauth" &&
+      !refreshedAuth
+    ) {
+      refreshedAuth = true;
+      provider.invalidate(authHeaders);
+      attempt--;
+      continue;
+    }
+
+    const delay = retryDelay(instance, error, attempt, idempotent);
+    // Not retryable (e.g. an expected 404): nothing was given up on
+    if (delay === null) throw error;
+    if (attempt >= instance.http.maxRetries || delay > MAX_RETRY_AFTER_MS) {
+      record(instance, "giveUps");
+      throw error;
+    }
+    record(instance, "retries");
+    console.error(
+      `Domo ${axiosConfig.method || "GET"} ${axiosConfig.url} failed (${
+        error.response?.status ?? error.code
+      }), retry ${attempt + 1}/${instance.http.maxRetries} in ${delay}ms`,
+    );
+    await sleep(delay);
+  }
+}
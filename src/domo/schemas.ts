@@ -0,0 +1,233 @@
+import z from "zod";
+
+// ============================================================
+// DOMO RESPONSE SCHEMAS
+// ============================================================
+// Only the fields this project reads are declared; everything else
+// is passed through untouched. Domo returns `null` for unset values
+// so optional fields use .nullish().
+// ============================================================
+
+const id = z.union([z.string(), z.number()]);
+const timestamp = z.union([z.string(), z.number()]);
+
+// ---------------- USERS ----------------
+export const domoUserSchema = z
+  .object({
+    id: id,
+    displayName: z.string().nullish(),
+    userName: z.string().nullish(),
+    name: z.string().nullish(),
+    email: z.string().nullish(),
+    emailAddress: z.string().nullish(),
+    role: z.string().nullish(),
+    detail: z.object({ email: z.string().nullish() }).passthrough().nullish(),
+  })
+  .passthrough();
+
+export const domoUserListSchema = z.array(domoUserSchema);
+
+// ---------------- SEARCH ----------------
+const datasetRefSchema = z
+  .object({ id: z.string(), name: z.string().nullish() })
+  .passthrough();
+
+export const searchObjectSchema = z
+  .object({
+    uuid: z.string().nullish(),
+    databaseId: z.string().nullish(),
+    name: z.string().nullish(),
+    entityType: z.string().nullish(),
+    ownedByName: z.string().nullish(),
+    ownedById: id.nullish(),
+    active: z.boolean().nullish(),
+    totalVersions: z.number().nullish(),
+    deployedVersions: z.number().nullish(),
+    createDate: timestamp.nullish(),
+    lastModified: timestamp.nullish(),
+    tags: z.array(z.string()).nullish(),
+    metadata: z.record(z.any()).nullish(),
+    inputDatasets: z.array(datasetRefSchema).nullish(),
+    outputDatasets: z.array(datasetRefSchema).nullish(),
+    outputCards: z.array(z.any()).nullish(),
+    connectedApps: z.array(z.any()).nullish(),
+  })
+  .passthrough();
+
+// Workflow models always carry their model id in `uuid`
+export const workflowSearchObjectSchema = searchObjectSchema.extend({
+  uuid: z.string(),
+});
+
+function searchResponse<T extends z.ZodTypeAny>(objectSchema: T) {
+  return z
+    .object({
+      searchObjects: z
+        .array(objectSchema)
+        .nullish()
+        .transform((v): z.infer<T>[] => v ?? []),
+      totalResultCount: z
+        .number()
+        .nullish()
+        .transform((v) => v ?? 0),
+    })
+    .passthrough();
+}
+
+export const searchResponseSchema = searchResponse(searchObjectSchema);
+export const workflowSearchResponseSchema = searchResponse(
+  workflowSearchObjectSchema,
+);
+
+// ---------------- WORKFLOWS ----------------
+export const workflowModelSchema = z
+  .object({
+    id: z.string(),
+    name: z.string().nullish(),
+    description: z.string().nullish(),
+    createdOn: timestamp.nullish(),
+    updatedOn: timestamp.nullish(),
+    versions: z
+      .array(
+        z
+          .object({
+            version: z.string(),
+            createdOn: timestamp.nullish(),
+            active: z.boolean().nullish(),
+          })
+          .passthrough(),
+      )
+      .nullish(),
+    userPermissions: z
+      .array(
+        z
+          .object({
+            name: z.string().nullish(),
+            permissions: z.array(z.string()).nullish(),
+          })
+          .passthrough(),
+      )
+      .nullish(),
+    inputDatasets: z.array(z.any()).nullish(),
+    outputDatasets: z.array(z.any()).nullish(),
+    outputCards: z.array(z.any()).nullish(),
+    connectedApps: z.array(z.any()).nullish(),
+  })
+  .passthrough();
+
+export const workflowStepSchema = z
+  .object({
+    id: id.nullish(),
+    name: z.string().nullish(),
+    nodeName: z.string().nullish(),
+    type: z.string().nullish(),
+    status: z.string().nullish(),
+    startedOn: timestamp.nullish(),
+    completedOn: timestamp.nullish(),
+    errorMessage: z.string().nullish(),
+    error: z.any().optional(),
+    input: z.any().optional(),
+  })
+  .passthrough();
+
+export const workflowInstanceSchema = z
+  .object({
+    id: z.string(),
+    modelId: z.string().nullish(),
+    modelVersion: z.string().nullish(),
+    deploymentId: z.string().nullish(),
+    status: z.string(),
+    triggerType: z.string().nullish(),
+    createdBy: id.nullish(),
+    createdOn: z.string(),
+    updatedOn: z.string().nullish(),
+    completedOn: z.string().nullish(),
+    duration: z.number().nullish(),
+    errorMessage: z.string().nullish(),
+    error: z.any().optional(),
+    failureReason: z.string().nullish(),
+    statusMessage: z.string().nullish(),
+    // Start message and its input; present when requested via `parts`
+    messageName: z.string().nullish(),
+    data: z.record(z.any()).nullish(),
+    steps: z.array(workflowStepSchema).nullish(),
+  })
+  .passthrough();
+
+export const workflowInstanceListSchema = z.array(workflowInstanceSchema);
+
+// ---------------- DATAFLOWS ----------------
+export const dataflowExecutionSchema = z
+  .object({
+    id: id,
+    dataFlowId: id.nullish(),
+    state: z.string().nullish(),
+    activationType: z.string().nullish(),
+    beginTime: timestamp.nullish(),
+    endTime: timestamp.nullish(),
+    lastUpdated: timestamp.nullish(),
+    failed: z.boolean().nullish(),
+    errorMessage: z.string().nullish(),
+  })
+  .passthrough();
+
+export const dataflowExecutionListSchema = z.array(dataflowExecutionSchema);
+
+// ---------------- DATASTORES ----------------
+export const collectionsQueryResponseSchema = z
+  .object({
+    collections: z
+      .array(
+        z
+          .object({
+            id: z.string(),
+            name: z.string().nullish(),
+            createdOn: timestamp.nullish(),
+            owner: id.nullish(),
+          })
+          .passthrough(),
+      )
+      .nullish()
+      .transform((v) => v ?? []),
+    ownedBy: z
+      .array(
+        z
+          .object({ ownerId: id, ownerName: z.string().nullish() })
+          .passthrough(),
+      )
+      .nullish()
+      .transform((v) => v ?? []),
+    totalCollectionCount: z.number().nullish(),
+  })
+  .passthrough();
+
+export const collectionDocumentListSchema = z.array(
+  z.object({ id: z.string(), content: z.any() }).passthrough(),
+);
+
+// ---------------- DATASET QUERY ----------------
+export const queryResultSchema = z
+  .object({
+    columns: z.array(z.string()).nullish(),
+    rows: z
+      .array(z.array(z.any()))
+      .nullish()
+      .transform((v) => v ?? []),
+  })
+  .passthrough();
+
+export type DomoUser = z.infer<typeof domoUserSchema>;
+export type SearchObject = z.infer<typeof searchObjectSchema>;
+export type WorkflowSearchObject = z.infer<typeof workflowSearchObjectSchema>;
+export type SearchResponse = z.infer<typeof searchResponseSchema>;
+export type WorkflowModel = z.infer<typeof workflowModelSchema>;
+export type WorkflowInstance = z.infer<typeof workflowInstanceSchema>;
+export type WorkflowStep = z.infer<typeof workflowStepSchema>;
+export type DataflowExecution = z.infer<typeof dataflowExecutionSchema>;
+export type CollectionsQueryResponse = z.infer<
+  typeof collectionsQueryResponseSchema
+>;
+export type CollectionDocument = z.infer<
+  typeof collectionDocumentListSchema
+>[number];
+export type QueryResult = z.infer<typeof queryResultSchema>;
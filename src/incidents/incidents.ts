@@ -0,0 +1,471 @@
+import { randomUUID } from "node:crypto";
+import z from "zod";
+import { getDb } from "../store/db.js";
+import { toMillis } from "../store/store.js";
+
+// ============================================================
+// INCIDENTS
+// ============================================================
+// Incidents detected by /api/runs-incidents are kept per instance in
+// the local store, one per dedupe key (e.g. inc_<workflowId>), so a
+// condition that keeps firing updates the incident already open for
+// it instead of raising a new one. Lifecycle:
+//
+//   open ──ack──> acknowledged ──resolve──> resolved ──reopen──> reopened
+//     └──────────────resolve────────────────┘   ▲
+//   (reopened behaves like open)                └── auto-resolve when a
+//                                                   scan no longer sees it
+//
+// A resolved incident is reopened by detection only on new evidence
+// (a failure newer than the resolution) or when its condition was seen
+// clear since; otherwise a manual resolution stands while the window
+// still holds the old failures. Every change is kept in
+// incident_events as the incident's history.
+//
+// Conditions depend on the scan's window, so state should be driven
+// by scans over one window (the dashboard's default).
+// ============================================================
+
+export type IncidentStatus = "open" | "acknowledged" | "resolved" | "reopened";
+
+export type IncidentAction = "acknowledge" | "resolve" | "reopen";
+
+export const ACTIVE_STATUSES: IncidentStatus[] = [
+  "open",
+  "acknowledged",
+  "reopened",
+];
+
+const NEXT_STATUS: Record<
+  IncidentAction,
+  { from: IncidentStatus[]; to: IncidentStatus }
+> = {
+  acknowledge: { from: ["open", "reopened"], to: "acknowledged" },
+  resolve: { from: ACTIVE_STATUSES, to: "resolved" },
+  reopen: { from: ["resolved"], to: "reopened" },
+};
+
+// Written to events raised by detection rather than by a person
+const SYSTEM_ACTOR = "system";
+
+export class IncidentStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IncidentStateError";
+  }
+}
+
+const actor = z.string().min(1).nullish();
+
+export const incidentActionSchema = z.object({
+  actor,
+  note: z.string().min(1).nullish(),
+});
+
+export const incidentAssignSchema = z.object({
+  // null unassigns
+  assignee: z.string().min(1).nullable(),
+  actor,
+});
+
+export const incidentNoteSchema = z.object({
+  note: z.string().min(1),
+  actor,
+});
+
+export type IncidentActionInput = z.infer<typeof incidentActionSchema>;
+
+// An incident as a scan detects it
+export interface DetectedIncident {
+  key: string;
+  entityType: string | null;
+  entityId: string | null;
+  entityName: string | null;
+  owner: string | null;
+  issue: string;
+  severity: string;
+  recommendedAction: string | null;
+  lastActivity: string | null;
+  // Newest occurrence of the condition (e.g. last failure); null when
+  // the condition has no datable occurrences
+  evidenceAt: string | null;
+  // Anything else to show with the incident (blast radius, errors...)
+  details: Record<string, unknown>;
+}
+
+export interface Incident {
+  id: string;
+  instance: string;
+  dedupeKey: string;
+  entityType: string | null;
+  entityId: string | null;
+  entityName: string | null;
+  owner: string | null;
+  issue: string;
+  severity: string;
+  recommendedAction: string | null;
+  details: Record<string, unknown>;
+  status: IncidentStatus;
+  assignee: string | null;
+  openedAt: string;
+  acknowledgedAt: string | null;
+  resolvedAt: string | null;
+  // "manual" or "auto" while resolved
+  resolution: string | null;
+  reopenedAt: string | null;
+  reopenCount: number;
+  lastActivity: string | null;
+  lastDetectedAt: string;
+  updatedAt: string;
+}
+
+export interface IncidentEvent {
+  at: string;
+  type: string;
+  actor: string | null;
+  note: string | null;
+  fromStatus: IncidentStatus | null;
+  toStatus: IncidentStatus | null;
+}
+
+export interface ReconcileResult {
+  opened: number;
+  reopened: number;
+  autoResolved: number;
+}
+
+export interface IncidentListOptions {
+  status?: IncidentStatus[];
+  assignee?: string;
+  limit?: number;
+}
+
+const toIso = (ms: number | null) =>
+  ms === null ? null : new Date(ms).toISOString();
+
+function fromRow(row: any): Incident {
+  return {
+    id: row.id,
+    instance: row.instance,
+    dedupeKey: row.dedupe_key,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    entityName: row.entity_name,
+    owner: row.owner,
+    issue: row.issue,
+    severity: row.severity,
+    recommendedAction: row.recommended_action,
+    details: row.details !== null ? JSON.parse(row.details) : {},
+    status: row.status,
+    assignee: row.assignee,
+    openedAt: toIso(row.opened_at)!,
+    acknowledgedAt: toIso(row.acknowledged_at),
+    resolvedAt: toIso(row.resolved_at),
+    resolution: row.resolution,
+    reopenedAt: toIso(row.reopened_at),
+    reopenCount: row.reopen_count,
+    lastActivity: row.last_activity,
+    lastDetectedAt: toIso(row.last_detected_at)!,
+    updatedAt: toIso(row.updated_at)!,
+  };
+}
+
+function recordEvent(
+  incidentId: string,
+  at: number,
+  type: string,
+  fields: {
+    actor?: string | null;
+    note?: string | null;
+    from?: IncidentStatus | null;
+    to?: IncidentStatus | null;
+  } = {},
+) {
+  getDb()
+    .prepare(
+      `INSERT INTO incident_events (incident_id, at, type, actor, note, from_status, to_status)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    )
+    .run(
+      incidentId,
+      at,
+      type,
+      fields.actor ?? null,
+      fields.note ?? null,
+      fields.from ?? null,
+      fields.to ?? null,
+    );
+}
+
+export function listIncidents(
+  instance: string,
+  { status, assignee, limit = 500 }: IncidentListOptions = {},
+): Incident[] {
+  const where = ["instance = ?"];
+  const params: unknown[] = [instance];
+  if (status && status.length > 0) {
+    where.push(`status IN (${status.map(() => "?").join(", ")})`);
+    params.push(...status);
+  }
+  if (assignee !== undefined) {
+    where.push("assignee = ?");
+    params.push(assignee);
+  }
+  return getDb()
+    .prepare(
+      `SELECT * FROM incidents WHERE ${where.join(" AND ")}
+       ORDER BY updated_at DESC LIMIT ?`,
+    )
+    .all(...params, limit)
+    .map(fromRow);
+}
+
+export function getIncident(
+  instance: string,
+  id: string,
+): Incident | undefined {
+  const row = getDb()
+    .prepare("SELECT * FROM incidents WHERE instance = ? AND id = ?")
+    .get(instance, id);
+  return row ? fromRow(row) : undefined;
+}
+
+// Oldest first
+export function incidentHistory(incidentId: string): IncidentEvent[] {
+  return getDb()
+    .prepare(
+      "SELECT * FROM incident_events WHERE incident_id = ? ORDER BY at, id",
+    )
+    .all(incidentId)
+    .map((row: any) => ({
+      at: new Date(row.at).toISOString(),
+      type: row.type,
+      actor: row.actor,
+      note: row.note,
+      fromStatus: row.from_status,
+      toStatus: row.to_status,
+    }));
+}
+
+/**
+ * Bring stored incidents in line with a scan: open incidents for new
+ * conditions, refresh the ones already open, reopen resolved ones
+ * that came back and auto-resolve active ones the scan checked but
+ * no longer detected.
+ *
+ * @param instance Instance the scan ran against
+ * @param detected Incidents the scan detected
+ * @param checked Whether the scan evaluated the condition behind a
+ *   dedupe key; incidents of unchecked keys are left as they are
+ */
+export function reconcileIncidents(
+  instance: string,
+  detected: DetectedIncident[],
+  checked: (key: string) => boolean,
+): ReconcileResult {
+  const db = getDb();
+  const now = Date.now();
+  const result: ReconcileResult = { opened: 0, reopened: 0, autoResolved: 0 };
+  const existing = new Map<string, any>(
+    db
+      .prepare("SELECT * FROM incidents WHERE instance = ?")
+      .all(instance)
+      .map((row: any) => [row.dedupe_key, row]),
+  );
+  const refresh = db.prepare(
+    `UPDATE incidents SET
+       entity_type = @entityType, entity_id = @entityId, entity_name = @entityName,
+       owner = @owner, issue = @issue, severity = @severity,
+       recommended_action = @recommendedAction, details = @details,
+       last_activity = @lastActivity, last_detected_at = @now,
+       last_evidence_at = CASE WHEN @evidenceAt IS NULL THEN last_evidence_at
+         ELSE MAX(COALESCE(last_evidence_at, 0), @evidenceAt) END,
+       updated_at = CASE WHEN severity <> @severity OR issue <> @issue THEN @now ELSE updated_at END
+     WHERE id = @id`,
+  );
+
+  db.transaction(() => {
+    for (const d of detected) {
+      const fields = {
+        entityType: d.entityType,
+        entityId: d.entityId,
+        entityName: d.entityName,
+        owner: d.owner,
+        issue: d.issue,
+        severity: d.severity,
+        recommendedAction: d.recommendedAction,
+        details: JSON.stringify(d.details),
+        lastActivity: d.lastActivity,
+        evidenceAt: toMillis(d.evidenceAt),
+        now,
+      };
+      const row = existing.get(d.key);
+
+      if (!row) {
+        const id = randomUUID();
+        db.prepare(
+          `INSERT INTO incidents
+             (id, instance, dedupe_key, entity_type, entity_id, entity_name, owner, issue, severity,
+              recommended_action, details, status, opened_at, last_activity, last_detected_at,
+              last_evidence_at, updated_at)
+           VALUES
+             (@id, @instance, @key, @entityType, @entityId, @entityName, @owner, @issue, @severity,
+              @recommendedAction, @details, 'open', @now, @lastActivity, @now, @evidenceAt, @now)`,
+        ).run({ ...fields, id, instance, key: d.key });
+        recordEvent(id, now, "opened", {
+          actor: SYSTEM_ACTOR,
+          note: d.issue,
+          to: "open",
+        });
+        result.opened++;
+        continue;
+      }
+
+      if (row.status === "resolved") {
+        const evidence = fields.evidenceAt ?? 0;
+        const cameBack =
+          row.resolution === "auto" ||
+          evidence > row.resolved_at ||
+          (row.last_cleared_at ?? 0) >= row.resolved_at;
+        if (cameBack) {
+          db.prepare(
+            `UPDATE incidents SET status = 'reopened', reopened_at = ?, reopen_count = reopen_count + 1,
+               acknowledged_at = NULL, resolved_at = NULL, resolution = NULL, updated_at = ?
+             WHERE id = ?`,
+          ).run(now, now, row.id);
+          recordEvent(row.id, now, "reopened", {
+            actor: SYSTEM_ACTOR,
+            note: `Detected again: ${d.issue}`,
+            from: "resolved",
+            to: "reopened",
+          });
+          result.reopened++;
+        }
+      } else if (row.severity !== d.severity) {
+        recordEvent(row.id, now, "severity_changed", {
+          actor: SYSTEM_ACTOR,
+          note: `${row.severity} → ${d.severity}`,
+        });
+      }
+      refresh.run({ ...fields, id: row.id });
+    }
+
+    const detectedKeys = new Set(detected.map((d) => d.key));
+    for (const row of existing.values()) {
+      if (detectedKeys.has(row.dedupe_key) || !checked(row.dedupe_key)) {
+        continue;
+      }
+      if (row.status === "resolved") {
+        // Remembered so the next detection counts as a recurrence
+        db.prepare("UPDATE incidents SET last_cleared_at = ? WHERE id = ?").run(
+          now,
+          row.id,
+        );
+        continue;
+      }
+      db.prepare(
+        `UPDATE incidents SET status = 'resolved', resolved_at = ?, resolution = 'auto',
+           last_cleared_at = ?, updated_at = ?
+         WHERE id = ?`,
+      ).run(now, now, now, row.id);
+      recordEvent(row.id, now, "auto_resolved", {
+        actor: SYSTEM_ACTOR,
+        note: "Condition no longer detected",
+        from: row.status,
+        to: "resolved",
+      });
+      result.autoResolved++;
+    }
+  })();
+  return result;
+}
+
+/**
+ * Acknowledge, resolve or reopen an incident by hand. Returns
+ * undefined when the incident does not exist and throws
+ * IncidentStateError when its status does not allow the action.
+ *
+ * @param instance Instance of the incident
+ * @param id Incident id
+ * @param action What to do
+ * @param input Who does it, and an optional note for the history
+ */
+export function transitionIncident(
+  instance: string,
+  id: string,
+  action: IncidentAction,
+  input: IncidentActionInput = {},
+): Incident | undefined {
+  const incident = getIncident(instance, id);
+  if (!incident) return undefined;
+  const { from, to } = NEXT_STATUS[action];
+  if (!from.includes(incident.status)) {
+    throw new IncidentStateError(
+      `Cannot ${action} an incident that is ${incident.status}`,
+    );
+  }
+
+  const now = Date.now();
+  const db = getDb();
+  db.transaction(() => {
+    if (action === "acknowledge") {
+      db.prepare(
+        "UPDATE incidents SET status = ?, acknowledged_at = ?, updated_at = ? WHERE id = ?",
+      ).run(to, now, now, id);
+    } else if (action === "resolve") {
+      db.prepare(
+        `UPDATE incidents SET status = ?, resolved_at = ?, resolution = 'manual', updated_at = ?
+         WHERE id = ?`,
+      ).run(to, now, now, id);
+    } else {
+      db.prepare(
+        `UPDATE incidents SET status = ?, reopened_at = ?, reopen_count = reopen_count + 1,
+           acknowledged_at = NULL, resolved_at = NULL, resolution = NULL, updated_at = ?
+         WHERE id = ?`,
+      ).run(to, now, now, id);
+    }
+    recordEvent(id, now, to, {
+      actor: input.actor,
+      note: input.note,
+      from: incident.status,
+      to,
+    });
+  })();
+  return getIncident(instance, id);
+}
+
+export function assignIncident(
+  instance: string,
+  id: string,
+  assignee: string | null,
+  actor?: string | null,
+): Incident | undefined {
+  const incident = getIncident(instance, id);
+  if (!incident) return undefined;
+  if (incident.assignee === assignee) return incident;
+  const now = Date.now();
+  getDb()
+    .prepare("UPDATE incidents SET assignee = ?, updated_at = ? WHERE id = ?")
+    .run(assignee, now, id);
+  recordEvent(id, now, assignee ? "assigned" : "unassigned", {
+    actor,
+    note: assignee,
+  });
+  return getIncident(instance, id);
+}
+
+export function addIncidentNote(
+  instance: string,
+  id: string,
+  note: string,
+  actor?: string | null,
+): Incident | undefined {
+  const incident = getIncident(instance, id);
+  if (!incident) return undefined;
+  const now = Date.now();
+  getDb()
+    .prepare("UPDATE incidents SET updated_at = ? WHERE id = ?")
+    .run(now, id);
+  recordEvent(id, now, "note", { actor, note });
+  return getIncident(instance, id);
+}
@@ -0,0 +1,238 @@
+import { SearchObject } from "../domo/schemas.js";
+
+// ============================================================
+// LINEAGE GRAPH
+// ============================================================
+// Directed graph of Domo content in the direction data flows:
+//   dataset  -> workflow / dataflow / card   (read as input)
+//   workflow / dataflow -> dataset           (written as output)
+//   workflow -> card / app                   (published to)
+// Upstream traversal follows edges backwards, downstream forwards.
+// Node keys are "<type>:<id>" so ids of different types never clash.
+// ============================================================
+
+export type LineageNodeType =
+  "workflow" | "dataflow" | "dataset" | "card" | "app";
+
+export type LineageRelation = "input" | "output" | "publishes";
+
+export type LineageDirection = "upstream" | "downstream" | "both";
+
+export interface LineageNode {
+  key: string;
+  type: LineageNodeType;
+  id: string;
+  name: string | null;
+  owner: string | null;
+}
+
+export interface LineageEdge {
+  from: string;
+  to: string;
+  relation: LineageRelation;
+}
+
+export interface TraversedNode extends LineageNode {
+  // Hops from the root; negative upstream, positive downstream
+  depth: number;
+}
+
+export interface LineageTraversal {
+  root: LineageNode;
+  nodes: TraversedNode[];
+  edges: LineageEdge[];
+  // Nodes exist beyond the requested depth
+  truncated: boolean;
+}
+
+export interface LineageSources {
+  workflows: SearchObject[];
+  dataflows: SearchObject[];
+  cards: SearchObject[];
+}
+
+export const nodeKey = (type: LineageNodeType, id: string) => `${type}:${id}`;
+
+// Dataset, card and app references come as ids or as objects whose
+// id field name varies by payload
+function refOf(ref: unknown): { id: string; name: string | null } | null {
+  if (typeof ref === "string" || typeof ref === "number") {
+    return { id: String(ref), name: null };
+  }
+  if (!ref || typeof ref !== "object") return null;
+  const r = ref as Record<string, unknown>;
+  const id = r.id ?? r.uuid ?? r.cardId ?? r.appId ?? r.dataSourceId;
+  if (id == null || id === "") return null;
+  const name = r.name ?? r.title;
+  return { id: String(id), name: typeof name === "string" ? name : null };
+}
+
+const refsOf = (refs: unknown) =>
+  (Array.isArray(refs) ? refs : [])
+    .map(refOf)
+    .filter((r): r is { id: string; name: string | null } => r !== null);
+
+export class LineageGraph {
+  private readonly nodes = new Map<string, LineageNode>();
+  private readonly outgoing = new Map<string, LineageEdge[]>();
+  private readonly incoming = new Map<string, LineageEdge[]>();
+  private readonly edgeKeys = new Set<string>();
+
+  addNode(
+    type: LineageNodeType,
+    id: string,
+    name: string | null = null,
+    owner: string | null = null,
+  ): string {
+    const key = nodeKey(type, id);
+    const existing = this.nodes.get(key);
+    if (existing) {
+      // References often lack names the entity's own record has
+      existing.name ??= name;
+      existing.owner ??= owner;
+    } else {
+      this.nodes.set(key, { key, type, id, name, owner });
+    }
+    return key;
+  }
+
+  addEdge(from: string, to: string, relation: LineageRelation) {
+    const edgeKey = `${from}>${to}`;
+    if (from === to || this.edgeKeys.has(edgeKey)) return;
+    this.edgeKeys.add(edgeKey);
+    const edge = { from, to, relation };
+    this.outgoing.set(from, [...(this.outgoing.get(from) ?? []), edge]);
+    this.incoming.set(to, [...(this.incoming.get(to) ?? []), edge]);
+  }
+
+  getNode(key: string): LineageNode | undefined {
+    return this.nodes.get(key);
+  }
+
+  get size() {
+    return this.nodes.size;
+  }
+
+  /**
+   * Breadth-first walk from `rootKey`.
+   *
+   * @param rootKey Node key, see nodeKey()
+   * @param direction Edges to follow
+   * @param maxDepth Hops to follow in each direction
+   */
+  traverse(
+    rootKey: string,
+    direction: LineageDirection,
+    maxDepth: number,
+  ): LineageTraversal | null {
+    const root = this.nodes.get(rootKey);
+    if (!root) return null;
+
+    const depths = new Map<string, number>([[rootKey, 0]]);
+    const edges = new Map<string, LineageEdge>();
+    let truncated = false;
+
+    const walk = (downstream: boolean) => {
+      let frontier = [rootKey];
+      for (let hop = 1; frontier.length > 0; hop++) {
+        const next: string[] = [];
+        for (const key of frontier) {
+          const adjacent = downstream
+            ? (this.outgoing.get(key) ?? [])
+            : (this.incoming.get(key) ?? []);
+          if (hop > maxDepth) {
+            truncated ||= adjacent.some(
+              (e) => !depths.has(downstream ? e.to : e.from),
+            );
+            continue;
+          }
+          for (const edge of adjacent) {
+            const other = downstream ? edge.to : edge.from;
+            edges.set(`${edge.from}>${edge.to}`, edge);
+            if (depths.has(other)) continue;
+            depths.set(other, downstream ? hop : -hop);
+            next.push(other);
+          }
+        }
+        if (hop > maxDepth) break;
+        frontier = next;
+      }
+    };
+    if (direction !== "upstream") walk(true);
+    if (direction !== "downstream") walk(false);
+
+    return {
+      root,
+      nodes: Array.from(depths.entries()).map(([key, depth]) => ({
+        ...this.nodes.get(key)!,
+        depth,
+      })),
+      edges: Array.from(edges.values()),
+      truncated,
+    };
+  }
+}
+
+export function buildLineageGraph(sources: LineageSources): LineageGraph {
+  const graph = new LineageGraph();
+  const addDatasets = (
+    owner: string,
+    refs: unknown,
+    relation: "input" | "output",
+  ) => {
+    for (const ref of refsOf(refs)) {
+      const dataset = graph.addNode("dataset", ref.id, ref.name);
+      if (relation === "input") graph.addEdge(dataset, owner, "input");
+      else graph.addEdge(owner, dataset, "output");
+    }
+  };
+
+  for (const wf of sources.workflows) {
+    if (!wf.uuid) continue;
+    const key = graph.addNode(
+      "workflow",
+      wf.uuid,
+      wf.name ?? null,
+      wf.ownedByName ?? null,
+    );
+    addDatasets(key, wf.inputDatasets, "input");
+    addDatasets(key, wf.outputDatasets, "output");
+    for (const card of refsOf(wf.outputCards)) {
+      graph.addEdge(
+        key,
+        graph.addNode("card", card.id, card.name),
+        "publishes",
+      );
+    }
+    for (const app of refsOf(wf.connectedApps)) {
+      graph.addEdge(key, graph.addNode("app", app.id, app.name), "publishes");
+    }
+  }
+
+  for (const df of sources.dataflows) {
+    const id = df.databaseId ?? df.uuid;
+    if (!id) continue;
+    const key = graph.addNode(
+      "dataflow",
+      id,
+      df.name ?? null,
+      df.ownedByName ?? null,
+    );
+    addDatasets(key, df.inputDatasets, "input");
+    addDatasets(key, df.outputDatasets, "output");
+  }
+
+  for (const card of sources.cards) {
+    const id = card.databaseId ?? card.uuid;
+    if (!id) continue;
+    const key = graph.addNode(
+      "card",
+      id,
+      card.name ?? null,
+      card.ownedByName ?? null,
+    );
+    addDatasets(key, card.inputDatasets, "input");
+  }
+
+  return graph;
+}
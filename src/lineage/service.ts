@@ -0,0 +1,198 @@
+import { DomoClient } from "../domo/client.js";
+import { SearchObject, WorkflowModel } from "../domo/schemas.js";
+import { getCache } from "../cache/cache.js";
+import { listWorkflows } from "../store/store.js";
+import { isStoreReady } from "../sync/worker.js";
+import {
+  LineageGraph,
+  LineageNodeType,
+  LineageSources,
+  buildLineageGraph,
+  nodeKey,
+} from "./graph.js";
+
+// ============================================================
+// LINEAGE SERVICE
+// ============================================================
+// Builds an instance's lineage graph from search: workflows (from
+// the store when synced), dataflows with their input/output
+// datasets, and cards with the datasets they read where the index
+// carries them. Workflow models are merged in on demand because
+// they often list outputs their search objects leave out. Search
+// results and models are cached under the "lineage" resource; the
+// graph itself is rebuilt per call (cheap).
+// ============================================================
+
+const PAGE_SIZE = 100;
+// Guards against an index that keeps returning full pages
+const MAX_PAGES = 100;
+
+export const LINEAGE_NODE_TYPES = [
+  "workflow",
+  "dataflow",
+  "dataset",
+  "card",
+  "app",
+] as const satisfies readonly LineageNodeType[];
+
+async function searchAll(
+  fetchPage: (
+    offset: number,
+  ) => Promise<{ searchObjects: SearchObject[]; totalResultCount: number }>,
+): Promise<SearchObject[]> {
+  const all: SearchObject[] = [];
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const { searchObjects, totalResultCount } = await fetchPage(
+      page * PAGE_SIZE,
+    );
+    all.push(...searchObjects);
+    if (searchObjects.length < PAGE_SIZE || all.length >= totalResultCount) {
+      break;
+    }
+  }
+  return all;
+}
+
+// One source failing (e.g. card search not permitted) leaves the rest
+// of the graph usable
+async function loadSource(
+  domo: DomoClient,
+  name: string,
+  loader: () => Promise<SearchObject[]>,
+): Promise<SearchObject[]> {
+  try {
+    return await getCache().getOrLoad(
+      domo.instance.name,
+      "lineage",
+      name,
+      loader,
+    );
+  } catch (e: any) {
+    console.error(`Lineage source '${name}' unavailable: ${e.message}`);
+    return [];
+  }
+}
+
+// Every dataflow of the instance; also used by run monitoring
+export function loadDataflows(domo: DomoClient): Promise<SearchObject[]> {
+  return loadSource(domo, "dataflows", () =>
+    searchAll((offset) =>
+      domo.searchDataflows({ query: "", count: PAGE_SIZE, offset }),
+    ),
+  );
+}
+
+export async function loadLineageSources(
+  domo: DomoClient,
+): Promise<LineageSources> {
+  const [workflows, dataflows, cards] = await Promise.all([
+    isStoreReady(domo.instance.name, "workflows")
+      ? listWorkflows(domo.instance.name)
+      : loadSource(domo, "workflows", () =>
+          searchAll((offset) =>
+            domo.searchWorkflows({ count: PAGE_SIZE, offset }),
+          ),
+        ),
+    loadDataflows(domo),
+    loadSource(domo, "cards", () =>
+      searchAll((offset) => domo.searchCards({ count: PAGE_SIZE, offset })),
+    ),
+  ]);
+  return { workflows, dataflows, cards };
+}
+
+export async function loadLineageGraph(
+  domo: DomoClient,
+): Promise<LineageGraph> {
+  return buildLineageGraph(await loadLineageSources(domo));
+}
+
+// Models can list datasets, cards and apps the workflow's search
+// object leaves out
+async function workflowModelSource(
+  domo: DomoClient,
+  workflowId: string,
+  model?: WorkflowModel,
+): Promise<SearchObject | null> {
+  try {
+    model ??= await getCache().getOrLoad(
+      domo.instance.name,
+      "lineage",
+      `model:${workflowId}`,
+      () => domo.getWorkflowModel(workflowId, "users"),
+    );
+    return {
+      uuid: model.id,
+      name: model.name,
+      inputDatasets: model.inputDatasets,
+      outputDatasets: model.outputDatasets,
+      outputCards: model.outputCards,
+      connectedApps: model.connectedApps,
+    } as SearchObject;
+  } catch (e: any) {
+    console.error(`Workflow model ${workflowId} unavailable: ${e.message}`);
+    return null;
+  }
+}
+
+/**
+ * The graph with the models of some workflows merged in.
+ *
+ * @param domo Client of the workflows' instance
+ * @param workflowIds Workflow model ids
+ * @param known Models the caller already has
+ */
+export async function loadLineageGraphWithModels(
+  domo: DomoClient,
+  workflowIds: string[],
+  known: WorkflowModel[] = [],
+): Promise<LineageGraph> {
+  const [sources, models] = await Promise.all([
+    loadLineageSources(domo),
+    Promise.all(
+      workflowIds.map((id) =>
+        workflowModelSource(
+          domo,
+          id,
+          known.find((m) => m.id === id),
+        ),
+      ),
+    ),
+  ]);
+  sources.workflows = [
+    ...sources.workflows,
+    ...models.filter((m): m is SearchObject => m !== null),
+  ];
+  return buildLineageGraph(sources);
+}
+
+export function loadWorkflowLineageGraph(
+  domo: DomoClient,
+  workflowId: string,
+  model?: WorkflowModel,
+): Promise<LineageGraph> {
+  return loadLineageGraphWithModels(domo, [workflowId], model ? [model] : []);
+}
+
+/**
+ * Counts of content downstream of a node, for impact summaries.
+ *
+ * @param graph Lineage graph of the node's instance
+ * @param type Node type
+ * @param id Entity id
+ * @param maxDepth Hops to follow
+ */
+export function downstreamCounts(
+  graph: LineageGraph,
+  type: LineageNodeType,
+  id: string,
+  maxDepth = 10,
+) {
+  const traversal = graph.traverse(nodeKey(type, id), "downstream", maxDepth);
+  const counts = { datasets: 0, dataflows: 0, workflows: 0, cards: 0, apps: 0 };
+  for (const node of traversal?.nodes ?? []) {
+    if (node.depth <= 0) continue;
+    counts[`${node.type}s` as keyof typeof counts]++;
+  }
+  return counts;
+}
@@ -0,0 +1,321 @@
+// ============================================================
+// RUN ANOMALIES
+// ============================================================
+// Flags runs and periods (e.g. days) whose duration, credits or
+// failure count stand out from the entity's own history, using a
+// robust z-score: (value - median) / (1.4826 × MAD). Unlike a mean
+// and standard deviation, the median/MAD baseline is not dragged
+// along by the outliers it is meant to find.
+//
+// Baselines only look back: a run is compared with the runs before
+// it (the last `rollingSamples` of them), a period with the periods
+// before it. Seasonal baselines compare with the same UTC hour of
+// the week instead, and fall back to rolling until there are
+// `minSamples` of those. Only values above the baseline count.
+//
+// Durations are scored for successful runs only; a run that fails
+// early says nothing about how long the work takes.
+// ============================================================
+
+export type AnomalyMeasure = "duration" | "credits" | "failures";
+
+export type BaselineMode = "rolling" | "seasonal";
+
+export interface AnomalySettings {
+  baseline: BaselineMode;
+  // Robust z-score from which a value is anomalous
+  threshold: number;
+  // Fewest earlier values a baseline needs
+  minSamples: number;
+  // Earlier runs (or periods) a baseline covers at most
+  rollingSamples: number;
+}
+
+export const DEFAULT_ANOMALY_SETTINGS: AnomalySettings = {
+  baseline: "rolling",
+  threshold: 3.5,
+  minSamples: 8,
+  rollingSamples: 50,
+};
+
+export interface AnomalySample {
+  id: string;
+  // Epoch ms
+  startTime: number;
+  status: "success" | "failed" | "other";
+  durationSeconds: number | null;
+  credits: number | null;
+}
+
+export interface AnomalyScore {
+  measure: AnomalyMeasure;
+  value: number;
+  // Median of the baseline
+  expected: number;
+  score: number;
+  // Baseline actually used (seasonal falls back to rolling)
+  baseline: BaselineMode;
+  samples: number;
+}
+
+export interface Anomaly extends AnomalyScore {
+  severity: "medium" | "high";
+}
+
+export interface PeriodAnomalies {
+  start: string;
+  runs: number;
+  failures: number;
+  credits: number | null;
+  p50Duration: number | null;
+  anomalies: Anomaly[];
+}
+
+const HOUR = 60 * 60 * 1000;
+
+// Keeps near-constant histories from turning small wobbles into
+// anomalies: the scale is at least 10% of the median, or the floor
+const RELATIVE_FLOOR = 0.1;
+const FLOORS: Record<AnomalyMeasure, number> = {
+  duration: 1,
+  credits: 0.01,
+  failures: 1,
+};
+
+const round = (value: number) => parseFloat(value.toFixed(4));
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+const hourOfWeek = (ms: number) => {
+  const date = new Date(ms);
+  return date.getUTCDay() * 24 + date.getUTCHours();
+};
+
+function score(
+  measure: AnomalyMeasure,
+  value: number,
+  history: number[],
+  baseline: BaselineMode,
+): AnomalyScore {
+  const expected = median(history);
+  const mad = median(history.map((v) => Math.abs(v - expected)));
+  const scale = Math.max(
+    1.4826 * mad,
+    RELATIVE_FLOOR * Math.abs(expected),
+    FLOORS[measure],
+  );
+  return {
+    measure,
+    value: round(value),
+    expected: round(expected),
+    score: round((value - expected) / scale),
+    baseline,
+    samples: history.length,
+  };
+}
+
+/**
+ * Earlier values per baseline: all of them (rolling) and per hour of
+ * the week (seasonal), each capped at `rollingSamples`.
+ */
+class History {
+  private rolling: number[] = [];
+  private bySlot = new Map<number, number[]>();
+
+  constructor(private settings: AnomalySettings) {}
+
+  scoreAgainst(
+    measure: AnomalyMeasure,
+    value: number,
+    at: number,
+  ): AnomalyScore | null {
+    const { baseline, minSamples } = this.settings;
+    const seasonal = this.bySlot.get(hourOfWeek(at)) ?? [];
+    if (baseline === "seasonal" && seasonal.length >= minSamples) {
+      return score(measure, value, seasonal, "seasonal");
+    }
+    if (this.rolling.length >= minSamples) {
+      return score(measure, value, this.rolling, "rolling");
+    }
+    return null;
+  }
+
+  add(value: number, at: number) {
+    const cap = this.settings.rollingSamples;
+    const slot = hourOfWeek(at);
+    const seasonal = this.bySlot.get(slot) ?? [];
+    seasonal.push(value);
+    this.bySlot.set(slot, seasonal.slice(-cap));
+    this.rolling.push(value);
+    if (this.rolling.length > cap) this.rolling.shift();
+  }
+}
+
+function runValue(sample: AnomalySample, measure: "duration" | "credits") {
+  if (measure === "credits") return sample.credits;
+  return sample.status === "success" ? sample.durationSeconds : null;
+}
+
+/**
+ * Score the duration or credits of every run against the runs
+ * before it.
+ *
+ * @param samples Runs of one workflow or dataflow, in any order
+ * @param measure What to score
+ * @param settings Baseline settings
+ * @returns Scores by run id; runs without a value or enough history
+ *   are left out
+ */
+export function scoreRuns(
+  samples: AnomalySample[],
+  measure: "duration" | "credits",
+  settings: AnomalySettings = DEFAULT_ANOMALY_SETTINGS,
+): Map<string, AnomalyScore> {
+  const history = new History(settings);
+  const scores = new Map<string, AnomalyScore>();
+  for (const sample of [...samples].sort((a, b) => a.startTime - b.startTime)) {
+    const value = runValue(sample, measure);
+    if (value === null) continue;
+    const result = history.scoreAgainst(measure, value, sample.startTime);
+    if (result) scores.set(sample.id, result);
+    history.add(value, sample.startTime);
+  }
+  return scores;
+}
+
+/**
+ * Group runs into consecutive periods and score each period's
+ * failure count, credits and median duration against the periods
+ * before it.
+ *
+ * @param samples Runs of one workflow or dataflow, in any order
+ * @param periods First period start (epoch ms), period length and
+ *   number of periods; runs outside them are ignored
+ * @param settings Baseline settings
+ */
+export function scorePeriods(
+  samples: AnomalySample[],
+  periods: { start: number; periodMs: number; count: number },
+  settings: AnomalySettings = DEFAULT_ANOMALY_SETTINGS,
+) {
+  const buckets = Array.from(
+    { length: periods.count },
+    () => [] as AnomalySample[],
+  );
+  for (const sample of samples) {
+    const i = Math.floor((sample.startTime - periods.start) / periods.periodMs);
+    if (i >= 0 && i < periods.count) buckets[i].push(sample);
+  }
+
+  const histories = {
+    failures: new History(settings),
+    credits: new History(settings),
+    duration: new History(settings),
+  };
+  return buckets.map((runs, i) => {
+    const start = periods.start + i * periods.periodMs;
+    const durations = runs
+      .map((r) => runValue(r, "duration"))
+      .filter((d): d is number => d !== null);
+    const credited = runs.filter((r) => r.credits !== null);
+    const values: Record<AnomalyMeasure, number | null> = {
+      failures: runs.filter((r) => r.status === "failed").length,
+      credits:
+        credited.length > 0
+          ? round(credited.reduce((sum, r) => sum + r.credits!, 0))
+          : null,
+      duration: durations.length > 0 ? median(durations) : null,
+    };
+
+    const scores: AnomalyScore[] = [];
+    for (const measure of ["failures", "credits", "duration"] as const) {
+      const value = values[measure];
+      if (value === null) continue;
+      const result = histories[measure].scoreAgainst(measure, value, start);
+      if (result) scores.push(result);
+      histories[measure].add(value, start);
+    }
+    return {
+      start,
+      runs: runs.length,
+      failures: values.failures!,
+      credits: values.credits,
+      p50Duration: values.duration,
+      scores,
+    };
+  });
+}
+
+/**
+ * Keep a score if it reaches the threshold; twice the threshold is
+ * a high-severity anomaly.
+ */
+export function toAnomaly(
+  result: AnomalyScore | undefined,
+  settings: AnomalySettings = DEFAULT_ANOMALY_SETTINGS,
+): Anomaly | null {
+  if (!result || result.score < settings.threshold) return null;
+  return {
+    ...result,
+    severity: result.score >= 2 * settings.threshold ? "high" : "medium",
+  };
+}
+
+/**
+ * Anomalous durations and credits per run.
+ *
+ * @param samples Runs of one workflow or dataflow, in any order
+ * @param settings Baseline settings
+ * @returns Anomalies by run id, for flagged runs only
+ */
+export function runAnomalies(
+  samples: AnomalySample[],
+  settings: AnomalySettings = DEFAULT_ANOMALY_SETTINGS,
+): Map<string, Anomaly[]> {
+  const scores = {
+    duration: scoreRuns(samples, "duration", settings),
+    credits: scoreRuns(samples, "credits", settings),
+  };
+  const flagged = new Map<string, Anomaly[]>();
+  for (const sample of samples) {
+    const anomalies = [
+      toAnomaly(scores.duration.get(sample.id), settings),
+      toAnomaly(scores.credits.get(sample.id), settings),
+    ].filter((a): a is Anomaly => a !== null);
+    if (anomalies.length > 0) flagged.set(sample.id, anomalies);
+  }
+  return flagged;
+}
+
+/**
+ * Anomalous UTC days: failure count, credits or median duration well
+ * above the days before.
+ *
+ * @param samples Runs of one workflow or dataflow, in any order
+ * @param from First day of the range
+ * @param to Last day of the range
+ * @param settings Baseline settings; seasonal compares weekdays
+ */
+export function dayAnomalies(
+  samples: AnomalySample[],
+  from: Date,
+  to: Date,
+  settings: AnomalySettings = DEFAULT_ANOMALY_SETTINGS,
+): PeriodAnomalies[] {
+  const day = 24 * HOUR;
+  const start = Math.floor(from.getTime() / day) * day;
+  const count = Math.floor(to.getTime() / day) - start / day + 1;
+  return scorePeriods(samples, { start, periodMs: day, count }, settings)
+    .map(({ scores, start: periodStart, ...period }) => ({
+      start: new Date(periodStart).toISOString().split("T")[0],
+      ...period,
+      anomalies: scores
+        .map((s) => toAnomaly(s, settings))
+        .filter((a): a is Anomaly => a !== null),
+    }))
+    .filter((period) => period.anomalies.length > 0);
+}
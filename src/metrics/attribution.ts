@@ -0,0 +1,200 @@
+import { WorkflowInstance } from "../domo/schemas.js";
+import { runDurationSeconds } from "./trends.js";
+
+// ============================================================
+// PER-RUN CREDIT ATTRIBUTION
+// ============================================================
+// The credits dataset's instanceId is not always the execution id:
+// some rows carry the deployment id, some none at all. Rows are
+// matched to runs in order of confidence and each run reports the
+// method that gave it credits:
+//   exact        -> row instanceId == run id
+//   deployment   -> row instanceId == run deploymentId; split across
+//                   that deployment's runs on the row's day (or all
+//                   of its runs), weighted by duration
+//   time-overlap -> unmatched rows split across runs active on the
+//                   row's day, weighted by time overlap
+//   estimated    -> credits no run overlapped, spread evenly over
+//                   runs that got nothing else
+// Credits that cannot be placed on any run are reported as
+// `unattributed` rather than silently dropped.
+// ============================================================
+
+export type AttributionMethod =
+  "exact" | "deployment" | "time-overlap" | "estimated";
+
+export interface AttributableCreditRow {
+  // YYYY-MM-DD (UTC)
+  date: string;
+  instanceId: string | null;
+  creditsUsed: number;
+}
+
+export interface RunAttribution {
+  credits: number;
+  method: AttributionMethod;
+}
+
+export interface AttributionSummary {
+  totalCredits: number;
+  byMethod: Record<AttributionMethod, number>;
+  unattributed: number;
+}
+
+export interface AttributionResult {
+  runs: Map<string, RunAttribution>;
+  summary: AttributionSummary;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function dayOf(run: WorkflowInstance) {
+  return new Date(run.createdOn).toISOString().split("T")[0];
+}
+
+function runInterval(run: WorkflowInstance): [number, number] {
+  const start = new Date(run.createdOn).getTime();
+  const end = new Date(
+    run.completedOn || run.updatedOn || run.createdOn,
+  ).getTime();
+  // Zero-length runs still occupy a moment of their day
+  return [start, Math.max(end, start + 1000)];
+}
+
+function overlapMs(run: WorkflowInstance, date: string) {
+  const dayStart = Date.parse(`${date}T00:00:00Z`);
+  const [start, end] = runInterval(run);
+  return Math.max(0, Math.min(end, dayStart + DAY) - Math.max(start, dayStart));
+}
+
+const round = (value: number) => parseFloat(value.toFixed(4));
+
+/**
+ * Attribute a workflow's credit rows to its runs.
+ *
+ * @param runs Runs of one workflow within the analysed window
+ * @param rows Credit rows of the same workflow and window
+ */
+export function attributeCredits(
+  runs: WorkflowInstance[],
+  rows: AttributableCreditRow[],
+): AttributionResult {
+  const attributed = new Map<string, RunAttribution>();
+  const byMethod: Record<AttributionMethod, number> = {
+    exact: 0,
+    deployment: 0,
+    "time-overlap": 0,
+    estimated: 0,
+  };
+
+  // A run keeps the most confident method that gave it credits
+  const give = (
+    run: WorkflowInstance,
+    credits: number,
+    method: AttributionMethod,
+  ) => {
+    const current = attributed.get(run.id);
+    attributed.set(run.id, {
+      credits: (current?.credits ?? 0) + credits,
+      method: current?.method ?? method,
+    });
+    byMethod[method] += credits;
+  };
+
+  const split = (
+    credits: number,
+    pool: WorkflowInstance[],
+    weight: (run: WorkflowInstance) => number,
+    method: AttributionMethod,
+  ) => {
+    const weights = pool.map((run) => Math.max(weight(run), 0));
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    pool.forEach((run, i) => {
+      const share = total > 0 ? weights[i] / total : 1 / pool.length;
+      give(run, credits * share, method);
+    });
+  };
+
+  const runById = new Map(runs.map((run) => [run.id, run]));
+  const runsByDeployment = new Map<string, WorkflowInstance[]>();
+  for (const run of runs) {
+    if (!run.deploymentId) continue;
+    const group = runsByDeployment.get(run.deploymentId) ?? [];
+    group.push(run);
+    runsByDeployment.set(run.deploymentId, group);
+  }
+
+  // 1. Exact
+  const afterExact: AttributableCreditRow[] = [];
+  for (const row of rows) {
+    const run = row.instanceId ? runById.get(row.instanceId) : undefined;
+    if (run) give(run, row.creditsUsed, "exact");
+    else afterExact.push(row);
+  }
+
+  // 2. Deployment
+  const afterDeployment: AttributableCreditRow[] = [];
+  for (const row of afterExact) {
+    const candidates = (
+      row.instanceId ? (runsByDeployment.get(row.instanceId) ?? []) : []
+    ).filter((run) => attributed.get(run.id)?.method !== "exact");
+    if (candidates.length === 0) {
+      afterDeployment.push(row);
+      continue;
+    }
+    const sameDay = candidates.filter((run) => dayOf(run) === row.date);
+    split(
+      row.creditsUsed,
+      sameDay.length > 0 ? sameDay : candidates,
+      (run) => runDurationSeconds(run) ?? 1,
+      "deployment",
+    );
+  }
+
+  // 3. Time overlap — prefer runs that have nothing yet
+  let unplaced = 0;
+  for (const row of afterDeployment) {
+    const active = runs.filter((run) => overlapMs(run, row.date) > 0);
+    const unclaimed = active.filter((run) => !attributed.has(run.id));
+    const pool = unclaimed.length > 0 ? unclaimed : active;
+    if (pool.length === 0) {
+      unplaced += row.creditsUsed;
+      continue;
+    }
+    split(
+      row.creditsUsed,
+      pool,
+      (run) => overlapMs(run, row.date),
+      "time-overlap",
+    );
+  }
+
+  // 4. Estimated
+  const empty = runs.filter((run) => !attributed.has(run.id));
+  if (unplaced > 0 && empty.length > 0) {
+    split(unplaced, empty, () => 1, "estimated");
+    unplaced = 0;
+  }
+  for (const run of runs) {
+    if (!attributed.has(run.id)) {
+      attributed.set(run.id, { credits: 0, method: "estimated" });
+    }
+  }
+
+  for (const [id, value] of attributed) {
+    attributed.set(id, { ...value, credits: round(value.credits) });
+  }
+  return {
+    runs: attributed,
+    summary: {
+      totalCredits: round(rows.reduce((sum, row) => sum + row.creditsUsed, 0)),
+      byMethod: {
+        exact: round(byMethod.exact),
+        deployment: round(byMethod.deployment),
+        "time-overlap": round(byMethod["time-overlap"]),
+        estimated: round(byMethod.estimated),
+      },
+      unattributed: round(unplaced),
+    },
+  };
+}
@@ -0,0 +1,96 @@
+// ============================================================
+// TIME RANGES
+// ============================================================
+// Shared parsing of `window` (e.g. 7d) or `from` / `to` query
+// parameters (ISO dates or date-times, UTC). Routes pick their own
+// default window and limit.
+// ============================================================
+
+export class InvalidRangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidRangeError";
+  }
+}
+
+export interface TimeRange {
+  from: Date;
+  to: Date;
+  // Window shorthand the range came from (e.g. "7d"), null for from/to
+  window: string | null;
+}
+
+export interface RangeOptions {
+  // Used when neither `window` nor `from` is given, e.g. "30d"
+  defaultWindow: string;
+  // Longest span a caller may request
+  maxDays?: number;
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// "24h", "7d", "90d", ...
+function parseWindow(value: string): number {
+  const match = /^(\d+)([hd])$/.exec(value.trim());
+  if (!match || Number(match[1]) === 0) {
+    throw new InvalidRangeError(
+      `Invalid window "${value}" (use e.g. 24h, 7d, 30d, 90d)`,
+    );
+  }
+  return Number(match[1]) * (match[2] === "d" ? DAY : HOUR);
+}
+
+function parseDate(name: string, value: unknown): Date | undefined {
+  if (value === undefined || value === "") return undefined;
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) {
+    throw new InvalidRangeError(`Invalid ${name} date: "${value}"`);
+  }
+  return date;
+}
+
+/**
+ * Resolve a time range from request query parameters: either
+ * `window` (ending at `to` or now) or `from` / `to`.
+ *
+ * @param query Request query (`window`, `from`, `to`)
+ * @param options Default window and the maximum span
+ */
+export function parseTimeRange(
+  query: Record<string, unknown>,
+  { defaultWindow, maxDays }: RangeOptions,
+): TimeRange {
+  const requestedWindow = query.window ? String(query.window) : undefined;
+  if (requestedWindow && query.from) {
+    throw new InvalidRangeError("Use either `window` or `from`, not both");
+  }
+
+  const to = parseDate("to", query.to) ?? new Date();
+  const explicitFrom = parseDate("from", query.from);
+  const window = explicitFrom ? null : (requestedWindow ?? defaultWindow);
+  const from =
+    explicitFrom ?? new Date(to.getTime() - parseWindow(window as string));
+
+  if (from >= to) {
+    throw new InvalidRangeError("`from` must be before `to`");
+  }
+  if (maxDays && to.getTime() - from.getTime() > maxDays * DAY) {
+    throw new InvalidRangeError(`Range may not exceed ${maxDays} days`);
+  }
+  return { from, to, window };
+}
+
+// Reported back on responses so callers see the window actually covered
+export function describeRange(range: TimeRange) {
+  return {
+    from: range.from.toISOString(),
+    to: range.to.toISOString(),
+    window: range.window,
+  };
+}
+
+// YYYY-MM-DD (credits dataset dates)
+export function isoDate(date: Date) {
+  return date.toISOString().split("T")[0];
+}
@@ -0,0 +1,127 @@
+import { WorkflowInstance } from "../domo/schemas.js";
+import { TimeRange, isoDate } from "./range.js";
+
+// ============================================================
+// TREND BUCKETS
+// ============================================================
+// Groups runs into UTC day or hour buckets. Credits come from the
+// credits dataset, which is daily, so hourly buckets carry
+// `credits: null` rather than a made-up split.
+// ============================================================
+
+export type BucketSize = "day" | "hour";
+
+export interface TrendBucket {
+  start: string;
+  runs: number;
+  failures: number;
+  failureRate: number;
+  // Seconds, over runs that completed
+  p50Duration: number | null;
+  p95Duration: number | null;
+  credits: number | null;
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Keeps hourly requests from producing unbounded responses
+export const MAX_BUCKETS = 24 * 31;
+
+export function parseBucketSize(value: unknown): BucketSize | null {
+  if (value === undefined || value === "") return "day";
+  return value === "day" || value === "hour" ? value : null;
+}
+
+function bucketStart(ms: number, size: BucketSize) {
+  const step = size === "day" ? DAY : HOUR;
+  return Math.floor(ms / step) * step;
+}
+
+// Linear interpolation between closest ranks; `sorted` ascending
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = (p / 100) * (sorted.length - 1);
+  const low = Math.floor(rank);
+  const high = Math.ceil(rank);
+  return sorted[low] + (sorted[high] - sorted[low]) * (rank - low);
+}
+
+export function runDurationSeconds(run: WorkflowInstance): number | null {
+  if (!run.createdOn || !run.completedOn) return null;
+  const seconds =
+    (new Date(run.completedOn).getTime() - new Date(run.createdOn).getTime()) /
+    1000;
+  return seconds >= 0 ? seconds : null;
+}
+
+export function bucketCount(range: TimeRange, size: BucketSize) {
+  const step = size === "day" ? DAY : HOUR;
+  return (
+    (bucketStart(range.to.getTime(), size) -
+      bucketStart(range.from.getTime(), size)) /
+      step +
+    1
+  );
+}
+
+/**
+ * Build contiguous buckets covering `range` (empty buckets included).
+ *
+ * @param runs Runs to bucket; runs outside the range are ignored
+ * @param creditsByDate Credits per YYYY-MM-DD, or null when unavailable
+ * @param range Time range to cover
+ * @param size Bucket size
+ */
+export function buildTrend(
+  runs: WorkflowInstance[],
+  creditsByDate: Map<string, number> | null,
+  range: TimeRange,
+  size: BucketSize,
+): TrendBucket[] {
+  const step = size === "day" ? DAY : HOUR;
+  const first = bucketStart(range.from.getTime(), size);
+  const last = bucketStart(range.to.getTime(), size);
+
+  const groups = new Map<number, WorkflowInstance[]>();
+  for (let start = first; start <= last; start += step) {
+    groups.set(start, []);
+  }
+  for (const run of runs) {
+    const created = new Date(run.createdOn).getTime();
+    if (created < range.from.getTime() || created > range.to.getTime()) {
+      continue;
+    }
+    groups.get(bucketStart(created, size))?.push(run);
+  }
+
+  return Array.from(groups.entries()).map(([start, bucketRuns]) => {
+    const failures = bucketRuns.filter((r) => r.status === "FAILED").length;
+    const durations = bucketRuns
+      .map(runDurationSeconds)
+      .filter((d): d is number => d !== null)
+      .sort((a, b) => a - b);
+    const p50 = percentile(durations, 50);
+    const p95 = percentile(durations, 95);
+
+    let credits: number | null = null;
+    if (creditsByDate && size === "day") {
+      credits = parseFloat(
+        (creditsByDate.get(isoDate(new Date(start))) ?? 0).toFixed(4),
+      );
+    }
+
+    return {
+      start: new Date(start).toISOString(),
+      runs: bucketRuns.length,
+      failures,
+      failureRate:
+        bucketRuns.length > 0
+          ? parseFloat((failures / bucketRuns.length).toFixed(4))
+          : 0,
+      p50Duration: p50 === null ? null : Math.round(p50),
+      p95Duration: p95 === null ? null : Math.round(p95),
+      credits,
+    };
+  });
+}
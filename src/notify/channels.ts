@@ -0,0 +1,134 @@
+import { createHmac } from "node:crypto";
+import axios from "axios";
+import { ChannelConfig, NotifyEvent, Severity } from "./config.js";
+import { sendMail } from "./smtp.js";
+
+// ============================================================
+// NOTIFICATION CHANNELS
+// ============================================================
+// One notification, rendered per channel type:
+//   webhook  JSON { instance, event, severity, title, text, data, sentAt }
+//   slack    incoming-webhook payload { text, blocks } (mrkdwn)
+//   email    plain-text mail, "[instance] title" as subject
+// A failed delivery throws; the caller records it.
+// ============================================================
+
+const HTTP_TIMEOUT_MS = 10000;
+
+export interface Notification {
+  event: NotifyEvent | "test";
+  severity: Severity | null;
+  title: string;
+  lines: string[];
+  // Machine-readable body for webhooks (incident, summary, ...)
+  data: Record<string, unknown>;
+}
+
+const SEVERITY_MARK: Record<Severity, string> = {
+  critical: ":red_circle:",
+  high: ":large_orange_circle:",
+  medium: ":large_yellow_circle:",
+  low: ":white_circle:",
+};
+
+function webhookBody(instance: string, notification: Notification) {
+  return JSON.stringify({
+    instance,
+    event: notification.event,
+    severity: notification.severity,
+    title: notification.title,
+    text: notification.lines.join("\n"),
+    data: notification.data,
+    sentAt: new Date().toISOString(),
+  });
+}
+
+function slackBody(instance: string, notification: Notification) {
+  const mark =
+    notification.event === "resolved"
+      ? ":white_check_mark:"
+      : notification.severity
+        ? SEVERITY_MARK[notification.severity]
+        : ":information_source:";
+  const title = `${mark} *${notification.title}*`;
+  return {
+    // Fallback for clients that do not render blocks
+    text: `${title}\n${notification.lines.join("\n")}`,
+    blocks: [
+      { type: "section", text: { type: "mrkdwn", text: title } },
+      ...(notification.lines.length > 0
+        ? [
+            {
+              type: "section",
+              text: { type: "mrkdwn", text: notification.lines.join("\n") },
+            },
+          ]
+        : []),
+      {
+        type: "context",
+        elements: [
+          {
+            type: "mrkdwn",
+            text: `Domo instance *${instance}* · ${notification.event}`,
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Deliver one notification to one channel.
+ *
+ * @param instance Instance the notification is about
+ * @param channel Channel settings
+ * @param notification What to say
+ */
+export async function deliver(
+  instance: string,
+  channel: ChannelConfig,
+  notification: Notification,
+): Promise<void> {
+  switch (channel.type) {
+    case "webhook": {
+      const body = webhookBody(instance, notification);
+      const signature = channel.secret
+        ? {
+            "X-Signature-256": `sha256=${createHmac("sha256", channel.secret).update(body).digest("hex")}`,
+          }
+        : {};
+      await axios.post(channel.url, body, {
+        headers: {
+          "Content-Type": "application/json",
+          ...channel.headers,
+          ...signature,
+        },
+        timeout: HTTP_TIMEOUT_MS,
+      });
+      return;
+    }
+    case "slack":
+      await axios.post(channel.url, slackBody(instance, notification), {
+        timeout: HTTP_TIMEOUT_MS,
+      });
+      return;
+    case "email":
+      await sendMail(
+        {
+          host: channel.host,
+          port: channel.port,
+          secure: channel.secure,
+          requireTls: channel.requireTls,
+          user: channel.user,
+          password: channel.password,
+        },
+        {
+          from: channel.from,
+          to: channel.to,
+          subject: `[${instance}] ${notification.title}`,
+          text: notification.lines.join("\n"),
+        },
+      );
+      return;
+  }
+}
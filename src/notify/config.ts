@@ -0,0 +1,148 @@
+import z from "zod";
+
+// ============================================================
+// NOTIFICATION SETTINGS
+// ============================================================
+// Where incident changes and the daily digest of an instance are
+// sent (`notifications` in the instance config). Channels say how,
+// routes say what goes where:
+//   channels  webhook (generic JSON), slack (incoming webhook
+//             payload) or email (SMTP)
+//   routes    events, minimum severity, owners and workflows to
+//             match; empty filters match everything
+// Quiet hours defer everything below `bypassSeverity` until they
+// end; a route may bring its own. Within `dedupWindowMinutes` an incident
+// is announced once per channel unless its severity went up.
+// ============================================================
+
+export const SEVERITIES = ["low", "medium", "high", "critical"] as const;
+
+export type Severity = (typeof SEVERITIES)[number];
+
+export const NOTIFY_EVENTS = [
+  "opened",
+  "reopened",
+  "escalated",
+  "resolved",
+  "digest",
+] as const;
+
+export type NotifyEvent = (typeof NOTIFY_EVENTS)[number];
+
+const clock = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected a HH:MM time");
+
+export const timezoneSchema = z
+  .string()
+  .refine(
+    (tz) => {
+      try {
+        new Intl.DateTimeFormat("en-US", { timeZone: tz });
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message: "Unknown time zone" },
+  )
+  .default("UTC");
+
+const quietHoursSchema = z.object({
+  // Wraps past midnight when start > end
+  start: clock,
+  end: clock,
+  timezone: timezoneSchema,
+  bypassSeverity: z.enum(SEVERITIES).default("critical"),
+});
+
+const webhookChannelSchema = z.object({
+  type: z.literal("webhook"),
+  url: z.string().url(),
+  headers: z.record(z.string()).default({}),
+  // Signs the body as X-Signature-256: sha256=<hex HMAC>
+  secret: z.string().min(1).optional(),
+});
+
+const slackChannelSchema = z.object({
+  type: z.literal("slack"),
+  url: z.string().url(),
+});
+
+const emailChannelSchema = z.object({
+  type: z.literal("email"),
+  host: z.string().min(1),
+  port: z.coerce.number().int().positive().default(587),
+  // Implicit TLS (usually port 465); otherwise STARTTLS when offered
+  secure: z.boolean().default(false),
+  // Allow plain-text SMTP, e.g. a local stand-in without STARTTLS
+  requireTls: z.boolean().default(true),
+  user: z.string().min(1).optional(),
+  password: z.string().min(1).optional(),
+  from: z.string().min(1),
+  to: z.array(z.string().min(1)).min(1),
+});
+
+export const channelSchema = z.discriminatedUnion("type", [
+  webhookChannelSchema,
+  slackChannelSchema,
+  emailChannelSchema,
+]);
+
+const routeSchema = z.object({
+  name: z.string().min(1),
+  channels: z.array(z.string().min(1)).min(1),
+  events: z
+    .array(z.enum(NOTIFY_EVENTS))
+    .default(["opened", "reopened", "escalated"]),
+  minSeverity: z.enum(SEVERITIES).default("low"),
+  // Incident owners (names as shown on incidents)
+  owners: z.array(z.string().min(1)).default([]),
+  // Workflow or dataflow ids or names
+  workflows: z.array(z.string().min(1)).default([]),
+  quietHours: quietHoursSchema.nullish(),
+});
+
+export const notificationsSchema = z
+  .object({
+    channels: z.record(channelSchema).default({}),
+    routes: z.array(routeSchema).default([]),
+    quietHours: quietHoursSchema.nullish(),
+    dedupWindowMinutes: z.coerce.number().int().min(0).default(60),
+    // Daily digest of runs and open incidents, for routes with "digest"
+    digest: z
+      .object({
+        time: clock.default("08:00"),
+        timezone: timezoneSchema,
+        window: z
+          .string()
+          .regex(/^\d+[hd]$/, "Expected a window like 24h or 7d")
+          .default("24h"),
+      })
+      .nullish(),
+  })
+  .superRefine((config, ctx) => {
+    config.routes.forEach((route, i) => {
+      for (const channel of route.channels) {
+        if (!config.channels[channel]) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Route '${route.name}' uses unknown channel '${channel}'`,
+            path: ["routes", i, "channels"],
+          });
+        }
+      }
+    });
+  })
+  .default({});
+
+export type NotificationsConfig = z.infer<typeof notificationsSchema>;
+
+export type ChannelConfig = z.infer<typeof channelSchema>;
+
+export type NotifyRoute = NotificationsConfig["routes"][number];
+
+export type QuietHours = z.infer<typeof quietHoursSchema>;
+
+export const severityRank = (severity: string | null) =>
+  SEVERITIES.indexOf(severity as Severity);
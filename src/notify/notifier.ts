@@ -0,0 +1,685 @@
+import { getDb } from "../store/db.js";
+import {
+  ACTIVE_STATUSES,
+  Incident,
+  getIncident,
+} from "../incidents/incidents.js";
+import { cronTimes, parseCron } from "../schedules/cron.js";
+import {
+  NotificationsConfig,
+  NotifyEvent,
+  NotifyRoute,
+  QuietHours,
+  Severity,
+  severityRank,
+} from "./config.js";
+import { Notification, deliver } from "./channels.js";
+
+// ============================================================
+// NOTIFIER
+// ============================================================
+// Turns incident history (incident_events) into notifications:
+//   opened / reopened           -> "opened" / "reopened"
+//   resolved / auto_resolved    -> "resolved", only to channels that
+//                                  were told about the incident
+//   severity_changed (upwards)  -> "escalated"
+// Events are read after a per-instance cursor (notification_state),
+// so each is handled once whichever scan or person caused it; the
+// cursor starts at the newest event, not at the start of history.
+// Every attempt, sent or held back, lands in the delivery log.
+//
+// Quiet hours defer rather than drop: the notification is logged as
+// "deferred" with the time they end, and releaseDeferred sends it
+// then, unless the incident was resolved in the meantime.
+// ============================================================
+
+export type DeliveryStatus = "sent" | "failed" | "deduplicated" | "deferred";
+
+export interface Delivery {
+  id: number;
+  channel: string;
+  route: string | null;
+  event: string;
+  incidentId: string | null;
+  severity: string | null;
+  title: string;
+  status: DeliveryStatus;
+  error: string | null;
+  // Deferred deliveries not released yet
+  deferUntil: string | null;
+  createdAt: string;
+}
+
+export interface DispatchResult {
+  events: number;
+  sent: number;
+  failed: number;
+  // Held back by the dedup window
+  suppressed: number;
+  // Held back until quiet hours end
+  deferred: number;
+}
+
+export interface DeliveryListOptions {
+  status?: DeliveryStatus;
+  channel?: string;
+  limit?: number;
+}
+
+// What the daily digest reports besides the open incidents
+export interface DigestSummary {
+  window: string;
+  totalRuns: number;
+  failedRuns: number;
+  successRate: number;
+  totalWorkflows: number;
+  pausedWorkflows: number;
+}
+
+interface IncidentTarget {
+  severity: Severity | null;
+  owner: string | null;
+  entityId: string | null;
+  entityName: string | null;
+}
+
+// One notification for one channel, as logged
+interface ChannelDelivery {
+  channel: string;
+  route: string | null;
+  notification: Notification;
+  incidentId: string | null;
+  dedupKey: string | null;
+}
+
+// Incident a notification is about, deduplicated per channel
+interface DedupTarget {
+  incident: Incident;
+  // Resolutions go only where the incident was announced
+  resolved: boolean;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const emptyResult = (): DispatchResult => ({
+  events: 0,
+  sent: 0,
+  failed: 0,
+  suppressed: 0,
+  deferred: 0,
+});
+
+// "HH:MM" wall-clock time in a time zone
+function localClock(at: Date, timezone: string): string {
+  return new Intl.DateTimeFormat("en-GB", {
+    timeZone: timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).format(at);
+}
+
+// "YYYY-MM-DD" in a time zone
+function localDay(at: Date, timezone: string): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(at);
+}
+
+export function inQuietHours(quiet: QuietHours | null | undefined, at: Date) {
+  if (!quiet || quiet.start === quiet.end) return false;
+  const now = localClock(at, quiet.timezone);
+  return quiet.start < quiet.end
+    ? now >= quiet.start && now < quiet.end
+    : now >= quiet.start || now < quiet.end;
+}
+
+// When the first of the given quiet hours next ends (epoch ms)
+function quietHoursEnd(quiet: QuietHours[], now: Date): number {
+  const ends = quiet.flatMap((q) => {
+    const [hour, minute] = q.end.split(":").map(Number);
+    return cronTimes(
+      parseCron(`${minute} ${hour} * * *`),
+      now,
+      new Date(now.getTime() + 2 * DAY),
+      q.timezone,
+    ).slice(0, 1);
+  });
+  return Math.min(...ends);
+}
+
+/**
+ * Routes that take an event about the given incident (or the digest,
+ * when `target` is null).
+ *
+ * @param config Notification settings of the instance
+ * @param event Event to route
+ * @param target Incident the event is about
+ */
+export function matchingRoutes(
+  config: NotificationsConfig,
+  event: NotifyEvent,
+  target: IncidentTarget | null,
+): NotifyRoute[] {
+  return config.routes.filter((route) => {
+    if (!route.events.includes(event)) return false;
+    if (!target) return true;
+    if (severityRank(target.severity) < severityRank(route.minSeverity)) {
+      return false;
+    }
+    if (route.owners.length > 0 && !route.owners.includes(target.owner ?? "")) {
+      return false;
+    }
+    if (
+      route.workflows.length > 0 &&
+      !route.workflows.some(
+        (w) => w === target.entityId || w === target.entityName,
+      )
+    ) {
+      return false;
+    }
+    return true;
+  });
+}
+
+function fromRow(row: any): Delivery {
+  return {
+    id: row.id,
+    channel: row.channel,
+    route: row.route,
+    event: row.event,
+    incidentId: row.incident_id,
+    severity: row.severity,
+    title: row.title,
+    status: row.status,
+    error: row.error,
+    deferUntil: row.defer_until
+      ? new Date(row.defer_until).toISOString()
+      : null,
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
+
+function recordDelivery(
+  instance: string,
+  fields: {
+    channel: string;
+    route: string | null;
+    notification: Notification;
+    incidentId?: string | null;
+    dedupKey?: string | null;
+    status: DeliveryStatus;
+    error?: string | null;
+    deferUntil?: number;
+  },
+) {
+  // Deferred notifications keep what is needed to send them later
+  const deferred = fields.deferUntil !== undefined;
+  getDb()
+    .prepare(
+      `INSERT INTO notification_deliveries
+         (instance, channel, route, event, incident_id, dedup_key, severity, title, status, error, defer_until, payload, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    )
+    .run(
+      instance,
+      fields.channel,
+      fields.route,
+      fields.notification.event,
+      fields.incidentId ?? null,
+      fields.dedupKey ?? null,
+      fields.notification.severity,
+      fields.notification.title,
+      fields.status,
+      fields.error ?? null,
+      fields.deferUntil ?? null,
+      deferred ? JSON.stringify(fields.notification) : null,
+      Date.now(),
+    );
+}
+
+function lastSent(instance: string, dedupKey: string, since: number) {
+  return getDb()
+    .prepare(
+      `SELECT * FROM notification_deliveries
+       WHERE instance = ? AND dedup_key = ? AND status = 'sent' AND created_at >= ?
+       ORDER BY created_at DESC LIMIT 1`,
+    )
+    .get(instance, dedupKey, since) as any;
+}
+
+export function listDeliveries(
+  instance: string,
+  { status, channel, limit = 100 }: DeliveryListOptions = {},
+): Delivery[] {
+  const where = ["instance = ?"];
+  const params: unknown[] = [instance];
+  if (status) {
+    where.push("status = ?");
+    params.push(status);
+  }
+  if (channel) {
+    where.push("channel = ?");
+    params.push(channel);
+  }
+  return getDb()
+    .prepare(
+      `SELECT * FROM notification_deliveries WHERE ${where.join(" AND ")}
+       ORDER BY id DESC LIMIT ?`,
+    )
+    .all(...params, limit)
+    .map(fromRow);
+}
+
+// Deliver to one channel, unless it was told within the dedup window
+// at the same or a higher severity
+async function attempt(
+  instance: string,
+  config: NotificationsConfig,
+  delivery: ChannelDelivery,
+  result: DispatchResult,
+  now: Date,
+) {
+  const { channel, notification, dedupKey } = delivery;
+  const log = (status: DeliveryStatus, error?: string) =>
+    recordDelivery(instance, { ...delivery, status, error });
+
+  if (dedupKey && config.dedupWindowMinutes > 0) {
+    const previous = lastSent(
+      instance,
+      dedupKey,
+      now.getTime() - config.dedupWindowMinutes * 60 * 1000,
+    );
+    if (
+      previous &&
+      severityRank(previous.severity) >= severityRank(notification.severity)
+    ) {
+      log("deduplicated");
+      result.suppressed++;
+      return;
+    }
+  }
+
+  try {
+    await deliver(instance, config.channels[channel], notification);
+    log("sent");
+    result.sent++;
+  } catch (e: any) {
+    const error = e.response
+      ? `${e.message} - ${JSON.stringify(e.response.data ?? "")}`
+      : e.message;
+    console.warn(`Notification to ${channel} failed: ${error}`);
+    log("failed", error);
+    result.failed++;
+  }
+}
+
+// Each channel once, through the first route that is not in quiet
+// hours; if all are, deferred until the first quiet hours end
+async function send(
+  instance: string,
+  config: NotificationsConfig,
+  routes: NotifyRoute[],
+  notification: Notification,
+  dedup: DedupTarget | null,
+): Promise<DispatchResult> {
+  const result = emptyResult();
+  const now = new Date();
+  const byChannel = new Map<string, NotifyRoute[]>();
+  for (const route of routes) {
+    for (const channel of route.channels) {
+      byChannel.set(channel, [...(byChannel.get(channel) ?? []), route]);
+    }
+  }
+
+  for (const [channel, channelRoutes] of byChannel) {
+    const quiet = channelRoutes.map(
+      (route) => route.quietHours ?? config.quietHours,
+    );
+    const openAt = quiet.findIndex(
+      (q) =>
+        !q ||
+        !inQuietHours(q, now) ||
+        severityRank(notification.severity) >= severityRank(q.bypassSeverity),
+    );
+    const route = channelRoutes[Math.max(openAt, 0)];
+    // Announcements (opened, reopened, escalated) share one key
+    const announceKey = dedup ? `${channel}:${dedup.incident.dedupeKey}` : null;
+    const delivery: ChannelDelivery = {
+      channel,
+      route: route.name,
+      notification,
+      incidentId: dedup?.incident.id ?? null,
+      dedupKey: dedup?.resolved ? `${announceKey}:resolved` : announceKey,
+    };
+
+    if (dedup?.resolved && !lastSent(instance, announceKey!, 0)) {
+      continue;
+    }
+    if (openAt < 0) {
+      recordDelivery(instance, {
+        ...delivery,
+        status: "deferred",
+        deferUntil: quietHoursEnd(quiet as QuietHours[], now),
+      });
+      result.deferred++;
+      continue;
+    }
+    await attempt(instance, config, delivery, result, now);
+  }
+  return result;
+}
+
+/**
+ * Send the notifications deferred by quiet hours that have ended.
+ * Announcements of incidents resolved in the meantime, and
+ * resolutions of incidents a channel never heard about, are dropped.
+ *
+ * @param instance Instance whose deferred notifications to send
+ * @param config Its notification settings
+ * @param now Current time
+ */
+export async function releaseDeferred(
+  instance: string,
+  config: NotificationsConfig,
+  now = new Date(),
+): Promise<DispatchResult> {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `SELECT * FROM notification_deliveries
+       WHERE instance = ? AND status = 'deferred' AND defer_until <= ?
+       ORDER BY id`,
+    )
+    .all(instance, now.getTime()) as any[];
+  const result = emptyResult();
+
+  for (const row of rows) {
+    const release = (error: string | null = null) =>
+      db
+        .prepare(
+          "UPDATE notification_deliveries SET defer_until = NULL, error = ? WHERE id = ?",
+        )
+        .run(error, row.id);
+
+    const incident = row.incident_id
+      ? getIncident(instance, row.incident_id)
+      : undefined;
+    if (!config.channels[row.channel]) {
+      release("Channel no longer configured");
+      continue;
+    }
+    if (
+      row.event !== "resolved" &&
+      incident &&
+      !ACTIVE_STATUSES.includes(incident.status)
+    ) {
+      release("Incident resolved before quiet hours ended");
+      continue;
+    }
+    if (
+      row.event === "resolved" &&
+      !lastSent(instance, row.dedup_key.replace(/:resolved$/, ""), 0)
+    ) {
+      release("Incident was never announced on this channel");
+      continue;
+    }
+
+    release();
+    result.events++;
+    await attempt(
+      instance,
+      config,
+      {
+        channel: row.channel,
+        route: row.route,
+        notification: JSON.parse(row.payload),
+        incidentId: row.incident_id,
+        dedupKey: row.dedup_key,
+      },
+      result,
+      now,
+    );
+  }
+  return result;
+}
+
+function incidentNotification(
+  event: NotifyEvent,
+  incident: Incident,
+  note: string | null,
+): Notification {
+  const severity = (incident.severity as Severity) ?? null;
+  const subject =
+    incident.entityName ?? incident.entityId ?? incident.dedupeKey;
+  const verb = {
+    opened: "Incident opened",
+    reopened: "Incident reopened",
+    escalated: "Incident escalated",
+    resolved: "Incident resolved",
+    digest: "Digest",
+  }[event];
+  const lines = [
+    incident.issue,
+    `Owner: ${incident.owner ?? "Unassigned"}${incident.assignee ? ` · Assignee: ${incident.assignee}` : ""}`,
+  ];
+  if (event === "resolved") {
+    lines.push(
+      incident.resolution === "auto"
+        ? "Resolved automatically: the condition is no longer detected"
+        : "Resolved by hand",
+    );
+  } else if (incident.recommendedAction) {
+    lines.push(`Recommended: ${incident.recommendedAction}`);
+  }
+  if (typeof incident.details.dominant_error === "string") {
+    lines.push(`Error: ${incident.details.dominant_error}`);
+  }
+  if (note && event !== "opened") lines.push(`Note: ${note}`);
+  return {
+    event,
+    severity,
+    title: `[${incident.severity.toUpperCase()}] ${verb}: ${subject}`,
+    lines,
+    data: { incident },
+  };
+}
+
+// Cursor at the newest event the first time an instance is seen
+export function ensureCursor(instance: string): number {
+  const db = getDb();
+  const row = db
+    .prepare("SELECT last_event_id FROM notification_state WHERE instance = ?")
+    .get(instance) as any;
+  if (row) return row.last_event_id;
+  const newest = db
+    .prepare("SELECT COALESCE(MAX(id), 0) AS id FROM incident_events")
+    .get() as any;
+  db.prepare(
+    "INSERT INTO notification_state (instance, last_event_id) VALUES (?, ?)",
+  ).run(instance, newest.id);
+  return newest.id;
+}
+
+/**
+ * Notify routes about incident events since the last dispatch.
+ *
+ * @param instance Instance whose incidents to report on
+ * @param config Its notification settings
+ */
+export async function dispatchIncidentEvents(
+  instance: string,
+  config: NotificationsConfig,
+): Promise<DispatchResult> {
+  const db = getDb();
+  const cursor = ensureCursor(instance);
+  const events = db
+    .prepare(
+      `SELECT e.* FROM incident_events e JOIN incidents i ON i.id = e.incident_id
+       WHERE i.instance = ? AND e.id > ? ORDER BY e.id`,
+    )
+    .all(instance, cursor) as any[];
+  const result = emptyResult();
+
+  for (const e of events) {
+    let event: NotifyEvent | null = null;
+    if (e.type === "opened" || e.type === "reopened") event = e.type;
+    if (e.type === "resolved" || e.type === "auto_resolved") event = "resolved";
+    if (e.type === "severity_changed") {
+      // Noted by reconcileIncidents as "<from> → <to>"
+      const [from, to] = String(e.note ?? "").split(" → ");
+      if (severityRank(to) > severityRank(from)) event = "escalated";
+    }
+    const incident = event ? getIncident(instance, e.incident_id) : undefined;
+    if (event && incident) {
+      result.events++;
+      const routes = matchingRoutes(config, event, {
+        severity: incident.severity as Severity,
+        owner: incident.owner,
+        entityId: incident.entityId,
+        entityName: incident.entityName,
+      });
+      const sent = await send(
+        instance,
+        config,
+        routes,
+        incidentNotification(event, incident, e.note),
+        { incident, resolved: event === "resolved" },
+      );
+      result.sent += sent.sent;
+      result.failed += sent.failed;
+      result.suppressed += sent.suppressed;
+      result.deferred += sent.deferred;
+    }
+    db.prepare(
+      "UPDATE notification_state SET last_event_id = ? WHERE instance = ?",
+    ).run(e.id, instance);
+  }
+  return result;
+}
+
+/**
+ * Whether the daily digest is due: its local time has passed today
+ * and it was not sent yet today.
+ *
+ * @param instance Instance of the digest
+ * @param config Its notification settings
+ * @param now Current time
+ */
+export function isDigestDue(
+  instance: string,
+  config: NotificationsConfig,
+  now = new Date(),
+): boolean {
+  const digest = config.digest;
+  if (!digest || matchingRoutes(config, "digest", null).length === 0) {
+    return false;
+  }
+  if (localClock(now, digest.timezone) < digest.time) return false;
+  const row = getDb()
+    .prepare("SELECT last_digest_at FROM notification_state WHERE instance = ?")
+    .get(instance) as any;
+  return (
+    !row?.last_digest_at ||
+    localDay(new Date(row.last_digest_at), digest.timezone) !==
+      localDay(now, digest.timezone)
+  );
+}
+
+export async function dispatchDigest(
+  instance: string,
+  config: NotificationsConfig,
+  summary: DigestSummary,
+  incidents: Incident[],
+): Promise<DispatchResult> {
+  const bySeverity = ["critical", "high", "medium", "low"].map(
+    (s) => [s, incidents.filter((i) => i.severity === s).length] as const,
+  );
+  const lines = [
+    `Runs (${summary.window}): ${summary.totalRuns}, failed ${summary.failedRuns}, success rate ${summary.successRate}%`,
+    `Workflows: ${summary.totalWorkflows}, paused ${summary.pausedWorkflows}`,
+    `Open incidents: ${incidents.length}` +
+      (incidents.length > 0
+        ? ` (${bySeverity
+            .filter(([, n]) => n > 0)
+            .map(([s, n]) => `${n} ${s}`)
+            .join(", ")})`
+        : ""),
+    ...incidents
+      .slice(0, 10)
+      .map(
+        (i) =>
+          `• [${i.severity}] ${i.entityName ?? i.dedupeKey}: ${i.issue} (${i.status}${i.assignee ? `, ${i.assignee}` : ""})`,
+      ),
+  ];
+  const worst = incidents.reduce<Severity | null>(
+    (worst, i) =>
+      severityRank(i.severity) > severityRank(worst)
+        ? (i.severity as Severity)
+        : worst,
+    null,
+  );
+  const result = await send(
+    instance,
+    config,
+    matchingRoutes(config, "digest", null),
+    {
+      event: "digest",
+      severity: worst,
+      title: `Daily digest: ${incidents.length} open incident(s)`,
+      lines,
+      data: { summary, incidents },
+    },
+    null,
+  );
+  ensureCursor(instance);
+  getDb()
+    .prepare(
+      "UPDATE notification_state SET last_digest_at = ? WHERE instance = ?",
+    )
+    .run(Date.now(), instance);
+  return { ...result, events: 1 };
+}
+
+/**
+ * Send a test message to one channel, ignoring routes, quiet hours
+ * and deduplication. Throws when the delivery fails.
+ *
+ * @param instance Instance the channel belongs to
+ * @param config Its notification settings
+ * @param channel Channel name
+ */
+export async function sendTestNotification(
+  instance: string,
+  config: NotificationsConfig,
+  channel: string,
+): Promise<void> {
+  const notification: Notification = {
+    event: "test",
+    severity: null,
+    title: "Test notification",
+    lines: [`Channel '${channel}' of Domo instance '${instance}' works.`],
+    data: {},
+  };
+  try {
+    await deliver(instance, config.channels[channel], notification);
+    recordDelivery(instance, {
+      channel,
+      route: null,
+      notification,
+      status: "sent",
+    });
+  } catch (e: any) {
+    recordDelivery(instance, {
+      channel,
+      route: null,
+      notification,
+      status: "failed",
+      error: e.message,
+    });
+    throw e;
+  }
+}
@@ -0,0 +1,237 @@
+import net from "node:net";
+import os from "node:os";
+import tls from "node:tls";
+import { randomUUID } from "node:crypto";
+
+// ============================================================
+// SMTP
+// ============================================================
+// Just enough SMTP to hand a plain-text message to a relay:
+// EHLO, STARTTLS (or implicit TLS), AUTH PLAIN, MAIL/RCPT/DATA.
+// Works against real relays and local stand-ins (MailHog,
+// smtp4dev, `python -m aiosmtpd`) alike.
+// ============================================================
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  requireTls: boolean;
+  user?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: number,
+  ) {
+    super(message);
+    this.name = "SmtpError";
+  }
+}
+
+interface Reply {
+  code: number;
+  lines: string[];
+}
+
+// Reads multi-line replies ("250-..." continues, "250 ..." ends)
+class SmtpConnection {
+  private buffer = "";
+  private lines: string[] = [];
+  private waiting: ((reply: Reply | Error) => void) | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    // No setEncoding: the raw socket may be handed to TLS later
+    socket.on("data", (chunk: Buffer) => {
+      this.buffer += chunk.toString("utf8");
+      let index: number;
+      while ((index = this.buffer.indexOf("\r\n")) >= 0) {
+        this.lines.push(this.buffer.slice(0, index));
+        this.buffer = this.buffer.slice(index + 2);
+      }
+      this.deliver();
+    });
+    socket.on("error", (e) => this.fail(e));
+    socket.on("close", () =>
+      this.fail(new SmtpError("Connection closed by server")),
+    );
+  }
+
+  private fail(error: Error) {
+    this.failure ??= error;
+    this.deliver();
+  }
+
+  private deliver() {
+    if (!this.waiting) return;
+    const end = this.lines.findIndex((line) => line[3] !== "-");
+    if (end >= 0) {
+      const lines = this.lines.splice(0, end + 1);
+      const waiting = this.waiting;
+      this.waiting = null;
+      waiting({
+        code: Number(lines[end].slice(0, 3)),
+        lines: lines.map((l) => l.slice(4)),
+      });
+    } else if (this.failure) {
+      const waiting = this.waiting;
+      this.waiting = null;
+      waiting(this.failure);
+    }
+  }
+
+  read(): Promise<Reply> {
+    return new Promise((resolve, reject) => {
+      this.waiting = (reply) =>
+        reply instanceof Error ? reject(reply) : resolve(reply);
+      this.deliver();
+    });
+  }
+
+  async command(line: string | null, expect: number[]): Promise<Reply> {
+    if (line !== null) this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+    if (!expect.includes(reply.code)) {
+      const sent = line?.startsWith("AUTH") ? "AUTH" : line;
+      throw new SmtpError(
+        `SMTP ${sent ?? "greeting"} failed: ${reply.code} ${reply.lines.join(" ")}`,
+        reply.code,
+      );
+    }
+    return reply;
+  }
+
+  async upgrade(host: string, timeoutMs: number) {
+    const secured = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secured.once("secureConnect", resolve);
+      secured.once("error", reject);
+    });
+    secured.setTimeout(timeoutMs, () =>
+      secured.destroy(new SmtpError("SMTP timeout")),
+    );
+    this.socket.removeAllListeners("data");
+    this.socket = secured;
+    this.attach(secured);
+  }
+
+  write(data: string) {
+    this.socket.write(data);
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+function connect(options: SmtpOptions, timeoutMs: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({
+          host: options.host,
+          port: options.port,
+          servername: options.host,
+        })
+      : net.connect({ host: options.host, port: options.port });
+    socket.setTimeout(timeoutMs, () =>
+      socket.destroy(new SmtpError("SMTP timeout")),
+    );
+    socket.once(options.secure ? "secureConnect" : "connect", () =>
+      resolve(socket),
+    );
+    socket.once("error", reject);
+  });
+}
+
+// CR/LF in a header value (e.g. from a workflow name) would start a
+// header of its own
+const oneLine = (value: string) => value.replace(/[\r\n]+/g, " ").trim();
+
+// RFC 2047 for non-ASCII subjects
+function encodeHeader(value: string) {
+  const line = oneLine(value);
+  return /^[\x20-\x7e]*$/.test(line)
+    ? line
+    : `=?UTF-8?B?${Buffer.from(line, "utf8").toString("base64")}?=`;
+}
+
+const address = (value: string) =>
+  oneLine(value.match(/<([^>]+)>/)?.[1] ?? value);
+
+function formatMessage(message: MailMessage) {
+  const domain = address(message.from).split("@")[1] ?? os.hostname();
+  const headers = [
+    `From: ${oneLine(message.from)}`,
+    `To: ${message.to.map(oneLine).join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: 8bit",
+  ];
+  // Dot-stuffing: a leading "." would end the DATA section
+  const body = message.text.replace(/\r?\n/g, "\r\n").replace(/^\./gm, "..");
+  return `${headers.join("\r\n")}\r\n\r\n${body}\r\n.\r\n`;
+}
+
+/**
+ * Send one plain-text message.
+ *
+ * @param options Relay to hand the message to
+ * @param message Sender, recipients, subject and body
+ */
+export async function sendMail(
+  options: SmtpOptions,
+  message: MailMessage,
+): Promise<void> {
+  const timeoutMs = options.timeoutMs ?? 15000;
+  const conn = new SmtpConnection(await connect(options, timeoutMs));
+  try {
+    await conn.command(null, [220]);
+    const ehlo = await conn.command(`EHLO ${os.hostname()}`, [250]);
+    if (!options.secure) {
+      const offersTls = ehlo.lines.some((l) => /^STARTTLS\b/i.test(l));
+      if (offersTls) {
+        await conn.command("STARTTLS", [220]);
+        await conn.upgrade(options.host, timeoutMs);
+        await conn.command(`EHLO ${os.hostname()}`, [250]);
+      } else if (options.requireTls) {
+        throw new SmtpError(
+          `${options.host} does not offer STARTTLS; set requireTls: false to send in plain text`,
+        );
+      }
+    }
+    if (options.user) {
+      const credentials = Buffer.from(
+        `\0${options.user}\0${options.password ?? ""}`,
+      ).toString("base64");
+      await conn.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+    await conn.command(`MAIL FROM:<${address(message.from)}>`, [250]);
+    for (const to of message.to) {
+      await conn.command(`RCPT TO:<${address(to)}>`, [250, 251]);
+    }
+    await conn.command("DATA", [354]);
+    conn.write(formatMessage(message));
+    await conn.command(null, [250]);
+    await conn.command("QUIT", [221]).catch(() => undefined);
+  } finally {
+    conn.close();
+  }
+}
@@ -0,0 +1,154 @@
+import dotenv from "dotenv";
+import { listInstances } from "../domo/config.js";
+import { DomoClient, getDomoClient } from "../domo/client.js";
+import { ACTIVE_STATUSES, listIncidents } from "../incidents/incidents.js";
+import {
+  DigestSummary,
+  DispatchResult,
+  dispatchDigest,
+  dispatchIncidentEvents,
+  ensureCursor,
+  isDigestDue,
+  releaseDeferred,
+} from "./notifier.js";
+
+dotenv.config({ quiet: true });
+
+// ============================================================
+// NOTIFICATION WORKER
+// ============================================================
+// Keeps incidents and alerts flowing when nobody has the dashboard
+// open. Every pass, for each instance with notification routes:
+//   1. scan for incidents (the /api/runs-incidents scan, which
+//      opens, reopens and auto-resolves them)
+//   2. dispatch incident events since the previous pass
+//   3. send the daily digest once its time has come
+//   4. send what quiet hours deferred, once they are over
+// The scan and the digest figures come from the API as hooks, so
+// they are computed exactly as the dashboard shows them.
+//
+// Env: NOTIFY_ENABLED (default true), NOTIFY_INTERVAL_MS (5 min)
+// ============================================================
+
+export interface NotifyHooks {
+  scanIncidents(domo: DomoClient): Promise<void>;
+  summarize(domo: DomoClient, window: string): Promise<DigestSummary>;
+}
+
+export interface NotifyPassResult {
+  instance: string;
+  finishedAt: number;
+  incidents: DispatchResult | null;
+  digest: DispatchResult | null;
+  deferred: DispatchResult | null;
+  error: string | null;
+}
+
+function envMs(key: string, fallback: number) {
+  const value = Number(process.env[key]);
+  return process.env[key] && !isNaN(value) && value > 0 ? value : fallback;
+}
+
+export const notifySettings = {
+  enabled: (process.env.NOTIFY_ENABLED || "true").toLowerCase() !== "false",
+  intervalMs: envMs("NOTIFY_INTERVAL_MS", 5 * 60 * 1000),
+};
+
+export class NotifyWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private hooks: NotifyHooks | null = null;
+  private running = new Map<string, Promise<NotifyPassResult>>();
+  private lastResults = new Map<string, NotifyPassResult>();
+
+  start(hooks: NotifyHooks) {
+    this.hooks = hooks;
+    if (this.timer || !notifySettings.enabled) return;
+    if (!listInstances().some((i) => i.notifications.routes.length > 0)) {
+      return;
+    }
+    console.error(
+      `Notification worker started (every ${notifySettings.intervalMs}ms)`,
+    );
+    const tick = () => {
+      this.notifyAll().catch((e) =>
+        console.error(`Notification pass failed: ${e.message}`),
+      );
+    };
+    tick();
+    this.timer = setInterval(tick, notifySettings.intervalMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  notifyAll() {
+    return Promise.all(
+      listInstances()
+        .filter((i) => i.notifications.routes.length > 0)
+        .map((i) => this.notifyInstance(i.name)),
+    );
+  }
+
+  // Concurrent calls for the same instance share one pass
+  notifyInstance(name: string, scan = true): Promise<NotifyPassResult> {
+    const pending = this.running.get(name);
+    if (pending) return pending;
+
+    const promise = this.runPass(name, scan).finally(() =>
+      this.running.delete(name),
+    );
+    this.running.set(name, promise);
+    return promise;
+  }
+
+  private async runPass(
+    name: string,
+    scan: boolean,
+  ): Promise<NotifyPassResult> {
+    const domo = getDomoClient(name);
+    const config = domo.instance.notifications;
+    const result: NotifyPassResult = {
+      instance: name,
+      finishedAt: 0,
+      incidents: null,
+      digest: null,
+      deferred: null,
+      error: null,
+    };
+    try {
+      // Before the first scan, so the incidents it opens are announced
+      ensureCursor(name);
+      if (scan && this.hooks) await this.hooks.scanIncidents(domo);
+      result.incidents = await dispatchIncidentEvents(name, config);
+      if (this.hooks && config.digest && isDigestDue(name, config)) {
+        result.digest = await dispatchDigest(
+          name,
+          config,
+          await this.hooks.summarize(domo, config.digest.window),
+          listIncidents(name, { status: ACTIVE_STATUSES }),
+        );
+      }
+      result.deferred = await releaseDeferred(name, config);
+    } catch (e: any) {
+      result.error = e.message;
+      console.error(`Notifications ${name} failed: ${e.message}`);
+    }
+    result.finishedAt = Date.now();
+    this.lastResults.set(name, result);
+    return result;
+  }
+
+  lastPass(name: string) {
+    return this.lastResults.get(name) ?? null;
+  }
+}
+
+let worker: NotifyWorker | null = null;
+
+export function getNotifyWorker(): NotifyWorker {
+  if (!worker) worker = new NotifyWorker();
+  return worker;
+}
@@ -0,0 +1,137 @@
+import z from "zod";
+
+// ============================================================
+// CREDIT PRICING
+// ============================================================
+// Converts credits to money per instance (`pricing` in the instance
+// config). A rate is the price of one credit and is resolved per
+// credit row, most specific first:
+//   skus[skuId] -> entityTypes[entityType] -> defaultRate
+// At each level the contract period covering the row's date, if any,
+// wins over the base rate, so a period only needs to list what its
+// contract changed. E.g. with base skus { a: 0.03 }, defaultRate
+// 0.04 and a period that only sets defaultRate 0.035, SKU a stays at
+// 0.03 inside the period and every other row costs 0.035.
+// ============================================================
+
+const isoDay = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date");
+
+const rate = z.coerce.number().nonnegative();
+
+const periodSchema = z
+  .object({
+    name: z.string().optional(),
+    start: isoDay,
+    // Inclusive; open-ended when omitted
+    end: isoDay.optional(),
+    defaultRate: rate.optional(),
+    entityTypes: z.record(rate).default({}),
+    skus: z.record(rate).default({}),
+  })
+  .refine((p) => !p.end || p.start <= p.end, {
+    message: "start must not be after end",
+    path: ["end"],
+  });
+
+export const pricingSchema = z
+  .object({
+    currency: z.string().min(1).default("USD"),
+    defaultRate: rate.default(0.04),
+    entityTypes: z.record(rate).default({}),
+    skus: z.record(rate).default({}),
+    periods: z.array(periodSchema).default([]),
+  })
+  .default({});
+
+export type PricingConfig = z.infer<typeof pricingSchema>;
+
+// Credits of one entity on one day for one SKU
+export interface SkuCreditRow {
+  entityId: string;
+  date: string;
+  skuId: string | null;
+  usageQuantity: number;
+  creditsUsed: number;
+}
+
+export interface CreditCost {
+  credits: number;
+  cost: number;
+  usageQuantity: number;
+}
+
+export const roundCost = (value: number) => parseFloat(value.toFixed(4));
+
+// Latest-starting period that covers `date`
+export function activePeriod(pricing: PricingConfig, date: string) {
+  let match: PricingConfig["periods"][number] | undefined;
+  for (const period of pricing.periods) {
+    if (period.start > date || (period.end && period.end < date)) continue;
+    if (!match || period.start >= match.start) match = period;
+  }
+  return match;
+}
+
+/**
+ * Price of one credit for a credit row.
+ *
+ * @param pricing Pricing of the row's instance
+ * @param date Row date (YYYY-MM-DD)
+ * @param entityType Row entity type, e.g. "Workflow" or "AI Agent"
+ * @param skuId Row SKU, if any
+ */
+export function rateFor(
+  pricing: PricingConfig,
+  date: string,
+  entityType: string,
+  skuId: string | null,
+): number {
+  const period = activePeriod(pricing, date);
+  return (
+    (skuId != null
+      ? (period?.skus[skuId] ?? pricing.skus[skuId])
+      : undefined) ??
+    period?.entityTypes[entityType] ??
+    pricing.entityTypes[entityType] ??
+    period?.defaultRate ??
+    pricing.defaultRate
+  );
+}
+
+/**
+ * Sum credits, usage and cost per entity.
+ *
+ * @param pricing Pricing of the rows' instance
+ * @param entityType Entity type of every row
+ * @param rows Credit rows split by entity, day and SKU
+ */
+export function costByEntity(
+  pricing: PricingConfig,
+  entityType: string,
+  rows: SkuCreditRow[],
+): Map<string, CreditCost> {
+  const totals = new Map<string, CreditCost>();
+  for (const row of rows) {
+    const total = totals.get(row.entityId) ?? {
+      credits: 0,
+      cost: 0,
+      usageQuantity: 0,
+    };
+    total.credits += row.creditsUsed;
+    total.usageQuantity += row.usageQuantity;
+    total.cost +=
+      row.creditsUsed * rateFor(pricing, row.date, entityType, row.skuId);
+    totals.set(row.entityId, total);
+  }
+  return totals;
+}
+
+// Average price per credit of a costed total, for splitting its cost
+// over runs in proportion to their attributed credits
+export function effectiveRate(pricing: PricingConfig, total?: CreditCost) {
+  return total && total.credits > 0
+    ? total.cost / total.credits
+    : pricing.defaultRate;
+}
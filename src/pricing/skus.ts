@@ -0,0 +1,110 @@
+import { PricingConfig, SkuCreditRow, rateFor, roundCost } from "./pricing.js";
+
+// ============================================================
+// SKU BREAKDOWN
+// ============================================================
+// Each credits-dataset row carries a skuId naming the task type or
+// AI feature that consumed credits. Providers of AI SKUs are read
+// from the instance's `skuProviders` (exact skuId) first, then from
+// the built-in patterns below; anything else is billed by Domo.
+// Token SKUs are recognised by name; every other SKU's usage
+// quantity counts requests.
+// ============================================================
+
+const PROVIDER_PATTERNS: [RegExp, string][] = [
+  [/azure[-_]?openai/i, "Azure OpenAI"],
+  [/openai|gpt/i, "OpenAI"],
+  [/anthropic|claude/i, "Anthropic"],
+  [/bedrock/i, "Amazon Bedrock"],
+  [/gemini|vertex|google/i, "Google"],
+  [/mistral/i, "Mistral"],
+  [/llama|(^|[-_])meta([-_]|$)/i, "Meta"],
+  [/cohere/i, "Cohere"],
+  [/^ai[-_]|[-_]ai[-_]|agent|llm|genai/i, "Domo AI"],
+];
+
+// What a SKU's usageQuantity counts
+export type SkuUnit = "input_tokens" | "output_tokens" | "tokens" | "requests";
+
+export function skuUnit(skuId: string | null): SkuUnit {
+  if (!skuId || !/token/i.test(skuId)) return "requests";
+  if (/input|prompt|[-_]in([-_]|$)/i.test(skuId)) return "input_tokens";
+  if (/output|completion|[-_]out([-_]|$)/i.test(skuId)) return "output_tokens";
+  return "tokens";
+}
+
+export interface SkuUsage {
+  skuId: string | null;
+  provider: string;
+  unit: SkuUnit;
+  credits: number;
+  cost: number;
+  usageQuantity: number;
+  // Fraction of the breakdown's credits
+  share: number;
+}
+
+export function skuProvider(
+  skuId: string | null,
+  overrides: Record<string, string> = {},
+): string {
+  if (!skuId) return "Domo";
+  if (overrides[skuId]) return overrides[skuId];
+  return (
+    PROVIDER_PATTERNS.find(([pattern]) => pattern.test(skuId))?.[1] ?? "Domo"
+  );
+}
+
+/**
+ * Credits, usage and cost per SKU, largest first.
+ *
+ * @param pricing Pricing of the rows' instance
+ * @param entityType Entity type of every row
+ * @param rows Credit rows split by entity, day and SKU
+ * @param overrides skuId -> provider from the instance config
+ */
+export function skuBreakdown(
+  pricing: PricingConfig,
+  entityType: string,
+  rows: SkuCreditRow[],
+  overrides: Record<string, string> = {},
+): SkuUsage[] {
+  const bySku = new Map<string | null, SkuUsage>();
+  for (const row of rows) {
+    const usage = bySku.get(row.skuId) ?? {
+      skuId: row.skuId,
+      provider: skuProvider(row.skuId, overrides),
+      unit: skuUnit(row.skuId),
+      credits: 0,
+      cost: 0,
+      usageQuantity: 0,
+      share: 0,
+    };
+    usage.credits += row.creditsUsed;
+    usage.usageQuantity += row.usageQuantity;
+    usage.cost +=
+      row.creditsUsed * rateFor(pricing, row.date, entityType, row.skuId);
+    bySku.set(row.skuId, usage);
+  }
+
+  const total = rows.reduce((sum, row) => sum + row.creditsUsed, 0);
+  return Array.from(bySku.values())
+    .map((usage) => ({
+      ...usage,
+      credits: roundCost(usage.credits),
+      cost: roundCost(usage.cost),
+      usageQuantity: roundCost(usage.usageQuantity),
+      share: total > 0 ? roundCost(usage.credits / total) : 0,
+    }))
+    .sort((a, b) => b.credits - a.credits);
+}
+
+// Model provider behind the most credits; platform ("Domo") SKUs
+// only count when no AI SKU was used
+export function dominantProvider(breakdown: SkuUsage[]): string | null {
+  return (
+    breakdown.find((usage) => usage.provider !== "Domo")?.provider ??
+    breakdown[0]?.provider ??
+    null
+  );
+}
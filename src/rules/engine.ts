@@ -0,0 +1,429 @@
+import z from "zod";
+import { SEVERITIES, Severity } from "../notify/config.js";
+import {
+  Facts,
+  RuleContext,
+  RuleEntity,
+  RuleEntityType,
+  getMetric,
+} from "./metrics.js";
+
+// ============================================================
+// INCIDENT RULES
+// ============================================================
+// Declarative incident detection (`incidentRules` in the instance
+// config, JSON or YAML). A rule raises an incident for every
+// workflow or dataflow in its scope whose metric (metrics.ts)
+// passes the threshold:
+//
+//   - id: slow-invoices
+//     metric: duration_ratio
+//     params: { recentHours: 24 }
+//     when: { op: ">=", value: 3 }
+//     severity: [{ min: 5, severity: high }, { severity: medium }]
+//     scope: { owners: [Finance Team], folders: [billing] }
+//
+// DEFAULT_RULES (failure rate, run anomalies, missed schedules,
+// orphaned workflows) always load; a configured rule with the same
+// id is merged over the default, so `{ id: failure-rate, enabled:
+// false }` turns it off. Search results rarely carry a folder, so
+// `folders` also match tags.
+// ============================================================
+
+const entityTypeSchema = z.enum(["workflow", "dataflow"]);
+
+const names = z.array(z.string().min(1)).default([]);
+
+const scopeSchema = z
+  .object({
+    // Defaults to every type the metric supports
+    entityTypes: z.array(entityTypeSchema).min(1).optional(),
+    // Workflow or dataflow ids or names
+    workflows: names,
+    owners: names,
+    folders: names,
+    // Only entities with a schedule-triggered run in the window
+    scheduledOnly: z.boolean().default(false),
+    exclude: z
+      .object({ workflows: names, owners: names, folders: names })
+      .default({}),
+  })
+  .default({});
+
+const bandSchema = z.object({
+  min: z.number().optional(),
+  max: z.number().optional(),
+  severity: z.enum(SEVERITIES),
+});
+
+export const ruleSchema = z
+  .object({
+    id: z
+      .string()
+      .regex(
+        /^[a-z0-9][a-z0-9_-]*$/i,
+        "Use letters, digits, '-' and '_' in rule ids",
+      ),
+    name: z.string().min(1).optional(),
+    enabled: z.boolean().default(true),
+    metric: z.string().refine(
+      (name) => getMetric(name) !== undefined,
+      (name) => ({
+        message: `Unknown metric '${name}'`,
+      }),
+    ),
+    params: z.record(z.unknown()).default({}),
+    when: z.object({
+      op: z.enum([">", ">=", "<", "<=", "=="]).default(">"),
+      value: z.number(),
+    }),
+    // One severity, or bands checked in order (first match wins)
+    severity: z
+      .union([z.enum(SEVERITIES), z.array(bandSchema).min(1)])
+      .default("medium"),
+    // Entities with fewer runs in the window are not evaluated
+    minRuns: z.number().int().min(0).default(1),
+    scope: scopeSchema,
+    // Template: {name} {type} {owner} {window} {value} {percent} and
+    // the metric's facts; the metric's own text when omitted
+    issue: z.string().min(1).optional(),
+    recommendedAction: z.string().min(1).optional(),
+  })
+  .superRefine((rule, ctx) => {
+    const metric = getMetric(rule.metric);
+    if (!metric) return;
+    const params = metric.params.safeParse(rule.params);
+    if (!params.success) {
+      for (const issue of params.error.issues) {
+        ctx.addIssue({ ...issue, path: ["params", ...issue.path] });
+      }
+    }
+    const unsupported = (rule.scope.entityTypes ?? []).filter(
+      (t) => !metric.entityTypes.includes(t),
+    );
+    if (unsupported.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Metric '${rule.metric}' does not support ${unsupported.join(", ")}`,
+        path: ["scope", "entityTypes"],
+      });
+    }
+  });
+
+export type IncidentRule = z.infer<typeof ruleSchema>;
+
+export const DEFAULT_RULES: IncidentRule[] = [
+  {
+    id: "failure-rate",
+    name: "High failure rate",
+    metric: "failure_rate",
+    when: { op: ">", value: 0.1 },
+    severity: [
+      { min: 0.5, severity: "critical" },
+      { min: 0.3, severity: "high" },
+      { min: 0.2, severity: "medium" },
+      { severity: "low" },
+    ],
+  },
+  // Robust z-scores of the last 24h, see metrics/anomalies.ts. The
+  // failure count is compared per day, and a 7d scan holds six
+  // earlier days
+  ...(
+    [
+      ["duration", "Run duration anomaly"],
+      ["credits", "Credit consumption anomaly"],
+      ["failures", "Failure count anomaly"],
+    ] as const
+  ).map(([measure, name]) => ({
+    id: `${measure}-anomaly`,
+    name,
+    metric: "anomaly_score",
+    params: measure === "failures" ? { measure, minSamples: 5 } : { measure },
+    when: { op: ">=", value: 3.5 },
+    severity: [{ min: 7, severity: "high" }, { severity: "medium" }],
+    minRuns: 10,
+    scope: measure === "credits" ? { entityTypes: ["workflow"] } : {},
+  })),
+  // Among the newest three expected runs, see schedules/detect.ts
+  {
+    id: "missed-schedule",
+    name: "Missed scheduled runs",
+    metric: "schedule_events",
+    params: { type: "missed" },
+    when: { op: ">=", value: 1 },
+    severity: [{ min: 3, severity: "high" }, { severity: "medium" }],
+    minRuns: 0,
+  },
+  {
+    id: "late-schedule",
+    name: "Late scheduled runs",
+    metric: "schedule_events",
+    params: { type: "late" },
+    when: { op: ">=", value: 2 },
+    severity: "low",
+    minRuns: 0,
+  },
+  {
+    id: "duplicate-schedule",
+    name: "Duplicate scheduled runs",
+    metric: "schedule_events",
+    params: { type: "duplicate" },
+    when: { op: ">=", value: 1 },
+    severity: "low",
+    minRuns: 0,
+  },
+  {
+    id: "orphaned",
+    name: "Orphaned workflow",
+    metric: "owner_missing",
+    when: { op: "==", value: 1 },
+    severity: "medium",
+    scope: { entityTypes: ["workflow"] },
+  },
+].map((rule) => ruleSchema.parse(rule));
+
+/**
+ * Validate one configured rule, merged over the rule it overrides.
+ *
+ * @param entry Rule as written in the config (partial for overrides)
+ * @param base Existing rule with the same id, if any
+ */
+export function parseRule(entry: Record<string, unknown>, base?: IncidentRule) {
+  return ruleSchema.safeParse(base ? { ...base, ...entry } : entry);
+}
+
+/**
+ * Merge configured rules over the defaults and validate them.
+ *
+ * @param configured Rules as written in the config
+ */
+export function resolveRules(configured: Record<string, unknown>[]): {
+  rules: IncidentRule[];
+  issues: z.ZodIssue[];
+} {
+  const rules = new Map(DEFAULT_RULES.map((r) => [r.id, r]));
+  const issues: z.ZodIssue[] = [];
+  configured.forEach((entry, i) => {
+    const parsed = parseRule(entry, rules.get(String(entry.id)));
+    if (parsed.success) {
+      rules.set(parsed.data.id, parsed.data);
+    } else {
+      issues.push(
+        ...parsed.error.issues.map((issue) => ({
+          ...issue,
+          path: [i, ...issue.path],
+        })),
+      );
+    }
+  });
+  return { rules: Array.from(rules.values()), issues };
+}
+
+export const incidentRulesSchema = z
+  .array(z.record(z.unknown()))
+  .default([])
+  .transform((configured, ctx) => {
+    const { rules, issues } = resolveRules(configured);
+    issues.forEach((issue) => ctx.addIssue(issue));
+    return rules;
+  });
+
+// ---------------- EVALUATION ----------------
+export interface RuleEvaluation {
+  rule: IncidentRule;
+  // Dedupe key of the incident the rule raises for the entity
+  key: string;
+  entityType: RuleEntityType;
+  entityId: string;
+  entityName: string;
+  owner: string | null;
+  // null when the metric could not be computed (or minRuns not met)
+  value: number | null;
+  matched: boolean;
+  severity: Severity | null;
+  issue: string | null;
+  recommendedAction: string;
+  facts: Facts;
+  evidenceAt: number | null;
+  skipped: string | null;
+}
+
+const matchesName = (list: string[], entity: Pick<RuleEntity, "id" | "name">) =>
+  list.includes(entity.id) || list.includes(entity.name);
+
+const sharesFolder = (list: string[], folders: string[]) =>
+  list.some((folder) => folders.includes(folder));
+
+/**
+ * Whether an entity falls in a rule's scope, on what is known before
+ * its runs are loaded.
+ *
+ * @param rule Rule to check
+ * @param entity Workflow or dataflow
+ */
+export function inScope(
+  rule: IncidentRule,
+  entity: Pick<RuleEntity, "type" | "id" | "name" | "owner" | "folders">,
+): boolean {
+  const { scope } = rule;
+  const types = scope.entityTypes ?? getMetric(rule.metric)?.entityTypes ?? [];
+  if (!types.includes(entity.type)) return false;
+  if (scope.workflows.length > 0 && !matchesName(scope.workflows, entity)) {
+    return false;
+  }
+  if (scope.owners.length > 0 && !scope.owners.includes(entity.owner ?? "")) {
+    return false;
+  }
+  if (
+    scope.folders.length > 0 &&
+    !sharesFolder(scope.folders, entity.folders)
+  ) {
+    return false;
+  }
+  return !(
+    matchesName(scope.exclude.workflows, entity) ||
+    scope.exclude.owners.includes(entity.owner ?? "") ||
+    sharesFolder(scope.exclude.folders, entity.folders)
+  );
+}
+
+// Rules that predate the engine keep their incidents' keys
+export function incidentKey(
+  rule: IncidentRule,
+  entity: Pick<RuleEntity, "type" | "id">,
+) {
+  if (rule.id === "failure-rate") {
+    return entity.type === "workflow"
+      ? `inc_${entity.id}`
+      : `inc_dataflow_${entity.id}`;
+  }
+  if (rule.id === "orphaned" && entity.type === "workflow") {
+    return `inc_orphan_${entity.id}`;
+  }
+  return `inc_rule_${rule.id}_${entity.type}_${entity.id}`;
+}
+
+function compare(value: number, op: IncidentRule["when"]["op"], to: number) {
+  switch (op) {
+    case ">":
+      return value > to;
+    case ">=":
+      return value >= to;
+    case "<":
+      return value < to;
+    case "<=":
+      return value <= to;
+    case "==":
+      return value === to;
+  }
+}
+
+function severityOf(rule: IncidentRule, value: number): Severity {
+  if (typeof rule.severity === "string") return rule.severity;
+  const band = rule.severity.find(
+    (b) =>
+      (b.min === undefined || value >= b.min) &&
+      (b.max === undefined || value <= b.max),
+  );
+  return band?.severity ?? "low";
+}
+
+function render(template: string, values: Facts) {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name) =>
+    values[name] !== undefined && values[name] !== null
+      ? String(values[name])
+      : placeholder,
+  );
+}
+
+const isScheduled = (entity: RuleEntity) =>
+  entity.runs.some((r) => r.trigger?.toLowerCase().includes("schedule"));
+
+/**
+ * Evaluate one rule for one entity, or null when the entity is out
+ * of the rule's scope.
+ *
+ * @param rule Rule to evaluate
+ * @param entity Workflow or dataflow with its runs in the window
+ * @param context Scan time and window
+ */
+export async function evaluateRule(
+  rule: IncidentRule,
+  entity: RuleEntity,
+  context: RuleContext,
+): Promise<RuleEvaluation | null> {
+  const metric = getMetric(rule.metric);
+  if (!metric || !inScope(rule, entity)) return null;
+  if (rule.scope.scheduledOnly && !isScheduled(entity)) return null;
+
+  const evaluation: RuleEvaluation = {
+    rule,
+    key: incidentKey(rule, entity),
+    entityType: entity.type,
+    entityId: entity.id,
+    entityName: entity.name,
+    owner: entity.owner,
+    value: null,
+    matched: false,
+    severity: null,
+    issue: null,
+    recommendedAction:
+      rule.recommendedAction ?? metric.recommendedAction(entity),
+    facts: {},
+    evidenceAt: null,
+    skipped: null,
+  };
+  if (entity.runs.length < rule.minRuns) {
+    evaluation.skipped = `${entity.runs.length} run(s), rule needs ${rule.minRuns}`;
+    return evaluation;
+  }
+  const result = await metric.evaluate(
+    entity,
+    metric.params.parse(rule.params),
+    context,
+  );
+  if (!result) {
+    evaluation.skipped = "Not enough data for the metric";
+    return evaluation;
+  }
+
+  evaluation.value = result.value;
+  evaluation.facts = result.facts;
+  evaluation.evidenceAt = result.evidenceAt;
+  evaluation.matched = compare(result.value, rule.when.op, rule.when.value);
+  if (evaluation.matched) {
+    evaluation.severity = severityOf(rule, result.value);
+    evaluation.issue = rule.issue
+      ? render(rule.issue, {
+          ...result.facts,
+          name: entity.name,
+          type: entity.type,
+          owner: entity.owner,
+          window: context.windowLabel,
+          value: result.value,
+          percent: Math.round(result.value * 100),
+        })
+      : metric.issue(result, entity, context);
+  }
+  return evaluation;
+}
+
+/**
+ * Evaluate every enabled rule for one entity.
+ *
+ * @param rules Rules of the entity's instance
+ * @param entity Workflow or dataflow with its runs in the window
+ * @param context Scan time and window
+ */
+export async function evaluateRules(
+  rules: IncidentRule[],
+  entity: RuleEntity,
+  context: RuleContext,
+): Promise<RuleEvaluation[]> {
+  const evaluations = await Promise.all(
+    rules
+      .filter((rule) => rule.enabled)
+      .map((rule) => evaluateRule(rule, entity, context)),
+  );
+  return evaluations.filter((e): e is RuleEvaluation => e !== null);
+}
@@ -0,0 +1,476 @@
+import z from "zod";
+import { TimeRange } from "../metrics/range.js";
+import {
+  AnomalySample,
+  AnomalyScore,
+  DEFAULT_ANOMALY_SETTINGS,
+  scorePeriods,
+  scoreRuns,
+} from "../metrics/anomalies.js";
+import {
+  ScheduleDefinition,
+  checkSchedule,
+  recentEvents,
+} from "../schedules/detect.js";
+
+// ============================================================
+// RULE METRICS
+// ============================================================
+// The measurements incident rules compare against a threshold.
+// Each metric computes one number for one workflow or dataflow
+// from its runs in the scan window (plus facts for the issue text),
+// or null when it cannot tell (e.g. too few runs for a baseline).
+// New metrics are added with registerMetric; rules refer to them by
+// name, see engine.ts.
+//
+// Baseline metrics split the window at `recentHours` before now:
+// runs after it are compared with the runs before it.
+// ============================================================
+
+export type RuleEntityType = "workflow" | "dataflow";
+
+export type RuleRunStatus = "success" | "failed" | "running" | "other";
+
+export interface RuleRun {
+  id: string;
+  status: RuleRunStatus;
+  // Epoch ms; null for runs that have not started
+  startTime: number | null;
+  durationSeconds: number | null;
+  trigger: string | null;
+}
+
+export interface RuleEntity {
+  type: RuleEntityType;
+  id: string;
+  name: string;
+  owner: string | null;
+  // Metadata folder first, then tags (as the workflow list shows it)
+  folders: string[];
+  // Newest first, within the scan window
+  runs: RuleRun[];
+  // Attributed credits per run id, loaded on first use (workflows only)
+  credits?: () => Promise<Map<string, number>>;
+  // Declared schedule from the instance config (workflows only)
+  schedule?: ScheduleDefinition | null;
+}
+
+export interface RuleContext {
+  now: Date;
+  range: TimeRange;
+  // "the last 7d", for issue texts
+  windowLabel: string;
+}
+
+export type Facts = Record<string, string | number | null>;
+
+export interface MetricResult {
+  value: number;
+  facts: Facts;
+  // Newest occurrence of what the metric measures, for reopening
+  evidenceAt: number | null;
+}
+
+export interface MetricDefinition<P extends z.ZodTypeAny = z.ZodTypeAny> {
+  description: string;
+  entityTypes: RuleEntityType[];
+  params: P;
+  // Counts failed runs; incidents get the failures' error signatures
+  failureBased?: boolean;
+  evaluate(
+    entity: RuleEntity,
+    params: z.infer<P>,
+    context: RuleContext,
+  ): MetricResult | null | Promise<MetricResult | null>;
+  // Default issue text when a rule does not bring its own
+  issue(result: MetricResult, entity: RuleEntity, context: RuleContext): string;
+  recommendedAction(entity: RuleEntity): string;
+}
+
+const metrics = new Map<string, MetricDefinition>();
+
+export function registerMetric<P extends z.ZodTypeAny>(
+  name: string,
+  definition: MetricDefinition<P>,
+) {
+  metrics.set(name, definition as MetricDefinition);
+}
+
+export function getMetric(name: string): MetricDefinition | undefined {
+  return metrics.get(name);
+}
+
+export function listMetrics() {
+  return Array.from(metrics.entries()).map(([name, m]) => ({
+    name,
+    description: m.description,
+    entityTypes: m.entityTypes,
+  }));
+}
+
+const HOUR = 60 * 60 * 1000;
+
+const round = (value: number) => parseFloat(value.toFixed(4));
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+const newestStart = (runs: RuleRun[]) =>
+  runs.find((r) => r.startTime !== null)?.startTime ?? null;
+
+function splitAtRecent(runs: RuleRun[], recentHours: number, now: Date) {
+  const cutoff = now.getTime() - recentHours * HOUR;
+  return {
+    recent: runs.filter((r) => r.startTime !== null && r.startTime >= cutoff),
+    baseline: runs.filter((r) => r.startTime !== null && r.startTime < cutoff),
+  };
+}
+
+const baselineParams = z.object({
+  recentHours: z.number().positive().default(24),
+  minRecentRuns: z.number().int().positive().default(1),
+  minBaselineRuns: z.number().int().positive().default(5),
+});
+
+const failureAction = (entity: RuleEntity) =>
+  entity.type === "workflow"
+    ? "Review recent error logs and check workflow configuration"
+    : "Review the dataflow's execution log and its input datasets";
+
+// ---------------- BUILT-IN METRICS ----------------
+registerMetric("failure_rate", {
+  description: "Share of runs in the window that failed (0-1)",
+  entityTypes: ["workflow", "dataflow"],
+  params: z.object({}),
+  failureBased: true,
+  evaluate(entity) {
+    if (entity.runs.length === 0) return null;
+    const failed = entity.runs.filter((r) => r.status === "failed");
+    return {
+      value: round(failed.length / entity.runs.length),
+      facts: { runs: entity.runs.length, failed: failed.length },
+      evidenceAt: newestStart(failed),
+    };
+  },
+  issue: (result, _, context) =>
+    `High failure rate: ${Math.round(result.value * 100)}% over ${result.facts.runs} runs in ${context.windowLabel}`,
+  recommendedAction: failureAction,
+});
+
+registerMetric("failed_runs", {
+  description: "Number of failed runs in the window",
+  entityTypes: ["workflow", "dataflow"],
+  params: z.object({}),
+  failureBased: true,
+  evaluate(entity) {
+    const failed = entity.runs.filter((r) => r.status === "failed");
+    return {
+      value: failed.length,
+      facts: { runs: entity.runs.length, failed: failed.length },
+      evidenceAt: newestStart(failed),
+    };
+  },
+  issue: (result, _, context) =>
+    `${result.value} failed runs in ${context.windowLabel}`,
+  recommendedAction: failureAction,
+});
+
+registerMetric("consecutive_failures", {
+  description: "Failed runs in a row, counting back from the newest",
+  entityTypes: ["workflow", "dataflow"],
+  params: z.object({}),
+  failureBased: true,
+  evaluate(entity) {
+    const finished = entity.runs.filter(
+      (r) => r.status === "success" || r.status === "failed",
+    );
+    const streak = finished.findIndex((r) => r.status !== "failed");
+    const count = streak === -1 ? finished.length : streak;
+    return {
+      value: count,
+      facts: { streak: count },
+      evidenceAt: count > 0 ? finished[0].startTime : null,
+    };
+  },
+  issue: (result) => `Last ${result.value} runs failed in a row`,
+  recommendedAction: failureAction,
+});
+
+registerMetric("hours_since_success", {
+  description:
+    "Hours since the newest successful run; the whole window when none succeeded in it",
+  entityTypes: ["workflow", "dataflow"],
+  params: z.object({}),
+  evaluate(entity, _, context) {
+    const success = entity.runs.find(
+      (r) => r.status === "success" && r.startTime !== null,
+    );
+    const since = success?.startTime ?? context.range.from.getTime();
+    return {
+      value: round((context.now.getTime() - since) / HOUR),
+      facts: {
+        lastSuccess: success
+          ? new Date(success.startTime!).toISOString()
+          : null,
+      },
+      // Ongoing condition rather than a datable occurrence
+      evidenceAt: null,
+    };
+  },
+  issue: (result) =>
+    result.facts.lastSuccess
+      ? `No successful run for ${Math.round(result.value)}h (last success ${result.facts.lastSuccess})`
+      : `No successful run in the last ${Math.round(result.value)}h`,
+  recommendedAction: (entity) =>
+    `Check that the ${entity.type}'s schedule is active and its recent runs complete`,
+});
+
+registerMetric("duration_ratio", {
+  description:
+    "Median duration of recent runs over the median of earlier runs in the window",
+  entityTypes: ["workflow", "dataflow"],
+  params: baselineParams,
+  evaluate(entity, params, context) {
+    const finished = entity.runs.filter(
+      (r) => r.status === "success" && r.durationSeconds !== null,
+    );
+    const { recent, baseline } = splitAtRecent(
+      finished,
+      params.recentHours,
+      context.now,
+    );
+    if (
+      recent.length < params.minRecentRuns ||
+      baseline.length < params.minBaselineRuns
+    ) {
+      return null;
+    }
+    const recentMedian = median(recent.map((r) => r.durationSeconds!))!;
+    const baselineMedian = median(baseline.map((r) => r.durationSeconds!))!;
+    if (baselineMedian <= 0) return null;
+    return {
+      value: round(recentMedian / baselineMedian),
+      facts: {
+        recentMedianSeconds: recentMedian,
+        baselineMedianSeconds: baselineMedian,
+        recentRuns: recent.length,
+        baselineRuns: baseline.length,
+      },
+      evidenceAt: newestStart(recent),
+    };
+  },
+  issue: (result, _, context) =>
+    `Runs take ${result.value}x longer than usual: median ${result.facts.recentMedianSeconds}s vs ${result.facts.baselineMedianSeconds}s earlier in ${context.windowLabel}`,
+  recommendedAction: (entity) =>
+    `Look for growing input volumes or slow steps in the ${entity.type}'s recent runs`,
+});
+
+registerMetric("credits_per_run_ratio", {
+  description:
+    "Average credits per recent run over the average of earlier runs in the window",
+  entityTypes: ["workflow"],
+  params: baselineParams,
+  async evaluate(entity, params, context) {
+    if (!entity.credits) return null;
+    const credits = await entity.credits();
+    const attributed = entity.runs.filter((r) => credits.has(r.id));
+    const { recent, baseline } = splitAtRecent(
+      attributed,
+      params.recentHours,
+      context.now,
+    );
+    if (
+      recent.length < params.minRecentRuns ||
+      baseline.length < params.minBaselineRuns
+    ) {
+      return null;
+    }
+    const average = (runs: RuleRun[]) =>
+      runs.reduce((sum, r) => sum + credits.get(r.id)!, 0) / runs.length;
+    const recentAverage = average(recent);
+    const baselineAverage = average(baseline);
+    if (baselineAverage <= 0) return null;
+    return {
+      value: round(recentAverage / baselineAverage),
+      facts: {
+        recentCreditsPerRun: round(recentAverage),
+        baselineCreditsPerRun: round(baselineAverage),
+        recentRuns: recent.length,
+        baselineRuns: baseline.length,
+      },
+      evidenceAt: newestStart(recent),
+    };
+  },
+  issue: (result) =>
+    `Credits per run ${result.value}x the usual: ${result.facts.recentCreditsPerRun} vs ${result.facts.baselineCreditsPerRun}`,
+  recommendedAction: () =>
+    "Check recent changes to the workflow for extra AI or connector calls",
+});
+
+const anomalyParams = z.object({
+  measure: z.enum(["duration", "credits", "failures"]).default("duration"),
+  recentHours: z.number().positive().default(24),
+  baseline: z.enum(["rolling", "seasonal"]).default("rolling"),
+  minSamples: z.number().int().positive().default(8),
+});
+
+const MEASURE_LABELS = {
+  duration: "Run duration",
+  credits: "Credits per run",
+  failures: "Failure count",
+};
+
+registerMetric("anomaly_score", {
+  description:
+    "Robust z-score (median/MAD, see metrics/anomalies.ts) of the most anomalous recent run's duration or credits, or of the failures in the latest recentHours, against earlier runs in the window",
+  entityTypes: ["workflow", "dataflow"],
+  params: anomalyParams,
+  async evaluate(entity, params, context) {
+    const credits =
+      params.measure === "credits"
+        ? await entity.credits?.()
+        : new Map<string, number>();
+    if (!credits) return null;
+    const samples: AnomalySample[] = entity.runs
+      .filter((r) => r.startTime !== null)
+      .map((r) => ({
+        id: r.id,
+        startTime: r.startTime!,
+        status:
+          r.status === "success" || r.status === "failed" ? r.status : "other",
+        durationSeconds: r.durationSeconds,
+        credits: credits.get(r.id) ?? null,
+      }));
+    const settings = {
+      ...DEFAULT_ANOMALY_SETTINGS,
+      baseline: params.baseline,
+      minSamples: params.minSamples,
+    };
+    const periodMs = params.recentHours * HOUR;
+    const now = context.now.getTime();
+
+    let worst: AnomalyScore | null = null;
+    let evidenceAt: number | null = null;
+    if (params.measure === "failures") {
+      // Periods of recentHours ending now; the latest against the rest
+      const count = Math.floor((now - context.range.from.getTime()) / periodMs);
+      if (count < 2) return null;
+      const periods = scorePeriods(
+        samples,
+        { start: now - count * periodMs, periodMs, count },
+        settings,
+      );
+      worst =
+        periods[count - 1].scores.find((s) => s.measure === "failures") ?? null;
+      evidenceAt = newestStart(
+        entity.runs.filter(
+          (r) => r.status === "failed" && r.startTime! >= now - periodMs,
+        ),
+      );
+    } else {
+      const recent = new Set(
+        samples.filter((s) => s.startTime >= now - periodMs).map((s) => s.id),
+      );
+      for (const [id, result] of scoreRuns(samples, params.measure, settings)) {
+        if (recent.has(id) && (!worst || result.score > worst.score)) {
+          worst = result;
+          evidenceAt = samples.find((s) => s.id === id)!.startTime;
+        }
+      }
+    }
+    if (!worst) return null;
+    return {
+      value: worst.score,
+      facts: {
+        measure: params.measure,
+        observed: worst.value,
+        expected: worst.expected,
+        baseline: worst.baseline,
+        samples: worst.samples,
+        recentHours: params.recentHours,
+      },
+      evidenceAt,
+    };
+  },
+  issue: (result) => {
+    const { measure, observed, expected, recentHours } = result.facts;
+    const unit = measure === "duration" ? "s" : "";
+    const what =
+      measure === "failures"
+        ? `${observed} failures in the last ${recentHours}h`
+        : `${observed}${unit} in the last ${recentHours}h`;
+    return `${MEASURE_LABELS[measure as keyof typeof MEASURE_LABELS]} anomaly: ${what} vs usual ${expected}${unit} (score ${result.value})`;
+  },
+  recommendedAction: (entity) =>
+    `Compare the flagged runs with earlier ones in the ${entity.type}'s run timeline before the drift turns into failures`,
+});
+
+registerMetric("schedule_events", {
+  description:
+    "Missed, late or duplicate runs among the newest expected runs of a scheduled workflow (declared or inferred cadence, see schedules/detect.ts)",
+  entityTypes: ["workflow"],
+  params: z.object({
+    type: z.enum(["missed", "late", "duplicate"]).default("missed"),
+    lastSlots: z.number().int().positive().default(3),
+  }),
+  evaluate(entity, params, context) {
+    const runs = entity.runs
+      .filter((r) => r.startTime !== null)
+      .map((r) => ({ id: r.id, startTime: r.startTime!, trigger: r.trigger }));
+    const check = checkSchedule(runs, entity.schedule ?? null, {
+      from: context.range.from,
+      now: context.now,
+    });
+    if ("reason" in check || check.slots.length === 0) return null;
+    const events = recentEvents(check, params.lastSlots, params.type);
+    return {
+      value: events.length,
+      facts: {
+        type: params.type,
+        slots: Math.min(params.lastSlots, check.slots.length),
+        source: check.cadence.source,
+        intervalMinutes: check.cadence.intervalMinutes,
+        maxDelayMinutes: Math.max(0, ...events.map((e) => e.delayMinutes ?? 0)),
+        lastRun: check.lastRunAt
+          ? new Date(check.lastRunAt).toISOString()
+          : null,
+        stopped: check.stopped ? "yes" : "no",
+      },
+      evidenceAt: events.at(-1)?.expectedAt ?? null,
+    };
+  },
+  issue: (result) => {
+    const f = result.facts;
+    const cadence = `every ${f.intervalMinutes} min, ${f.source === "definition" ? "declared" : "inferred from past runs"}`;
+    if (f.type === "late") {
+      return `${result.value} of the last ${f.slots} scheduled runs started late, up to ${f.maxDelayMinutes} min (${cadence})`;
+    }
+    if (f.type === "duplicate") {
+      return `${result.value} of the last ${f.slots} scheduled runs ran more than once (${cadence})`;
+    }
+    return f.stopped === "yes"
+      ? `Schedule stopped: missed the last ${result.value} scheduled runs, last run ${f.lastRun ?? "not in the window"} (${cadence})`
+      : `Missed ${result.value} of the last ${f.slots} scheduled runs (${cadence})`;
+  },
+  recommendedAction: () =>
+    "Check the workflow's schedule triggers (active, not duplicated) and its deployed version",
+});
+
+registerMetric("owner_missing", {
+  description: "1 when nobody owns the workflow or dataflow, else 0",
+  entityTypes: ["workflow", "dataflow"],
+  params: z.object({}),
+  evaluate(entity) {
+    return {
+      value: entity.owner ? 0 : 1,
+      facts: {},
+      evidenceAt: null,
+    };
+  },
+  issue: (_, entity) => `Orphaned ${entity.type}: no owner assigned`,
+  recommendedAction: () => "Assign owner for governance compliance",
+});
@@ -0,0 +1,171 @@
+// ============================================================
+// CRON SCHEDULES
+// ============================================================
+// Standard 5-field cron (minute hour day-of-month month
+// day-of-week) with *, lists, ranges, steps and JAN-DEC / SUN-SAT
+// names, evaluated in an IANA time zone. As in cron, a restricted
+// day-of-month and day-of-week match when either does.
+// ============================================================
+
+export class CronError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CronError";
+  }
+}
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  daysRestricted: boolean;
+  weekdaysRestricted: boolean;
+}
+
+const MONTHS = "JAN FEB MAR APR MAY JUN JUL AUG SEP OCT NOV DEC".split(" ");
+const WEEKDAYS = "SUN MON TUE WED THU FRI SAT".split(" ");
+
+const MINUTE = 60 * 1000;
+
+function parseValue(value: string, names: string[] | null, offset: number) {
+  const named = names?.indexOf(value.toUpperCase()) ?? -1;
+  if (named >= 0) return named + offset;
+  if (!/^\d+$/.test(value)) throw new CronError(`Invalid value '${value}'`);
+  return Number(value);
+}
+
+function parseField(
+  field: string,
+  min: number,
+  max: number,
+  names: string[] | null = null,
+  offset = 0,
+): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new CronError(`Invalid step in '${part}'`);
+    }
+    let from = min;
+    let to = max;
+    if (range !== "*") {
+      const [start, end] = range.split("-");
+      from = parseValue(start, names, offset);
+      // "5/15" runs from 5 to the end of the range
+      to =
+        end !== undefined
+          ? parseValue(end, names, offset)
+          : stepText !== undefined
+            ? max
+            : from;
+    }
+    if (from < min || to > max || from > to) {
+      throw new CronError(`'${part}' is outside ${min}-${max}`);
+    }
+    for (let v = from; v <= to; v += step) values.add(v);
+  }
+  return values;
+}
+
+/**
+ * Parse a 5-field cron expression.
+ *
+ * @param expression e.g. "0 6 * * MON-FRI"
+ * @throws CronError when the expression is invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new CronError(`Expected 5 fields, got ${fields.length}`);
+  }
+  const [minute, hour, day, month, weekday] = fields;
+  const weekdays = parseField(weekday, 0, 7, WEEKDAYS);
+  // 7 is Sunday too
+  if (weekdays.delete(7)) weekdays.add(0);
+  return {
+    minutes: parseField(minute, 0, 59),
+    hours: parseField(hour, 0, 23),
+    days: parseField(day, 1, 31),
+    months: parseField(month, 1, 12, MONTHS, 1),
+    weekdays,
+    daysRestricted: !day.startsWith("*"),
+    weekdaysRestricted: !weekday.startsWith("*"),
+  };
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Offset of the time zone from UTC at the given instant, in ms
+function zoneOffset(ms: number, timezone: string) {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+    });
+    formatters.set(timezone, formatter);
+  }
+  const parts = Object.fromEntries(
+    formatter.formatToParts(new Date(ms)).map((p) => [p.type, Number(p.value)]),
+  );
+  const local = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+  );
+  return local - Math.floor(ms / MINUTE) * MINUTE;
+}
+
+function matches(schedule: CronSchedule, local: Date) {
+  if (
+    !schedule.minutes.has(local.getUTCMinutes()) ||
+    !schedule.hours.has(local.getUTCHours()) ||
+    !schedule.months.has(local.getUTCMonth() + 1)
+  ) {
+    return false;
+  }
+  const day = schedule.days.has(local.getUTCDate());
+  const weekday = schedule.weekdays.has(local.getUTCDay());
+  if (schedule.daysRestricted && schedule.weekdaysRestricted) {
+    return day || weekday;
+  }
+  return day && weekday;
+}
+
+/**
+ * Times (epoch ms) the schedule fires in [from, to].
+ *
+ * @param schedule Parsed cron expression
+ * @param from Start of the range
+ * @param to End of the range
+ * @param timezone IANA time zone the expression is written in
+ */
+export function cronTimes(
+  schedule: CronSchedule,
+  from: Date,
+  to: Date,
+  timezone: string,
+): number[] {
+  const times: number[] = [];
+  const start = Math.ceil(from.getTime() / MINUTE) * MINUTE;
+  let offset = 0;
+  for (let t = start; t <= to.getTime(); t += MINUTE) {
+    // Zone offsets change on the quarter hour at most
+    if (t === start || t % (15 * MINUTE) === 0) {
+      offset = zoneOffset(t, timezone);
+    }
+    if (matches(schedule, new Date(t + offset))) times.push(t);
+  }
+  return times;
+}
@@ -0,0 +1,314 @@
+import z from "zod";
+import { timezoneSchema } from "../notify/config.js";
+import { CronError, cronTimes, parseCron } from "./cron.js";
+
+// ============================================================
+// MISSED SCHEDULES
+// ============================================================
+// Checks that scheduled workflows ran when they should have. The
+// expected run times come from the workflow's declared schedule
+// (`schedules` in the instance config, as the Domo responses read
+// here carry no trigger definition) or, failing that, from the
+// cadence of its schedule-triggered runs in the window.
+//
+// Every expected time is a slot, and a run belongs to the latest
+// slot that starts no more than `grace` after it. Per slot:
+//   missed     no run, `grace` after the expected time
+//   late       first run more than `grace` after the expected time
+//   duplicate  more than one run
+// A schedule whose newest two or more slots were all missed has
+// stopped.
+//
+// Inferring needs MIN_INFERENCE_RUNS runs, nearly all of them a
+// multiple of one interval apart; schedules like "weekdays at 6"
+// are not regular enough and have to be declared.
+// ============================================================
+
+export const scheduleDefinitionSchema = z.object({
+  // Workflow id or name
+  workflow: z.string().min(1),
+  cron: z.string().superRefine((cron, ctx) => {
+    try {
+      parseCron(cron);
+    } catch (e) {
+      if (!(e instanceof CronError)) throw e;
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: e.message });
+    }
+  }),
+  timezone: timezoneSchema,
+  // Defaults to 10% of the interval, at least 5 minutes
+  graceMinutes: z.number().positive().optional(),
+});
+
+export const schedulesSchema = z.array(scheduleDefinitionSchema).default([]);
+
+export type ScheduleDefinition = z.infer<typeof scheduleDefinitionSchema>;
+
+export type ScheduleEventType = "missed" | "late" | "duplicate";
+
+export interface ScheduledRun {
+  id: string;
+  // Epoch ms
+  startTime: number;
+  trigger: string | null;
+}
+
+export interface Cadence {
+  source: "definition" | "inferred";
+  cron: string | null;
+  timezone: string | null;
+  intervalMinutes: number;
+  graceMinutes: number;
+}
+
+export interface ScheduleEvent {
+  type: ScheduleEventType;
+  expectedAt: number;
+  runIds: string[];
+  // Late runs only
+  delayMinutes: number | null;
+}
+
+export interface ScheduleCheck {
+  cadence: Cadence;
+  // Expected times whose grace has passed, oldest first
+  slots: number[];
+  onTime: number;
+  events: ScheduleEvent[];
+  lastRunAt: number | null;
+  nextExpectedAt: number | null;
+  stopped: boolean;
+}
+
+export interface UndeterminedSchedule {
+  reason: string;
+}
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+export const MIN_INFERENCE_RUNS = 6;
+// Share of gaps that must be a multiple of the interval (or ~0)
+const REGULARITY = 0.9;
+
+const round = (value: number) => parseFloat(value.toFixed(1));
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export const isScheduledTrigger = (trigger: string | null) =>
+  trigger?.toLowerCase().includes("schedule") ?? false;
+
+/**
+ * The declared schedule of a workflow, by id or name.
+ */
+export function findSchedule(
+  definitions: ScheduleDefinition[],
+  workflow: { id: string; name: string },
+): ScheduleDefinition | null {
+  return (
+    definitions.find((d) => d.workflow === workflow.id) ??
+    definitions.find((d) => d.workflow === workflow.name) ??
+    null
+  );
+}
+
+const defaultGrace = (intervalMs: number) =>
+  Math.min(Math.max(5 * MINUTE, 0.1 * intervalMs), 0.5 * intervalMs);
+
+function inferCadence(
+  starts: number[],
+): UndeterminedSchedule | { intervalMs: number; anchor: number } {
+  if (starts.length < MIN_INFERENCE_RUNS) {
+    return {
+      reason: `${starts.length} scheduled run(s) in the window; ${MIN_INFERENCE_RUNS} are needed to infer a cadence`,
+    };
+  }
+  const gaps = starts.slice(1).map((s, i) => s - starts[i]);
+  const typical = median(gaps);
+  const multiple = (gap: number) =>
+    Math.abs(gap / typical - Math.round(gap / typical)) <= 0.1;
+  const regular = gaps.filter(multiple).length / gaps.length;
+  if (typical < MINUTE || regular < REGULARITY) {
+    return {
+      reason:
+        "Runs are not regular enough to infer a cadence; declare the schedule in `schedules`",
+    };
+  }
+  const intervalMs = median(
+    gaps.filter((g) => Math.abs(g / typical - 1) <= 0.1),
+  );
+  // Phase: the median offset of the runs from a grid on the first run
+  const offsets = starts.map((s) => {
+    const offset = (s - starts[0]) % intervalMs;
+    return offset > intervalMs / 2 ? offset - intervalMs : offset;
+  });
+  return { intervalMs, anchor: starts[0] + median(offsets) };
+}
+
+function gridTimes(
+  anchor: number,
+  intervalMs: number,
+  from: number,
+  to: number,
+) {
+  const times: number[] = [];
+  const first = anchor + Math.ceil((from - anchor) / intervalMs) * intervalMs;
+  for (let t = first; t <= to; t += intervalMs) times.push(t);
+  return times;
+}
+
+/**
+ * Compare a workflow's runs with its expected run times.
+ *
+ * @param runs Runs of the workflow in the window, in any order
+ * @param definition Declared schedule, or null to infer one from the
+ *   schedule-triggered runs
+ * @param range Window start and the time of the check
+ */
+export function checkSchedule(
+  runs: ScheduledRun[],
+  definition: ScheduleDefinition | null,
+  range: { from: Date; now: Date },
+): ScheduleCheck | UndeterminedSchedule {
+  // A declared schedule also counts runs without a trigger type
+  const scheduled = runs
+    .filter((r) =>
+      definition
+        ? r.trigger === null || isScheduledTrigger(r.trigger)
+        : isScheduledTrigger(r.trigger),
+    )
+    .sort((a, b) => a.startTime - b.startTime);
+  const now = range.now.getTime();
+
+  let times: number[];
+  let upcoming: number | null;
+  let cadence: Cadence;
+  if (definition) {
+    const cron = parseCron(definition.cron);
+    times = cronTimes(cron, range.from, range.now, definition.timezone);
+    upcoming =
+      cronTimes(
+        cron,
+        range.now,
+        new Date(now + 8 * DAY),
+        definition.timezone,
+      ).find((t) => t > now) ?? null;
+    const intervalMs =
+      times.length > 1
+        ? median(times.slice(1).map((t, i) => t - times[i]))
+        : upcoming !== null && times.length === 1
+          ? upcoming - times[0]
+          : DAY;
+    cadence = {
+      source: "definition",
+      cron: definition.cron,
+      timezone: definition.timezone,
+      intervalMinutes: round(intervalMs / MINUTE),
+      graceMinutes: round(
+        definition.graceMinutes ?? defaultGrace(intervalMs) / MINUTE,
+      ),
+    };
+  } else {
+    const inferred = inferCadence(scheduled.map((r) => r.startTime));
+    if ("reason" in inferred) return inferred;
+    const { anchor, intervalMs } = inferred;
+    const grace = defaultGrace(intervalMs);
+    // Nothing is known about the schedule before its first run
+    times = gridTimes(anchor, intervalMs, scheduled[0].startTime - grace, now);
+    upcoming =
+      gridTimes(anchor, intervalMs, now + 1, now + intervalMs)[0] ?? null;
+    cadence = {
+      source: "inferred",
+      cron: null,
+      timezone: null,
+      intervalMinutes: round(intervalMs / MINUTE),
+      graceMinutes: round(grace / MINUTE),
+    };
+  }
+
+  const grace = cadence.graceMinutes * MINUTE;
+  // Slots whose grace has not passed yet are not judged
+  const slots = times.filter((t) => t + grace <= now);
+  const pending = times[slots.length];
+  const assigned = slots.map(() => [] as ScheduledRun[]);
+  let slot = -1;
+  for (const run of scheduled) {
+    if (pending !== undefined && run.startTime >= pending - grace) break;
+    while (
+      slot + 1 < slots.length &&
+      slots[slot + 1] - grace <= run.startTime
+    ) {
+      slot++;
+    }
+    // Runs before the first slot belong to none
+    if (slot >= 0) assigned[slot].push(run);
+  }
+
+  const events: ScheduleEvent[] = [];
+  let onTime = 0;
+  slots.forEach((expectedAt, i) => {
+    const slotRuns = assigned[i];
+    const runIds = slotRuns.map((r) => r.id);
+    if (slotRuns.length === 0) {
+      events.push({ type: "missed", expectedAt, runIds, delayMinutes: null });
+      return;
+    }
+    const delay = slotRuns[0].startTime - expectedAt;
+    if (delay > grace) {
+      events.push({
+        type: "late",
+        expectedAt,
+        runIds: runIds.slice(0, 1),
+        delayMinutes: round(delay / MINUTE),
+      });
+    } else {
+      onTime++;
+    }
+    if (slotRuns.length > 1) {
+      events.push({
+        type: "duplicate",
+        expectedAt,
+        runIds,
+        delayMinutes: null,
+      });
+    }
+  });
+
+  const missedAt = new Set(
+    events.filter((e) => e.type === "missed").map((e) => e.expectedAt),
+  );
+  let trailingMisses = 0;
+  for (let i = slots.length - 1; i >= 0 && missedAt.has(slots[i]); i--) {
+    trailingMisses++;
+  }
+
+  return {
+    cadence,
+    slots,
+    onTime,
+    events,
+    lastRunAt: scheduled.at(-1)?.startTime ?? null,
+    nextExpectedAt: upcoming,
+    stopped: trailingMisses >= 2,
+  };
+}
+
+/**
+ * Events among the newest expected runs.
+ *
+ * @param check Result of checkSchedule
+ * @param lastSlots How many of the newest slots to look at
+ * @param type Event type to keep
+ */
+export function recentEvents(
+  check: ScheduleCheck,
+  lastSlots: number,
+  type: ScheduleEventType,
+) {
+  const since = check.slots[Math.max(0, check.slots.length - lastSlots)];
+  return check.events.filter((e) => e.type === type && e.expectedAt >= since);
+}
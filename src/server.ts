@@ -1,8 +1,34 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
 import z from "zod";
-import axios from "axios";
 import dotenv from "dotenv";
+import { getConfig, listInstances } from "./domo/config.js";
+import { getDomoClient } from "./domo/client.js";
+import { nodeKey } from "./lineage/graph.js";
+import {
+  LINEAGE_NODE_TYPES,
+  loadLineageGraph,
+  loadWorkflowLineageGraph,
+} from "./lineage/service.js";
+import { analyzeImpact } from "./lineage/impact.js";
+import { describeRange, parseTimeRange } from "./metrics/range.js";
+import { describeGroup } from "./workflows/errors.js";
+import { failureClusters } from "./workflows/failures.js";
+import {
+  describeInstance,
+  retryInput,
+  waitForWorkflowInstance,
+} from "./workflows/instances.js";
+import {
+  dataflowRunStats,
+  toDataflowRun,
+  waitForDataflowRun,
+} from "./dataflows/executions.js";
 
 dotenv.config();
 
@@ -11,8 +37,75 @@ const server = new McpServer({
   version: "0.0.1",
 });
 
-const DOMO_DEVELOPER_TOKEN =
-  "DDCI76138cf6c0d4d712a99283d40a94e6d44a89ca1bdac63da4";
+// Every tool accepts an optional instance selector (see src/domo/config.ts)
+const instanceParam = z
+  .string()
+  .optional()
+  .describe(
+    "Name of the configured Domo instance to use (defaults to the primary instance)",
+  );
+
+/**
+ * Progress notifications for a long-running tool, if the caller asked
+ * for them. Callers reset their request timeout on each one, so a wait
+ * can outlast the default 60s MCP timeout.
+ *
+ * @param extra Request context passed to the tool handler
+ * @param totalSeconds Longest the tool will take
+ */
+function progressReporter(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  totalSeconds: number,
+) {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) return undefined;
+  return (waitedSeconds: number) =>
+    extra.sendNotification({
+      method: "notifications/progress",
+      params: { progressToken, progress: waitedSeconds, total: totalSeconds },
+    });
+}
+
+/**
+ * List the Domo instances this server is configured for.
+ */
+server.registerTool(
+  "list-instances",
+  {
+    description:
+      "List the configured Domo instances. Pass one of these names as 'instance' to any other tool.",
+    inputSchema: z.object({}),
+  },
+  async () => {
+    try {
+      const { primary } = getConfig();
+      const instances = listInstances().map((i) => ({
+        name: i.name,
+        domain: i.domain,
+        primary: i.name === primary,
+      }));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ primary, instances }, null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error reading Domo configuration: ${error.message}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
 
 /**
  * Get the list of all users from the domo. Use limit/offset to paginate. Use this to find users or count them.
@@ -23,6 +116,7 @@ const DOMO_DEVELOPER_TOKEN =
  * @param startsWith Filter users starting with this character/string
  * @param role Filter by role (e.g., 'Privileged')
  * @param id Filter by user ID
+ * @param instance (Optional) Name of the configured Domo instance
  */
 server.registerTool(
   "get-users",
@@ -51,25 +145,30 @@ server.registerTool(
         .optional()
         .describe("Filter by role (e.g., 'Privileged')"),
       id: z.string().optional().describe("Filter by user ID"),
+      instance: instanceParam,
     }),
   },
-  async ({ limit = 50, offset = 0, search, startsWith, role, id }) => {
+  async ({
+    limit = 50,
+    offset = 0,
+    search,
+    startsWith,
+    role,
+    id,
+    instance,
+  }) => {
     try {
-      const usersResponse = await axios.get(
-        "https://gwcteq-partner.domo.com/api/content/v3/users/?limit=500&offset=0&active=true",
-        {
-          headers: {
-            "X-DOMO-Developer-Token": DOMO_DEVELOPER_TOKEN,
-          },
-        },
-      );
-
-      let allUsers = usersResponse.data;
+      const domo = getDomoClient(instance);
+      let allUsers = await domo.listUsers({
+        limit: 500,
+        offset: 0,
+        active: true,
+      });
 
       // Filter by search term if provided
       if (search) {
         const term = search.toLowerCase();
-        allUsers = allUsers.filter((u: any) => {
+        allUsers = allUsers.filter((u) => {
           const nameMatch =
             (u.displayName && u.displayName.toLowerCase().includes(term)) ||
             (u.userName && u.userName.toLowerCase().includes(term)) ||
@@ -87,7 +186,7 @@ server.registerTool(
       // Filter by startsWith
       if (startsWith) {
         const term = startsWith.toLowerCase();
-        allUsers = allUsers.filter((u: any) => {
+        allUsers = allUsers.filter((u) => {
           const nameMatch =
             (u.displayName && u.displayName.toLowerCase().startsWith(term)) ||
             (u.userName && u.userName.toLowerCase().startsWith(term)) ||
@@ -101,18 +200,18 @@ server.registerTool(
       if (role) {
         const roleTerm = role.toLowerCase();
         allUsers = allUsers.filter(
-          (u: any) => u.role && u.role.toLowerCase() === roleTerm,
+          (u) => u.role && u.role.toLowerCase() === roleTerm,
         );
       }
 
       // Filter by ID
       if (id) {
-        allUsers = allUsers.filter((u: any) => String(u.id) === String(id));
+        allUsers = allUsers.filter((u) => String(u.id) === String(id));
       }
 
       // Simplify objects to save tokens
-      const simplifiedUsers = allUsers.map((u: any) => {
-        let rawEmail = u.detail?.email || u.email || u.emailAddress || "";
+      const simplifiedUsers = allUsers.map((u) => {
+        const rawEmail = u.detail?.email || u.email || u.emailAddress || "";
         // Remove _... suffix
         const email = rawEmail.split("_")[0];
 
@@ -165,6 +264,7 @@ server.registerTool(
  * @param query The search term (e.g., 'rostering')
  * @param count Number of results to return (default 100)
  * @param offset Number of results to skip (default 0)
+ * @param instance (Optional) Name of the configured Domo instance
  */
 server.registerTool(
   "search-dataflows",
@@ -180,59 +280,26 @@ server.registerTool(
         .number()
         .optional()
         .describe("Number of results to skip (default 0)"),
+      instance: instanceParam,
     }),
   },
-  async ({ query, count = 100, offset = 0 }) => {
+  async ({ query, count = 100, offset = 0, instance }) => {
     try {
-      const payload = {
-        entities: ["DATAFLOW"],
-        filters: [
-          {
-            field: "name_sort",
-            filterType: "wildcard",
-            query: `*${query}*`,
-          },
-        ],
-        combineResults: true,
-        query: "*",
-        count,
-        offset,
-        sort: {
-          isRelevance: false,
-          fieldSorts: [
-            {
-              field: "create_date",
-              sortOrder: "DESC",
-            },
-          ],
-        },
-      };
+      const domo = getDomoClient(instance);
+      const response = await domo.searchDataflows({ query, count, offset });
 
-      const response = await axios.post(
-        "https://gwcteq-partner.domo.com/api/search/v1/query",
-        payload,
-        {
-          headers: {
-            "Content-Type": "application/json",
-            "X-DOMO-Developer-Token": DOMO_DEVELOPER_TOKEN,
-          },
-        },
-      );
-
-      const simplifiedResults = (response.data.searchObjects || []).map(
-        (obj: any) => ({
-          name: obj.name,
-          databaseId: obj.databaseId,
-          inputDatasets: obj.inputDatasets?.map((ds: any) => ({
-            name: ds.name,
-            id: ds.id,
-          })),
-          outputDatasets: obj.outputDatasets?.map((ds: any) => ({
-            name: ds.name,
-            id: ds.id,
-          })),
-        }),
-      );
+      const simplifiedResults = response.searchObjects.map((obj) => ({
+        name: obj.name,
+        databaseId: obj.databaseId,
+        inputDatasets: obj.inputDatasets?.map((ds) => ({
+          name: ds.name,
+          id: ds.id,
+        })),
+        outputDatasets: obj.outputDatasets?.map((ds) => ({
+          name: ds.name,
+          id: ds.id,
+        })),
+      }));
 
       return {
         content: [
@@ -240,7 +307,7 @@ server.registerTool(
             type: "text",
             text: JSON.stringify(
               {
-                total: response.data.totalResultCount,
+                total: response.totalResultCount,
                 results: simplifiedResults,
               },
               null,
@@ -269,32 +336,28 @@ server.registerTool(
  * Trigger a Domo Dataflow execution.
  *
  * @param databaseId The ID of the dataflow to run
+ * @param instance (Optional) Name of the configured Domo instance
  */
 server.registerTool(
   "run-dataflow",
   {
-    description: "Trigger a Domo Dataflow execution.",
+    description:
+      "Trigger a Domo Dataflow execution. Returns the execution; follow it with 'wait-for-dataflow-execution'.",
     inputSchema: z.object({
       databaseId: z.string().describe("The ID of the dataflow to run"),
+      instance: instanceParam,
     }),
   },
-  async ({ databaseId }) => {
+  async ({ databaseId, instance }) => {
     try {
-      const response = await axios.post(
-        `https://gwcteq-partner.domo.com/api/dataprocessing/v1/dataflows/${databaseId}/executions`,
-        {},
-        {
-          headers: {
-            "X-DOMO-Developer-Token": DOMO_DEVELOPER_TOKEN,
-          },
-        },
-      );
+      const domo = getDomoClient(instance);
+      const response = await domo.runDataflow(databaseId);
 
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(response.data, null, 2),
+            text: JSON.stringify(response, null, 2),
           },
         ],
       };
@@ -314,12 +377,239 @@ server.registerTool(
   },
 );
 
+/**
+ * List the most recent executions of a Domo Dataflow.
+ *
+ * @param databaseId The ID of the dataflow
+ * @param limit Number of executions to return (default 25)
+ * @param offset Number of executions to skip (default 0)
+ * @param instance (Optional) Name of the configured Domo instance
+ */
+server.registerTool(
+  "list-dataflow-executions",
+  {
+    description:
+      "List the most recent executions of a Domo Dataflow (newest first) with status, duration and errors, plus success/failure counts.",
+    inputSchema: z.object({
+      databaseId: z.string().describe("The ID of the dataflow"),
+      limit: z
+        .number()
+        .optional()
+        .describe("Number of executions to return (default 25)"),
+      offset: z
+        .number()
+        .optional()
+        .describe("Number of executions to skip (default 0)"),
+      instance: instanceParam,
+    }),
+  },
+  async ({ databaseId, limit = 25, offset = 0, instance }) => {
+    try {
+      const domo = getDomoClient(instance);
+      const executions = await domo.listDataflowExecutions({
+        dataflowId: databaseId,
+        limit,
+        offset,
+      });
+      const runs = executions.map((exe) => toDataflowRun(exe, databaseId));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              { stats: dataflowRunStats(runs), runs },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    } catch (error: any) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error listing executions of dataflow ${databaseId}: ${
+              error.message
+            } - ${JSON.stringify(error.response?.data || "")}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+/**
+ * Get the status of one Domo Dataflow execution.
+ *
+ * @param databaseId The ID of the dataflow
+ * @param executionId The ID of the execution
+ * @param instance (Optional) Name of the configured Domo instance
+ */
+server.registerTool(
+  "get-dataflow-execution",
+  {
+    description:
+      "Get the status (queued, running, success, failed, cancelled), timing and error of one Domo Dataflow execution.",
+    inputSchema: z.object({
+      databaseId: z.string().describe("The ID of the dataflow"),
+      executionId: z.string().describe("The ID of the execution"),
+      instance: instanceParam,
+    }),
+  },
+  async ({ databaseId, executionId, instance }) => {
+    try {
+      const domo = getDomoClient(instance);
+      const execution = await domo.getDataflowExecution(
+        databaseId,
+        executionId,
+      );
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(toDataflowRun(execution, databaseId), null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error fetching execution ${executionId} of dataflow ${databaseId}: ${
+              error.message
+            } - ${JSON.stringify(error.response?.data || "")}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+/**
+ * Wait for a Domo Dataflow execution to finish.
+ *
+ * @param databaseId The ID of the dataflow
+ * @param executionId The ID of the execution
+ * @param timeoutSeconds Seconds to wait before giving up (default 120, max 600)
+ * @param instance (Optional) Name of the configured Domo instance
+ */
+server.registerTool(
+  "wait-for-dataflow-execution",
+  {
+    description:
+      "Wait until a Domo Dataflow execution finishes or the timeout passes. Returns the final status and whether the wait timed out.",
+    inputSchema: z.object({
+      databaseId: z.string().describe("The ID of the dataflow"),
+      executionId: z.string().describe("The ID of the execution"),
+      timeoutSeconds: z
+        .number()
+        .min(0)
+        .max(600)
+        .optional()
+        .describe("Seconds to wait before giving up (default 120, max 600)"),
+      instance: instanceParam,
+    }),
+  },
+  async (
+    { databaseId, executionId, timeoutSeconds = 120, instance },
+    extra,
+  ) => {
+    try {
+      const domo = getDomoClient(instance);
+      const result = await waitForDataflowRun(
+        domo,
+        databaseId,
+        executionId,
+        timeoutSeconds,
+        progressReporter(extra, timeoutSeconds),
+      );
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error waiting for execution ${executionId} of dataflow ${databaseId}: ${
+              error.message
+            } - ${JSON.stringify(error.response?.data || "")}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+/**
+ * Cancel a running Domo Dataflow execution.
+ *
+ * @param databaseId The ID of the dataflow
+ * @param executionId The ID of the execution
+ * @param instance (Optional) Name of the configured Domo instance
+ */
+server.registerTool(
+  "cancel-dataflow-execution",
+  {
+    description: "Cancel a queued or running Domo Dataflow execution.",
+    inputSchema: z.object({
+      databaseId: z.string().describe("The ID of the dataflow"),
+      executionId: z.string().describe("The ID of the execution to cancel"),
+      instance: instanceParam,
+    }),
+  },
+  async ({ databaseId, executionId, instance }) => {
+    try {
+      const domo = getDomoClient(instance);
+      const execution = await domo.cancelDataflowExecution(
+        databaseId,
+        executionId,
+      );
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(toDataflowRun(execution, databaseId), null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error cancelling execution ${executionId} of dataflow ${databaseId}: ${
+              error.message
+            } - ${JSON.stringify(error.response?.data || "")}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
 /**
  * Query Domo collections by name.
  *
  * @param query The search term for collection names (e.g., 'rostering_events')
  * @param pageSize Number of results to return (default 100)
  * @param pageNumber Page number to return (default 1)
+ * @param instance (Optional) Name of the configured Domo instance
  */
 server.registerTool(
   "query-collections",
@@ -339,10 +629,12 @@ server.registerTool(
         .number()
         .optional()
         .describe("Page number to return (default 1)"),
+      instance: instanceParam,
     }),
   },
-  async ({ query, pageSize = 100, pageNumber = 1 }) => {
+  async ({ query, pageSize = 100, pageNumber = 1, instance }) => {
     try {
+      const domo = getDomoClient(instance);
       const payload = {
         collectionFilteringList: [
           {
@@ -356,30 +648,19 @@ server.registerTool(
         pageNumber,
       };
 
-      const response = await axios.post(
-        "https://gwcteq-partner.domo.com/api/datastores/v1/collections/query",
-        payload,
-        {
-          headers: {
-            "Content-Type": "application/json",
-            "X-DOMO-Developer-Token": DOMO_DEVELOPER_TOKEN,
-          },
-        },
-      );
+      const response = await domo.queryCollections(payload);
 
-      const ownersMap = new Map();
-      (response.data.ownedBy || []).forEach((o: any) => {
-        ownersMap.set(String(o.ownerId), o.ownerName);
+      const ownersMap = new Map<string, string>();
+      response.ownedBy.forEach((o) => {
+        if (o.ownerName) ownersMap.set(String(o.ownerId), o.ownerName);
       });
 
-      const simplifiedCollections = (response.data.collections || []).map(
-        (c: any) => ({
-          id: c.id,
-          name: c.name,
-          createdOn: c.createdOn,
-          ownerName: ownersMap.get(String(c.owner)) || "Unknown",
-        }),
-      );
+      const simplifiedCollections = response.collections.map((c) => ({
+        id: c.id,
+        name: c.name,
+        createdOn: c.createdOn,
+        ownerName: ownersMap.get(String(c.owner)) || "Unknown",
+      }));
 
       return {
         content: [
@@ -387,7 +668,7 @@ server.registerTool(
             type: "text",
             text: JSON.stringify(
               {
-                totalCount: response.data.totalCollectionCount,
+                totalCount: response.totalCollectionCount,
                 collections: simplifiedCollections,
               },
               null,
@@ -416,6 +697,7 @@ server.registerTool(
  * Get all documents from a specific Domo collection.
  *
  * @param collectionId The ID of the collection to fetch documents from
+ * @param instance (Optional) Name of the configured Domo instance
  */
 server.registerTool(
   "get-collection-documents",
@@ -425,20 +707,15 @@ server.registerTool(
       collectionId: z
         .string()
         .describe("The ID of the collection (e.g., '18dac2f4-...')"),
+      instance: instanceParam,
     }),
   },
-  async ({ collectionId }) => {
+  async ({ collectionId, instance }) => {
     try {
-      const response = await axios.get(
-        `https://gwcteq-partner.domo.com/api/datastores/v1/collections/${collectionId}/documents`,
-        {
-          headers: {
-            "X-DOMO-Developer-Token": DOMO_DEVELOPER_TOKEN,
-          },
-        },
-      );
+      const domo = getDomoClient(instance);
+      const documents = await domo.getCollectionDocuments(collectionId);
 
-      const simplifiedDocuments = (response.data || []).map((doc: any) => ({
+      const simplifiedDocuments = documents.map((doc) => ({
         id: doc.id,
         content: doc.content,
       }));
@@ -478,6 +755,7 @@ server.registerTool(
  * @param query The search term (e.g., 'magic_rostering')
  * @param count Number of results to return (default 1000)
  * @param offset Number of results to skip (default 0)
+ * @param instance (Optional) Name of the configured Domo instance
  */
 server.registerTool(
   "search-workflows",
@@ -493,55 +771,29 @@ server.registerTool(
         .number()
         .optional()
         .describe("Number of results to skip (default 0)"),
+      instance: instanceParam,
     }),
   },
-  async ({ query, count = 1000, offset = 0 }) => {
+  async ({ query, count = 1000, offset = 0, instance }) => {
     try {
-      const payload = {
+      const domo = getDomoClient(instance);
+      const response = await domo.searchWorkflows({
         query: `*${query}*`,
-        entityList: [["workflow_model"]],
         count,
         offset,
-        sort: {
-          fieldSorts: [
-            {
-              field: "last_modified",
-              sortOrder: "DESC",
-            },
-          ],
-          isRelevance: false,
-        },
-        filters: [],
-        useEntities: true,
-        combineResults: true,
-        facetValueLimit: 1000,
-        hideSearchObjects: false,
-      };
-
-      const response = await axios.post(
-        "https://gwcteq-partner.domo.com/api/search/v1/query",
-        payload,
-        {
-          headers: {
-            "Content-Type": "application/json",
-            "X-DOMO-Developer-Token": DOMO_DEVELOPER_TOKEN,
-          },
-        },
-      );
+      });
 
-      const simplifiedResults = (response.data.searchObjects || []).map(
-        (obj: any) => ({
-          id: obj.uuid,
-          name: obj.name,
-          ownedName: obj.ownedByName,
-          type: obj.entityType,
-          active: obj.active,
-          totalVersions: obj.totalVersions,
-          deployedVersions: obj.deployedVersions,
-          createDate: obj.createDate,
-          lastModified: obj.lastModified,
-        }),
-      );
+      const simplifiedResults = response.searchObjects.map((obj) => ({
+        id: obj.uuid,
+        name: obj.name,
+        ownedName: obj.ownedByName,
+        type: obj.entityType,
+        active: obj.active,
+        totalVersions: obj.totalVersions,
+        deployedVersions: obj.deployedVersions,
+        createDate: obj.createDate,
+        lastModified: obj.lastModified,
+      }));
 
       return {
         content: [
@@ -549,7 +801,7 @@ server.registerTool(
             type: "text",
             text: JSON.stringify(
               {
-                total: response.data.totalResultCount,
+                total: response.totalResultCount,
                 results: simplifiedResults,
               },
               null,
@@ -578,6 +830,7 @@ server.registerTool(
  * Get detailed information about a specific Domo workflow model.
  *
  * @param workflowId The ID of the workflow model (e.g., '3a0a0f98-...')
+ * @param instance (Optional) Name of the configured Domo instance
  */
 server.registerTool(
   "get-workflow-model",
@@ -588,40 +841,31 @@ server.registerTool(
       workflowId: z
         .string()
         .describe("The ID of the workflow model (e.g., '3a0a0f98-...')"),
+      instance: instanceParam,
     }),
   },
-  async ({ workflowId }) => {
+  async ({ workflowId, instance }) => {
     try {
-      const response = await axios.get(
-        `https://gwcteq-partner.domo.com/api/workflow/v1/models/${workflowId}?parts=users`,
-        {
-          headers: {
-            "X-DOMO-Developer-Token": DOMO_DEVELOPER_TOKEN,
-          },
-        },
-      );
+      const domo = getDomoClient(instance);
+      const model = await domo.getWorkflowModel(workflowId, "users");
 
       const simplifiedBasicInfo = {
-        name: response.data.name,
-        id: response.data.id,
-        createdOn: response.data.createdOn,
-        updatedOn: response.data.updatedOn,
-      };
-
-      const simplifiedVersions = (response.data.versions || []).map(
-        (v: any) => ({
-          version: v.version,
-          createdOn: v.createdOn,
-          active: v.active,
-        }),
-      );
+        name: model.name,
+        id: model.id,
+        createdOn: model.createdOn,
+        updatedOn: model.updatedOn,
+      };
 
-      const simplifiedPermissions = (response.data.userPermissions || []).map(
-        (p: any) => ({
-          name: p.name,
-          permissions: p.permissions,
-        }),
-      );
+      const simplifiedVersions = (model.versions || []).map((v) => ({
+        version: v.version,
+        createdOn: v.createdOn,
+        active: v.active,
+      }));
+
+      const simplifiedPermissions = (model.userPermissions || []).map((p) => ({
+        name: p.name,
+        permissions: p.permissions,
+      }));
 
       return {
         content: [
@@ -661,6 +905,7 @@ server.registerTool(
  * @param name The name of the workflow model
  * @param description The description of the workflow model
  * @param version The initial version of the workflow model (default '1.0.0')
+ * @param instance (Optional) Name of the configured Domo instance
  */
 server.registerTool(
   "create-workflow-model",
@@ -674,32 +919,25 @@ server.registerTool(
         .optional()
         .default("1.0.0")
         .describe("The initial version (e.g., '1.0.0')"),
+      instance: instanceParam,
     }),
   },
-  async ({ name, description, version }) => {
+  async ({ name, description, version, instance }) => {
     try {
+      const domo = getDomoClient(instance);
       const data = {
         name,
         description,
         versions: [{ version }],
       };
 
-      const response = await axios.post(
-        "https://gwcteq-partner.domo.com/api/workflow/v2/models",
-        data,
-        {
-          headers: {
-            "Content-Type": "application/json",
-            "X-DOMO-Developer-Token": DOMO_DEVELOPER_TOKEN,
-          },
-        },
-      );
+      const response = await domo.createWorkflowModel(data);
 
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(response.data, null, 2),
+            text: JSON.stringify(response, null, 2),
           },
         ],
       };
@@ -726,11 +964,13 @@ server.registerTool(
  * @param version The version of the workflow model (e.g., '1.0.0')
  * @param modelId The ID of the workflow model (e.g., '6a51dd09-...')
  * @param data (Optional) An object containing any data required by the workflow message.
+ * @param instance (Optional) Name of the configured Domo instance
  */
 server.registerTool(
   "trigger-workflow-message",
   {
-    description: "Trigger a Domo workflow instance by sending a message.",
+    description:
+      "Trigger a Domo workflow instance by sending a message. Returns the instance id; follow it with 'wait-for-workflow-instance'.",
     inputSchema: z.object({
       messageName: z
         .string()
@@ -747,10 +987,12 @@ server.registerTool(
         .describe(
           'An object containing data for the workflow. Format: { key: value }. For example: { "userId": 123, "status": "active" }',
         ),
+      instance: instanceParam,
     }),
   },
-  async ({ messageName, version, modelId, data = {} }) => {
+  async ({ messageName, version, modelId, data = {}, instance }) => {
     try {
+      const domo = getDomoClient(instance);
       const payload = {
         messageName,
         version,
@@ -758,22 +1000,13 @@ server.registerTool(
         data,
       };
 
-      const response = await axios.post(
-        "https://gwcteq-partner.domo.com/api/workflow/v1/instances/message",
-        payload,
-        {
-          headers: {
-            "Content-Type": "application/json",
-            "X-DOMO-Developer-Token": DOMO_DEVELOPER_TOKEN,
-          },
-        },
-      );
+      const response = await domo.sendWorkflowMessage(payload);
 
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(response.data, null, 2),
+            text: JSON.stringify(response, null, 2),
           },
         ],
       };
@@ -796,6 +1029,478 @@ Full Error: ${error.message} - ${JSON.stringify(error.response?.data || "")}`;
   },
 );
 
+/**
+ * Get a Domo workflow instance with the status of each step.
+ *
+ * @param instanceId The ID of the workflow instance
+ * @param instance (Optional) Name of the configured Domo instance
+ */
+server.registerTool(
+  "get-workflow-instance",
+  {
+    description:
+      "Get a Domo workflow instance (one run of a workflow) by ID: status, timing, error and the status of each step.",
+    inputSchema: z.object({
+      instanceId: z.string().describe("The ID of the workflow instance"),
+      instance: instanceParam,
+    }),
+  },
+  async ({ instanceId, instance }) => {
+    try {
+      const domo = getDomoClient(instance);
+      const detail = describeInstance(
+        await domo.getWorkflowInstance(instanceId),
+      );
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(detail, null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error fetching workflow instance ${instanceId}: ${
+              error.message
+            } - ${JSON.stringify(error.response?.data || "")}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+/**
+ * Cancel a running Domo workflow instance.
+ *
+ * @param instanceId The ID of the workflow instance
+ * @param instance (Optional) Name of the configured Domo instance
+ */
+server.registerTool(
+  "cancel-workflow-instance",
+  {
+    description:
+      "Cancel a running Domo workflow instance. Returns the instance after cancelling.",
+    inputSchema: z.object({
+      instanceId: z
+        .string()
+        .describe("The ID of the workflow instance to cancel"),
+      instance: instanceParam,
+    }),
+  },
+  async ({ instanceId, instance }) => {
+    try {
+      const domo = getDomoClient(instance);
+      const before = describeInstance(
+        await domo.getWorkflowInstance(instanceId),
+      );
+      if (before.terminal) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Workflow instance ${instanceId} already finished with status ${before.status}; nothing to cancel`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      await domo.cancelWorkflowInstance(instanceId);
+      const after = describeInstance(
+        await domo.getWorkflowInstance(instanceId),
+      );
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(after, null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error cancelling workflow instance ${instanceId}: ${
+              error.message
+            } - ${JSON.stringify(error.response?.data || "")}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+/**
+ * Re-run a finished (usually failed) Domo workflow instance with the same input data.
+ *
+ * @param instanceId The ID of the workflow instance to re-run
+ * @param messageName (Optional) Start message, when the instance does not record it
+ * @param instance (Optional) Name of the configured Domo instance
+ */
+server.registerTool(
+  "retry-workflow-instance",
+  {
+    description:
+      "Re-run a finished (usually failed) Domo workflow instance by sending its start message again with the same input data. Returns the new instance id.",
+    inputSchema: z.object({
+      instanceId: z
+        .string()
+        .describe("The ID of the workflow instance to re-run"),
+      messageName: z
+        .string()
+        .optional()
+        .describe(
+          "Start message name (e.g., 'Start Ai tester'); only needed when the instance does not record it",
+        ),
+      instance: instanceParam,
+    }),
+  },
+  async ({ instanceId, messageName, instance }) => {
+    try {
+      const domo = getDomoClient(instance);
+      const original = await domo.getWorkflowInstance(instanceId);
+      const payload = retryInput(original, messageName);
+      if ("error" in payload) {
+        return {
+          content: [{ type: "text", text: payload.error }],
+          isError: true,
+        };
+      }
+
+      const response = await domo.sendWorkflowMessage(payload);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                retriedInstanceId: instanceId,
+                previousStatus: original.status,
+                newInstanceId: response.id ?? null,
+                messageName: payload.messageName,
+                modelId: payload.modelId,
+                version: payload.version,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    } catch (error: any) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error retrying workflow instance ${instanceId}: ${
+              error.message
+            } - ${JSON.stringify(error.response?.data || "")}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+/**
+ * Wait for a Domo workflow instance to reach a terminal status.
+ *
+ * @param instanceId The ID of the workflow instance
+ * @param timeoutSeconds Seconds to wait before giving up (default 120, max 600)
+ * @param instance (Optional) Name of the configured Domo instance
+ */
+server.registerTool(
+  "wait-for-workflow-instance",
+  {
+    description:
+      "Wait until a Domo workflow instance finishes (completed, failed, cancelled) or the timeout passes. Returns the final status with steps and whether the wait timed out.",
+    inputSchema: z.object({
+      instanceId: z.string().describe("The ID of the workflow instance"),
+      timeoutSeconds: z
+        .number()
+        .min(0)
+        .max(600)
+        .optional()
+        .describe("Seconds to wait before giving up (default 120, max 600)"),
+      instance: instanceParam,
+    }),
+  },
+  async ({ instanceId, timeoutSeconds = 120, instance }, extra) => {
+    try {
+      const domo = getDomoClient(instance);
+      const result = await waitForWorkflowInstance(
+        domo,
+        instanceId,
+        timeoutSeconds,
+        progressReporter(extra, timeoutSeconds),
+      );
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error waiting for workflow instance ${instanceId}: ${
+              error.message
+            } - ${JSON.stringify(error.response?.data || "")}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+/**
+ * List the top recurring failures across all workflows, clustered by error signature.
+ *
+ * @param window Window of run start times, e.g. '7d' (default 30d)
+ * @param limit Number of clusters to return (default 10)
+ * @param minOccurrences Smallest cluster to return (default 2)
+ * @param instance (Optional) Name of the configured Domo instance
+ */
+server.registerTool(
+  "get-recurring-failures",
+  {
+    description:
+      "List the top recurring workflow failures: failed runs across all workflows clustered by normalized error message (ids, timestamps and numbers stripped), with occurrence counts, affected workflows and first/last seen. Use it to find one root cause behind many failures.",
+    inputSchema: z.object({
+      window: z
+        .string()
+        .optional()
+        .describe("Window of run start times, e.g. '7d' (default 30d)"),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .optional()
+        .describe("Number of clusters to return (default 10)"),
+      minOccurrences: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("Smallest cluster to return (default 2)"),
+      instance: instanceParam,
+    }),
+  },
+  async ({ window, limit = 10, minOccurrences = 2, instance }) => {
+    try {
+      const domo = getDomoClient(instance);
+      const range = parseTimeRange(
+        { window },
+        { defaultWindow: "30d", maxDays: 366 },
+      );
+      const report = await failureClusters(domo, range, {
+        limit,
+        minOccurrences,
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                window: describeRange(range),
+                failedRuns: report.failedRuns,
+                unexplained: report.unexplained,
+                pendingDetails: report.pendingDetails,
+                clusters: report.clusters.map((c) => ({
+                  description: describeGroup(c),
+                  id: c.id,
+                  signature: c.signature,
+                  occurrences: c.count,
+                  totalOccurrences: c.totalOccurrences,
+                  workflows: c.workflows,
+                  activeDays: c.activeDays,
+                  firstSeen: c.firstSeenEver,
+                  lastSeen: c.lastSeen,
+                  sampleMessage: c.sampleMessage,
+                })),
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    } catch (error: any) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error finding recurring failures: ${
+              error.message
+            } - ${JSON.stringify(error.response?.data || "")}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+/**
+ * Get the lineage of a workflow, dataflow, dataset, card or app.
+ *
+ * @param type Entity type
+ * @param id Entity id (workflow model id, dataflow id, dataset id, ...)
+ * @param direction upstream, downstream or both (default both)
+ * @param depth Hops to follow in each direction (default 2, max 10)
+ * @param instance (Optional) Name of the configured Domo instance
+ */
+server.registerTool(
+  "get-lineage",
+  {
+    description:
+      "Get the lineage graph (nodes and edges) of a Domo workflow, dataflow, dataset, card or app, upstream and/or downstream.",
+    inputSchema: z.object({
+      type: z.enum(LINEAGE_NODE_TYPES).describe("Entity type"),
+      id: z
+        .string()
+        .describe(
+          "Entity id (workflow model id, dataflow id, dataset id, ...)",
+        ),
+      direction: z
+        .enum(["upstream", "downstream", "both"])
+        .optional()
+        .describe("Edges to follow (default both)"),
+      depth: z
+        .number()
+        .int()
+        .min(0)
+        .max(10)
+        .optional()
+        .describe("Hops to follow in each direction (default 2)"),
+      instance: instanceParam,
+    }),
+  },
+  async ({ type, id, direction = "both", depth = 2, instance }) => {
+    try {
+      const domo = getDomoClient(instance);
+      const graph =
+        type === "workflow"
+          ? await loadWorkflowLineageGraph(domo, id)
+          : await loadLineageGraph(domo);
+      const traversal = graph.traverse(nodeKey(type, id), direction, depth);
+      if (!traversal) {
+        return {
+          content: [
+            { type: "text", text: `No lineage found for ${type} ${id}` },
+          ],
+          isError: true,
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(traversal, null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error building lineage for ${type} ${id}: ${error.message}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
+/**
+ * Analyse what breaks if a workflow or dataflow fails.
+ *
+ * @param type workflow or dataflow
+ * @param id Workflow model id or dataflow id
+ * @param depth Hops to follow downstream (default 10)
+ * @param instance (Optional) Name of the configured Domo instance
+ */
+server.registerTool(
+  "analyze-impact",
+  {
+    description:
+      "List everything transitively downstream of a Domo workflow or dataflow (datasets, dataflows, workflows, cards, apps), ranked by criticality and grouped by owner. Use it to see what breaks and whom to notify when it fails.",
+    inputSchema: z.object({
+      type: z.enum(["workflow", "dataflow"]).describe("Entity type"),
+      id: z.string().describe("Workflow model id or dataflow id"),
+      depth: z
+        .number()
+        .int()
+        .min(1)
+        .max(10)
+        .optional()
+        .describe("Hops to follow downstream (default 10)"),
+      instance: instanceParam,
+    }),
+  },
+  async ({ type, id, depth = 10, instance }) => {
+    try {
+      const domo = getDomoClient(instance);
+      const graph =
+        type === "workflow"
+          ? await loadWorkflowLineageGraph(domo, id)
+          : await loadLineageGraph(domo);
+      const impact = analyzeImpact(graph, type, id, depth);
+      if (!impact) {
+        return {
+          content: [
+            { type: "text", text: `No lineage found for ${type} ${id}` },
+          ],
+          isError: true,
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(impact, null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error analysing impact of ${type} ${id}: ${error.message}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+);
+
 async function main() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
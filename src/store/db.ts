@@ -0,0 +1,220 @@
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+import dotenv from "dotenv";
+
+dotenv.config({ quiet: true });
+
+// ============================================================
+// LOCAL STORE (SQLite)
+// ============================================================
+// Snapshot of Domo data kept up to date by the sync worker
+// (src/sync/worker.ts), plus state this service owns (budgets,
+// step-level errors of failed runs, incidents and their history,
+// notification deliveries).
+// Every table is keyed by the configured instance name in
+// `instance` so one file serves all instances.
+//
+// Schema changes are appended to MIGRATIONS; the applied count is
+// tracked in PRAGMA user_version. Never edit a shipped migration.
+//
+// Env: STORE_FILE (default .data/domo-store.db)
+// ============================================================
+
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE workflows (
+    instance      TEXT NOT NULL,
+    id            TEXT NOT NULL,
+    name          TEXT,
+    owner_id      TEXT,
+    owner_name    TEXT,
+    active        INTEGER,
+    last_modified INTEGER,
+    raw           TEXT NOT NULL,
+    synced_at     INTEGER NOT NULL,
+    PRIMARY KEY (instance, id)
+  );
+
+  CREATE TABLE workflow_runs (
+    instance      TEXT NOT NULL,
+    id            TEXT NOT NULL,
+    model_id      TEXT NOT NULL,
+    deployment_id TEXT,
+    status        TEXT NOT NULL,
+    trigger_type  TEXT,
+    created_by    TEXT,
+    created_on    INTEGER NOT NULL,
+    completed_on  INTEGER,
+    raw           TEXT NOT NULL,
+    synced_at     INTEGER NOT NULL,
+    PRIMARY KEY (instance, id)
+  );
+  CREATE INDEX workflow_runs_model ON workflow_runs (instance, model_id, created_on);
+  CREATE INDEX workflow_runs_created ON workflow_runs (instance, created_on);
+
+  -- Rows of the credits dataset; instance_id is the Domo run/instance id
+  CREATE TABLE credit_usage (
+    instance       TEXT NOT NULL,
+    date           TEXT NOT NULL,
+    entity_type    TEXT,
+    entity_id      TEXT,
+    instance_id    TEXT,
+    sku_id         TEXT,
+    usage_quantity REAL,
+    credits_used   REAL
+  );
+  CREATE INDEX credit_usage_entity ON credit_usage (instance, entity_type, entity_id, date);
+  CREATE INDEX credit_usage_date ON credit_usage (instance, date);
+
+  CREATE TABLE sync_state (
+    instance          TEXT NOT NULL,
+    resource          TEXT NOT NULL,
+    last_started_at   INTEGER,
+    last_success_at   INTEGER,
+    last_full_at      INTEGER,
+    last_error        TEXT,
+    last_error_at     INTEGER,
+    items_synced      INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (instance, resource)
+  );
+  `,
+  `
+  CREATE TABLE credit_budgets (
+    id            TEXT PRIMARY KEY,
+    instance      TEXT NOT NULL,
+    scope         TEXT NOT NULL,
+    target        TEXT NOT NULL,
+    name          TEXT,
+    limit_credits REAL NOT NULL,
+    period        TEXT NOT NULL,
+    period_start  TEXT,
+    period_end    TEXT,
+    warn_at       REAL NOT NULL,
+    created_at    INTEGER NOT NULL,
+    updated_at    INTEGER NOT NULL
+  );
+  CREATE INDEX credit_budgets_instance ON credit_budgets (instance);
+  `,
+  `
+  -- Step-level error of each failed run whose details were fetched
+  CREATE TABLE run_failures (
+    instance      TEXT NOT NULL,
+    run_id        TEXT NOT NULL,
+    workflow_id   TEXT,
+    started_at    INTEGER,
+    failed_step   TEXT,
+    step_type     TEXT,
+    error_message TEXT,
+    inputs        TEXT,
+    signature_id  TEXT,
+    signature     TEXT,
+    source        TEXT NOT NULL,
+    recorded_at   INTEGER NOT NULL,
+    PRIMARY KEY (instance, run_id)
+  );
+  CREATE INDEX run_failures_signature ON run_failures (instance, signature_id, started_at);
+  CREATE INDEX run_failures_started ON run_failures (instance, started_at);
+  `,
+  `
+  CREATE TABLE incidents (
+    id                 TEXT PRIMARY KEY,
+    instance           TEXT NOT NULL,
+    dedupe_key         TEXT NOT NULL,
+    entity_type        TEXT,
+    entity_id          TEXT,
+    entity_name        TEXT,
+    owner              TEXT,
+    issue              TEXT NOT NULL,
+    severity           TEXT NOT NULL,
+    recommended_action TEXT,
+    details            TEXT,
+    status             TEXT NOT NULL,
+    assignee           TEXT,
+    opened_at          INTEGER NOT NULL,
+    acknowledged_at    INTEGER,
+    resolved_at        INTEGER,
+    resolution         TEXT,
+    reopened_at        INTEGER,
+    reopen_count       INTEGER NOT NULL DEFAULT 0,
+    last_activity      TEXT,
+    last_detected_at   INTEGER NOT NULL,
+    last_evidence_at   INTEGER,
+    last_cleared_at    INTEGER,
+    updated_at         INTEGER NOT NULL,
+    UNIQUE (instance, dedupe_key)
+  );
+  CREATE INDEX incidents_status ON incidents (instance, status, updated_at);
+
+  CREATE TABLE incident_events (
+    id          INTEGER PRIMARY KEY AUTOINCREMENT,
+    incident_id TEXT NOT NULL,
+    at          INTEGER NOT NULL,
+    type        TEXT NOT NULL,
+    actor       TEXT,
+    note        TEXT,
+    from_status TEXT,
+    to_status   TEXT
+  );
+  CREATE INDEX incident_events_incident ON incident_events (incident_id, at);
+  `,
+  `
+  CREATE TABLE notification_deliveries (
+    id          INTEGER PRIMARY KEY AUTOINCREMENT,
+    instance    TEXT NOT NULL,
+    channel     TEXT NOT NULL,
+    route       TEXT,
+    event       TEXT NOT NULL,
+    incident_id TEXT,
+    dedup_key   TEXT,
+    severity    TEXT,
+    title       TEXT NOT NULL,
+    status      TEXT NOT NULL,
+    error       TEXT,
+    created_at  INTEGER NOT NULL
+  );
+  CREATE INDEX notification_deliveries_created ON notification_deliveries (instance, created_at);
+  CREATE INDEX notification_deliveries_dedup ON notification_deliveries (instance, dedup_key, created_at);
+
+  CREATE TABLE notification_state (
+    instance       TEXT PRIMARY KEY,
+    last_event_id  INTEGER NOT NULL,
+    last_digest_at INTEGER
+  );
+  `,
+  `
+  -- Oldest time the synced rows of a resource are complete from
+  ALTER TABLE sync_state ADD COLUMN covered_from INTEGER;
+  `,
+  `
+  -- Deliveries held back by quiet hours: when to send them, and what
+  ALTER TABLE notification_deliveries ADD COLUMN defer_until INTEGER;
+  ALTER TABLE notification_deliveries ADD COLUMN payload TEXT;
+  CREATE INDEX notification_deliveries_deferred ON notification_deliveries (instance, status, defer_until);
+  `,
+];
+
+function migrate(db: Database.Database) {
+  const applied = db.pragma("user_version", { simple: true }) as number;
+  for (let version = applied; version < MIGRATIONS.length; version++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[version]);
+      db.pragma(`user_version = ${version + 1}`);
+    })();
+  }
+}
+
+let db: Database.Database | null = null;
+
+export function getDb(): Database.Database {
+  if (!db) {
+    const file = path.resolve(
+      process.env.STORE_FILE || path.join(".data", "domo-store.db"),
+    );
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    db = new Database(file);
+    db.pragma("journal_mode = WAL");
+    migrate(db);
+  }
+  return db;
+}
@@ -0,0 +1,395 @@
+import { getDb } from "./db.js";
+import { WorkflowInstance, WorkflowSearchObject } from "../domo/schemas.js";
+import { SkuCreditRow } from "../pricing/pricing.js";
+
+// ============================================================
+// STORE QUERIES
+// ============================================================
+// Reads return the same shapes the Domo client does (raw payloads
+// are kept in `raw`), so callers can swap a live fetch for a store
+// read without changing their mapping code.
+// ============================================================
+
+export type SyncResource = "workflows" | "runs" | "credits";
+
+export interface SyncState {
+  resource: SyncResource;
+  lastStartedAt: number | null;
+  lastSuccessAt: number | null;
+  lastFullAt: number | null;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  itemsSynced: number;
+  // Runs or credit rows before this were never fetched (epoch ms)
+  coveredFrom: number | null;
+}
+
+export interface CreditRow {
+  date: string;
+  entityType: string | null;
+  entityId: string | null;
+  instanceId: string | null;
+  skuId: string | null;
+  usageQuantity: number;
+  creditsUsed: number;
+}
+
+export interface RunQuery {
+  modelId?: string;
+  // Epoch ms, inclusive
+  since?: number;
+  until?: number;
+  limit?: number;
+}
+
+// Run statuses after which Domo no longer updates an instance
+export const TERMINAL_RUN_STATUSES = [
+  "COMPLETED",
+  "FAILED",
+  "ABORTED",
+  "CANCELED",
+  "CANCELLED",
+  "TERMINATED",
+];
+
+export function toMillis(
+  value: string | number | null | undefined,
+): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const num = Number(value);
+  if (!isNaN(num)) return num;
+  const parsed = Date.parse(String(value));
+  return isNaN(parsed) ? null : parsed;
+}
+
+// ---------------- WORKFLOWS ----------------
+export function upsertWorkflows(
+  instance: string,
+  workflows: WorkflowSearchObject[],
+  syncedAt: number,
+) {
+  const db = getDb();
+  const stmt = db.prepare(`
+    INSERT INTO workflows (instance, id, name, owner_id, owner_name, active, last_modified, raw, synced_at)
+    VALUES (@instance, @id, @name, @ownerId, @ownerName, @active, @lastModified, @raw, @syncedAt)
+    ON CONFLICT (instance, id) DO UPDATE SET
+      name = excluded.name, owner_id = excluded.owner_id, owner_name = excluded.owner_name,
+      active = excluded.active, last_modified = excluded.last_modified,
+      raw = excluded.raw, synced_at = excluded.synced_at
+  `);
+  db.transaction(() => {
+    for (const wf of workflows) {
+      stmt.run({
+        instance,
+        id: wf.uuid,
+        name: wf.name ?? null,
+        ownerId: wf.ownedById != null ? String(wf.ownedById) : null,
+        ownerName: wf.ownedByName ?? null,
+        active: wf.active ? 1 : 0,
+        lastModified: toMillis(wf.lastModified),
+        raw: JSON.stringify(wf),
+        syncedAt,
+      });
+    }
+  })();
+}
+
+// After a full sync: drop workflows Domo no longer returns
+export function deleteWorkflowsSyncedBefore(instance: string, before: number) {
+  return getDb()
+    .prepare("DELETE FROM workflows WHERE instance = ? AND synced_at < ?")
+    .run(instance, before).changes;
+}
+
+// Newest-modified first, like the search API
+export function listWorkflows(instance: string): WorkflowSearchObject[] {
+  const rows = getDb()
+    .prepare(
+      "SELECT raw FROM workflows WHERE instance = ? ORDER BY last_modified DESC",
+    )
+    .all(instance) as { raw: string }[];
+  return rows.map((r) => JSON.parse(r.raw));
+}
+
+export function latestWorkflowModification(instance: string): number | null {
+  const row = getDb()
+    .prepare(
+      "SELECT MAX(last_modified) AS latest FROM workflows WHERE instance = ?",
+    )
+    .get(instance) as { latest: number | null };
+  return row.latest;
+}
+
+// ---------------- RUNS ----------------
+export function upsertRuns(
+  instance: string,
+  runs: WorkflowInstance[],
+  syncedAt: number,
+) {
+  const db = getDb();
+  const stmt = db.prepare(`
+    INSERT INTO workflow_runs (instance, id, model_id, deployment_id, status, trigger_type, created_by, created_on, completed_on, raw, synced_at)
+    VALUES (@instance, @id, @modelId, @deploymentId, @status, @triggerType, @createdBy, @createdOn, @completedOn, @raw, @syncedAt)
+    ON CONFLICT (instance, id) DO UPDATE SET
+      status = excluded.status, completed_on = excluded.completed_on,
+      raw = excluded.raw, synced_at = excluded.synced_at
+  `);
+  db.transaction(() => {
+    for (const run of runs) {
+      const createdOn = toMillis(run.createdOn);
+      if (createdOn === null || !run.modelId) continue;
+      stmt.run({
+        instance,
+        id: run.id,
+        modelId: run.modelId,
+        deploymentId: run.deploymentId ?? null,
+        status: run.status,
+        triggerType: run.triggerType ?? null,
+        createdBy: run.createdBy != null ? String(run.createdBy) : null,
+        createdOn,
+        completedOn: toMillis(run.completedOn),
+        raw: JSON.stringify(run),
+        syncedAt,
+      });
+    }
+  })();
+}
+
+/**
+ * Oldest point a run sync for this workflow must reach back to: the
+ * newest stored run, or the oldest still-open run if that is earlier
+ * (its status may since have changed). Null when nothing is stored.
+ */
+export function runSyncWatermark(
+  instance: string,
+  modelId: string,
+): number | null {
+  const placeholders = TERMINAL_RUN_STATUSES.map(() => "?").join(", ");
+  const row = getDb()
+    .prepare(
+      `SELECT
+         MAX(created_on) AS newest,
+         MIN(CASE WHEN status NOT IN (${placeholders}) THEN created_on END) AS oldest_open
+       FROM workflow_runs WHERE instance = ? AND model_id = ?`,
+    )
+    .get(...TERMINAL_RUN_STATUSES, instance, modelId) as {
+    newest: number | null;
+    oldest_open: number | null;
+  };
+  if (row.newest === null) return null;
+  return row.oldest_open !== null
+    ? Math.min(row.newest, row.oldest_open)
+    : row.newest;
+}
+
+// Newest first
+export function listRuns(
+  instance: string,
+  { modelId, since, until, limit }: RunQuery = {},
+): WorkflowInstance[] {
+  const clauses = ["instance = @instance"];
+  if (modelId) clauses.push("model_id = @modelId");
+  if (since !== undefined) clauses.push("created_on >= @since");
+  if (until !== undefined) clauses.push("created_on <= @until");
+  const rows = getDb()
+    .prepare(
+      `SELECT raw FROM workflow_runs WHERE ${clauses.join(" AND ")}
+       ORDER BY created_on DESC ${limit ? "LIMIT @limit" : ""}`,
+    )
+    .all({ instance, modelId, since, until, limit }) as { raw: string }[];
+  return rows.map((r) => JSON.parse(r.raw));
+}
+
+// ---------------- CREDITS ----------------
+// Credit rows can be restated by Domo, so a sync replaces every row
+// from `sinceDate` (YYYY-MM-DD) onwards instead of appending
+export function replaceCreditRows(
+  instance: string,
+  sinceDate: string,
+  rows: CreditRow[],
+) {
+  const db = getDb();
+  const insert = db.prepare(`
+    INSERT INTO credit_usage (instance, date, entity_type, entity_id, instance_id, sku_id, usage_quantity, credits_used)
+    VALUES (@instance, @date, @entityType, @entityId, @instanceId, @skuId, @usageQuantity, @creditsUsed)
+  `);
+  db.transaction(() => {
+    db.prepare("DELETE FROM credit_usage WHERE instance = ? AND date >= ?").run(
+      instance,
+      sinceDate,
+    );
+    for (const row of rows) insert.run({ instance, ...row });
+  })();
+}
+
+export function latestCreditDate(instance: string): string | null {
+  const row = getDb()
+    .prepare("SELECT MAX(date) AS latest FROM credit_usage WHERE instance = ?")
+    .get(instance) as { latest: string | null };
+  return row.latest;
+}
+
+// Credits and usage per entity, day and SKU for one entity type
+// (dates inclusive), the grain pricing needs
+export function creditUsageBySku(
+  instance: string,
+  entityType: string,
+  sinceDate: string,
+  untilDate: string,
+): SkuCreditRow[] {
+  return getDb()
+    .prepare(
+      `SELECT entity_id AS entityId, date, sku_id AS skuId,
+         SUM(usage_quantity) AS usageQuantity, SUM(credits_used) AS creditsUsed
+       FROM credit_usage
+       WHERE instance = ? AND entity_type = ? AND date >= ? AND date <= ?
+       GROUP BY entity_id, date, sku_id`,
+    )
+    .all(instance, entityType, sinceDate, untilDate) as SkuCreditRow[];
+}
+
+// Credits per YYYY-MM-DD, optionally for one entity type / entity
+export function creditsByDate(
+  instance: string,
+  sinceDate: string,
+  untilDate: string,
+  entity: { type?: string; id?: string } = {},
+): Map<string, number> {
+  const clauses = [
+    "instance = @instance",
+    "date >= @sinceDate",
+    "date <= @untilDate",
+  ];
+  if (entity.type) clauses.push("entity_type = @type");
+  if (entity.id) clauses.push("entity_id = @id");
+  const rows = getDb()
+    .prepare(
+      `SELECT date, SUM(credits_used) AS credits FROM credit_usage
+       WHERE ${clauses.join(" AND ")}
+       GROUP BY date`,
+    )
+    .all({ instance, sinceDate, untilDate, ...entity }) as {
+    date: string;
+    credits: number;
+  }[];
+  return new Map(rows.map((r) => [r.date, r.credits]));
+}
+
+// Credits per entity per day for the given entity types (dates inclusive)
+export function creditsByEntityAndDate(
+  instance: string,
+  entityTypes: string[],
+  sinceDate: string,
+  untilDate: string,
+): { entityType: string; entityId: string; date: string; credits: number }[] {
+  const placeholders = entityTypes.map(() => "?").join(", ");
+  return getDb()
+    .prepare(
+      `SELECT entity_type AS entityType, entity_id AS entityId, date,
+         SUM(credits_used) AS credits
+       FROM credit_usage
+       WHERE instance = ? AND entity_type IN (${placeholders})
+         AND date >= ? AND date <= ?
+       GROUP BY entity_type, entity_id, date`,
+    )
+    .all(instance, ...entityTypes, sinceDate, untilDate) as {
+    entityType: string;
+    entityId: string;
+    date: string;
+    credits: number;
+  }[];
+}
+
+// Credit rows of one entity summed per day and dataset instanceId
+// (dates inclusive), for per-run attribution
+export function creditRowsForEntity(
+  instance: string,
+  entityType: string,
+  entityId: string,
+  sinceDate: string,
+  untilDate: string,
+): { date: string; instanceId: string | null; creditsUsed: number }[] {
+  return getDb()
+    .prepare(
+      `SELECT date, instance_id AS instanceId, SUM(credits_used) AS creditsUsed
+       FROM credit_usage
+       WHERE instance = ? AND entity_type = ? AND entity_id = ?
+         AND date >= ? AND date <= ?
+       GROUP BY date, instance_id`,
+    )
+    .all(instance, entityType, entityId, sinceDate, untilDate) as {
+    date: string;
+    instanceId: string | null;
+    creditsUsed: number;
+  }[];
+}
+
+// ---------------- SYNC STATE ----------------
+export function getSyncStates(instance: string): SyncState[] {
+  const rows = getDb()
+    .prepare("SELECT * FROM sync_state WHERE instance = ? ORDER BY resource")
+    .all(instance) as any[];
+  return rows.map((r) => ({
+    resource: r.resource,
+    lastStartedAt: r.last_started_at,
+    lastSuccessAt: r.last_success_at,
+    lastFullAt: r.last_full_at,
+    lastError: r.last_error,
+    lastErrorAt: r.last_error_at,
+    itemsSynced: r.items_synced,
+    coveredFrom: r.covered_from,
+  }));
+}
+
+export function getSyncState(
+  instance: string,
+  resource: SyncResource,
+): SyncState | undefined {
+  return getSyncStates(instance).find((s) => s.resource === resource);
+}
+
+export function markSyncStarted(
+  instance: string,
+  resource: SyncResource,
+  at: number,
+) {
+  getDb()
+    .prepare(
+      `INSERT INTO sync_state (instance, resource, last_started_at) VALUES (?, ?, ?)
+       ON CONFLICT (instance, resource) DO UPDATE SET last_started_at = excluded.last_started_at`,
+    )
+    .run(instance, resource, at);
+}
+
+export function markSyncSucceeded(
+  instance: string,
+  resource: SyncResource,
+  at: number,
+  items: number,
+  full: boolean,
+  coveredFrom: number | null = null,
+) {
+  // The first pass sets the coverage; later passes only add newer rows
+  getDb()
+    .prepare(
+      `UPDATE sync_state SET last_success_at = @at, items_synced = @items,
+         last_full_at = CASE WHEN @full THEN @at ELSE last_full_at END,
+         covered_from = COALESCE(covered_from, @coveredFrom)
+       WHERE instance = @instance AND resource = @resource`,
+    )
+    .run({ instance, resource, at, items, full: full ? 1 : 0, coveredFrom });
+}
+
+export function markSyncFailed(
+  instance: string,
+  resource: SyncResource,
+  at: number,
+  error: string,
+) {
+  getDb()
+    .prepare(
+      `UPDATE sync_state SET last_error = ?, last_error_at = ?
+       WHERE instance = ? AND resource = ?`,
+    )
+    .run(error, at, instance, resource);
+}
@@ -0,0 +1,9 @@
+import { getSyncWorker } from "./worker.js";
+
+// One sync pass over every configured instance, then exit
+// (for cron or a first backfill before starting the API)
+const results = await getSyncWorker().syncAll();
+for (const result of results) {
+  console.log(JSON.stringify(result));
+}
+process.exit(results.some((r) => Object.keys(r.errors).length > 0) ? 1 : 0);
@@ -0,0 +1,405 @@
+import dotenv from "dotenv";
+import { listInstances } from "../domo/config.js";
+import { DomoClient, getDomoClient } from "../domo/client.js";
+import { WorkflowInstance, WorkflowSearchObject } from "../domo/schemas.js";
+import {
+  CreditRow,
+  SyncResource,
+  deleteWorkflowsSyncedBefore,
+  getSyncState,
+  getSyncStates,
+  latestCreditDate,
+  latestWorkflowModification,
+  listWorkflows,
+  markSyncFailed,
+  markSyncStarted,
+  markSyncSucceeded,
+  replaceCreditRows,
+  runSyncWatermark,
+  toMillis,
+  upsertRuns,
+  upsertWorkflows,
+} from "../store/store.js";
+
+dotenv.config({ quiet: true });
+
+// ============================================================
+// BACKGROUND SYNC WORKER
+// ============================================================
+// Copies workflow models, workflow runs and credit rows of every
+// configured instance into the local store, fetching only what
+// changed since the previous pass:
+//   workflows -> search sorted by last_modified, stop at the newest
+//                stored modification (full pass once a day to drop
+//                deleted workflows)
+//   runs      -> per workflow, newest first, stop at the newest stored
+//                run (or the oldest still-open one)
+//   credits   -> re-query the last few days of the credits dataset
+//                (Domo restates recent days) and replace them
+// A failing resource is recorded in sync_state and does not stop the
+// others; routes keep serving the previous snapshot.
+//
+// Env: SYNC_ENABLED (default true), SYNC_INTERVAL_MS (5 min),
+//      SYNC_BACKFILL_DAYS (90), SYNC_FULL_INTERVAL_MS (24h),
+//      SYNC_STALE_AFTER_MS (1h — older snapshots are not served)
+// ============================================================
+
+const DAY = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 100;
+// Days of credit rows re-fetched on every pass
+const CREDIT_RESTATEMENT_DAYS = 3;
+
+function envMs(key: string, fallback: number) {
+  const value = Number(process.env[key]);
+  return process.env[key] && !isNaN(value) && value > 0 ? value : fallback;
+}
+
+export const syncSettings = {
+  enabled: (process.env.SYNC_ENABLED || "true").toLowerCase() !== "false",
+  intervalMs: envMs("SYNC_INTERVAL_MS", 5 * 60 * 1000),
+  backfillDays: envMs("SYNC_BACKFILL_DAYS", 90),
+  fullIntervalMs: envMs("SYNC_FULL_INTERVAL_MS", DAY),
+  staleAfterMs: envMs("SYNC_STALE_AFTER_MS", 60 * 60 * 1000),
+};
+
+interface StepOutcome {
+  synced: number;
+  full: boolean;
+  // Where the fetched rows start, for time-windowed resources
+  coveredFrom?: number;
+  // Partial failure: the step still counts as synced
+  error?: string;
+}
+
+export interface SyncResult {
+  instance: string;
+  startedAt: number;
+  finishedAt: number;
+  synced: Partial<Record<SyncResource, number>>;
+  errors: Partial<Record<SyncResource, string>>;
+}
+
+function isoDate(ms: number) {
+  return new Date(ms).toISOString().split("T")[0];
+}
+
+// Run `fn` over `items` with at most `limit` in flight
+async function forEachLimited<T>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<void>,
+) {
+  let next = 0;
+  const workers = Array.from(
+    { length: Math.min(limit, items.length) },
+    async () => {
+      while (next < items.length) await fn(items[next++]);
+    },
+  );
+  await Promise.all(workers);
+}
+
+// ---------------- RESOURCE SYNCS ----------------
+async function syncWorkflows(
+  domo: DomoClient,
+  startedAt: number,
+): Promise<StepOutcome> {
+  const instance = domo.instance.name;
+  const lastFullAt = getSyncState(instance, "workflows")?.lastFullAt ?? 0;
+  const full = startedAt - lastFullAt >= syncSettings.fullIntervalMs;
+  const watermark = full ? null : latestWorkflowModification(instance);
+
+  let offset = 0;
+  let synced = 0;
+  while (true) {
+    const page = await domo.searchWorkflows({ count: PAGE_SIZE, offset });
+    const changed: WorkflowSearchObject[] = [];
+    let reachedWatermark = false;
+    for (const wf of page.searchObjects) {
+      if (watermark !== null && (toMillis(wf.lastModified) ?? 0) < watermark) {
+        reachedWatermark = true;
+        break;
+      }
+      changed.push(wf);
+    }
+    upsertWorkflows(instance, changed, startedAt);
+    synced += changed.length;
+
+    if (reachedWatermark || page.searchObjects.length < PAGE_SIZE) break;
+    offset += PAGE_SIZE;
+    if (offset >= page.totalResultCount) break;
+  }
+
+  if (full) {
+    const removed = deleteWorkflowsSyncedBefore(instance, startedAt);
+    if (removed > 0)
+      console.error(`Sync ${instance}: removed ${removed} deleted workflows`);
+  }
+  return { synced, full };
+}
+
+async function syncRunsForWorkflow(
+  domo: DomoClient,
+  workflowId: string,
+  startedAt: number,
+) {
+  const instance = domo.instance.name;
+  const backfillFrom = startedAt - syncSettings.backfillDays * DAY;
+  const watermark = Math.max(
+    runSyncWatermark(instance, workflowId) ?? backfillFrom,
+    backfillFrom,
+  );
+
+  // Collect every page before writing: a pass that fails halfway must
+  // not move the watermark past runs it never fetched
+  let offset = 0;
+  const fetched: WorkflowInstance[] = [];
+  while (true) {
+    const page = await domo.listWorkflowInstances({
+      modelId: workflowId,
+      limit: PAGE_SIZE,
+      offset,
+    });
+    const inRange = page.filter(
+      (run) => (toMillis(run.createdOn) ?? 0) >= watermark,
+    );
+    fetched.push(
+      ...inRange.map((run) => ({ ...run, modelId: run.modelId ?? workflowId })),
+    );
+
+    if (inRange.length < page.length || page.length < PAGE_SIZE) break;
+    offset += PAGE_SIZE;
+  }
+  upsertRuns(instance, fetched, startedAt);
+  return fetched.length;
+}
+
+// One unreachable workflow shouldn't mark the whole snapshot unusable:
+// the pass fails only when no workflow could be synced
+async function syncRuns(
+  domo: DomoClient,
+  startedAt: number,
+): Promise<StepOutcome> {
+  // An empty store before the first workflow sync is not "no workflows"
+  if (!getSyncState(domo.instance.name, "workflows")?.lastSuccessAt) {
+    throw new Error("Workflows have not been synced yet");
+  }
+  const workflows = listWorkflows(domo.instance.name);
+  let synced = 0;
+  let failures = 0;
+  let lastError = "";
+
+  await forEachLimited(
+    workflows,
+    domo.instance.http.concurrency,
+    async (wf) => {
+      try {
+        const count = await syncRunsForWorkflow(domo, wf.uuid, startedAt);
+        synced += count;
+      } catch (e: any) {
+        failures++;
+        lastError = `${wf.uuid}: ${e.message}`;
+      }
+    },
+  );
+
+  const error =
+    failures > 0
+      ? `${failures}/${workflows.length} workflow(s) failed to sync runs, last: ${lastError}`
+      : undefined;
+  if (error && failures === workflows.length) throw new Error(error);
+  return {
+    synced,
+    full: false,
+    coveredFrom: startedAt - syncSettings.backfillDays * DAY,
+    error,
+  };
+}
+
+async function syncCredits(
+  domo: DomoClient,
+  startedAt: number,
+): Promise<StepOutcome | null> {
+  const instance = domo.instance.name;
+  const datasetId = domo.instance.creditsDatasetId;
+  if (!datasetId) return null;
+
+  const latest = latestCreditDate(instance);
+  const sinceDate = latest
+    ? isoDate(Date.parse(latest) - CREDIT_RESTATEMENT_DAYS * DAY)
+    : isoDate(startedAt - syncSettings.backfillDays * DAY);
+
+  const { rows } = await domo.queryDataset(
+    datasetId,
+    `
+      SELECT date, entityType, entityId, instanceId, skuId, usageQuantity, creditsUsed
+      FROM credit_usage
+      WHERE date >= '${sinceDate}'
+    `,
+  );
+
+  const creditRows: CreditRow[] = rows.map((row) => ({
+    date: String(row[0]).slice(0, 10),
+    entityType: row[1] != null ? String(row[1]) : null,
+    entityId: row[2] != null ? String(row[2]) : null,
+    instanceId: row[3] != null ? String(row[3]) : null,
+    skuId: row[4] != null ? String(row[4]) : null,
+    usageQuantity: parseFloat(row[5]) || 0,
+    creditsUsed: parseFloat(row[6]) || 0,
+  }));
+
+  replaceCreditRows(instance, sinceDate, creditRows);
+  return {
+    synced: creditRows.length,
+    full: false,
+    coveredFrom: Date.parse(sinceDate),
+  };
+}
+
+// ---------------- WORKER ----------------
+export class SyncWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private running = new Map<string, Promise<SyncResult>>();
+  private lastResults = new Map<string, SyncResult>();
+
+  start() {
+    if (this.timer || !syncSettings.enabled) return;
+    console.error(`Sync worker started (every ${syncSettings.intervalMs}ms)`);
+    const tick = () => {
+      this.syncAll().catch((e) =>
+        console.error(`Sync pass failed: ${e.message}`),
+      );
+    };
+    tick();
+    this.timer = setInterval(tick, syncSettings.intervalMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  syncAll() {
+    return Promise.all(listInstances().map((i) => this.syncInstance(i.name)));
+  }
+
+  // Concurrent calls for the same instance share one pass
+  syncInstance(name: string): Promise<SyncResult> {
+    const pending = this.running.get(name);
+    if (pending) return pending;
+
+    const promise = this.runPass(name).finally(() => this.running.delete(name));
+    this.running.set(name, promise);
+    return promise;
+  }
+
+  private async runPass(name: string): Promise<SyncResult> {
+    const domo = getDomoClient(name);
+    const result: SyncResult = {
+      instance: name,
+      startedAt: Date.now(),
+      finishedAt: 0,
+      synced: {},
+      errors: {},
+    };
+
+    const step = async (
+      resource: SyncResource,
+      fn: () => Promise<StepOutcome | null>,
+    ) => {
+      markSyncStarted(name, resource, Date.now());
+      try {
+        const outcome = await fn();
+        if (!outcome) return;
+        markSyncSucceeded(
+          name,
+          resource,
+          Date.now(),
+          outcome.synced,
+          outcome.full,
+          outcome.coveredFrom,
+        );
+        result.synced[resource] = outcome.synced;
+        if (outcome.error) {
+          markSyncFailed(name, resource, Date.now(), outcome.error);
+          result.errors[resource] = outcome.error;
+          console.error(
+            `Sync ${name}/${resource} partially failed: ${outcome.error}`,
+          );
+        }
+      } catch (e: any) {
+        markSyncFailed(name, resource, Date.now(), e.message);
+        result.errors[resource] = e.message;
+        console.error(`Sync ${name}/${resource} failed: ${e.message}`);
+      }
+    };
+
+    await step("workflows", () => syncWorkflows(domo, result.startedAt));
+    await step("runs", () => syncRuns(domo, result.startedAt));
+    await step("credits", () => syncCredits(domo, result.startedAt));
+
+    result.finishedAt = Date.now();
+    this.lastResults.set(name, result);
+    console.error(
+      `Sync ${name} finished in ${result.finishedAt - result.startedAt}ms: ${JSON.stringify(result.synced)}`,
+    );
+    return result;
+  }
+
+  status() {
+    return listInstances().map((i) => ({
+      instance: i.name,
+      running: this.running.has(i.name),
+      servingFromStore: isStoreReady(i.name),
+      resources: getSyncStates(i.name),
+      lastPass: this.lastResults.get(i.name) ?? null,
+    }));
+  }
+}
+
+/**
+ * True when routes may answer `resource` for this instance from the
+ * store: it has synced successfully and the snapshot is not stale.
+ *
+ * @param from Start of the time window asked for; windows reaching
+ *   back before the synced rows (SYNC_BACKFILL_DAYS on the first
+ *   pass) are not covered and have to be fetched live
+ */
+export function isStoreReady(
+  instance: string,
+  resource: SyncResource = "runs",
+  from?: Date,
+) {
+  if (!syncSettings.enabled) return false;
+  const state = getSyncState(instance, resource);
+  if (
+    from &&
+    (state?.coveredFrom == null || from.getTime() < state.coveredFrom)
+  ) {
+    return false;
+  }
+  return Boolean(
+    state?.lastSuccessAt &&
+    Date.now() - state.lastSuccessAt < syncSettings.staleAfterMs,
+  );
+}
+
+/**
+ * Oldest time the store has `resource` from, or null before it has
+ * synced.
+ */
+export function storeCoveredFrom(
+  instance: string,
+  resource: SyncResource = "runs",
+): Date | null {
+  const coveredFrom = getSyncState(instance, resource)?.coveredFrom;
+  return coveredFrom == null ? null : new Date(coveredFrom);
+}
+
+let worker: SyncWorker | null = null;
+
+export function getSyncWorker(): SyncWorker {
+  if (!worker) worker = new SyncWorker();
+  return worker;
+}
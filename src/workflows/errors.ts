@@ -0,0 +1,212 @@
+import { createHash } from "node:crypto";
+import { WorkflowInstance, WorkflowStep } from "../domo/schemas.js";
+
+// ============================================================
+// RUN ERRORS AND SIGNATURES
+// ============================================================
+// What made a failed run fail, from its step-level details: the
+// failing step, its error message and the inputs it was given. The
+// message is normalised into a signature so runs that failed the
+// same way group together, whatever ids, timestamps or numbers the
+// individual messages carried:
+//   URLs        -> <url:host>      UUIDs, long hex -> <id>
+//   emails      -> <email>         ISO timestamps  -> <time>
+//   numbers     -> <n>             (except HTTP statuses 100-599)
+// ============================================================
+
+export interface ErrorSignature {
+  // Stable short hash of `text`
+  id: string;
+  // "<step>: <normalised message>"
+  text: string;
+}
+
+export interface RunFailure {
+  runId: string;
+  workflowId: string | null;
+  startTime: string | null;
+  failedStep: string | null;
+  stepType: string | null;
+  errorMessage: string | null;
+  // Inputs of the failing step, secrets redacted
+  inputs: unknown;
+  signature: ErrorSignature | null;
+  // Where the message came from
+  source: "step" | "instance" | "none";
+}
+
+export interface SignatureGroup {
+  id: string;
+  signature: string;
+  step: string | null;
+  sampleMessage: string | null;
+  count: number;
+  workflowIds: string[];
+  // Most recent first, capped
+  runIds: string[];
+  firstSeen: string | null;
+  lastSeen: string | null;
+}
+
+const MAX_MESSAGE_LENGTH = 500;
+const MAX_SIGNATURE_LENGTH = 200;
+const MAX_INPUT_LENGTH = 2000;
+const MAX_GROUP_RUNS = 20;
+const SECRET_KEY =
+  /pass(word)?|secret|token|api[-_]?key|authorization|credential/i;
+
+/**
+ * Reduce an error message to the part that is the same every time
+ * the error happens.
+ *
+ * @param message Raw error message
+ */
+export function normalizeErrorMessage(message: string): string {
+  return message
+    .replace(/https?:\/\/([^/\s"'?]+)[^\s"']*/gi, "<url:$1>")
+    .replace(/[\w.+-]+@[\w-]+\.[\w.-]+/g, "<email>")
+    .replace(
+      /\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?/g,
+      "<time>",
+    )
+    .replace(
+      /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi,
+      "<id>",
+    )
+    .replace(/\b(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])[0-9a-f]{12,}\b/gi, "<id>")
+    .replace(/\b(?![1-5]\d\d\b)\d+(\.\d+)?/g, "<n>")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_SIGNATURE_LENGTH);
+}
+
+export function errorSignature(
+  step: string | null,
+  message: string,
+): ErrorSignature {
+  const text = `${step ?? "workflow"}: ${normalizeErrorMessage(message)}`;
+  const id = createHash("sha1").update(text).digest("hex").slice(0, 10);
+  return { id, text };
+}
+
+// Error fields are strings or objects depending on the step type
+function messageOf(error: unknown): string | null {
+  if (error == null || error === "") return null;
+  if (typeof error === "string") return error;
+  if (typeof error === "object") {
+    const e = error as Record<string, unknown>;
+    for (const field of ["message", "errorMessage", "detail", "reason"]) {
+      if (typeof e[field] === "string" && e[field]) return e[field] as string;
+    }
+  }
+  return JSON.stringify(error);
+}
+
+function redact(value: unknown, depth = 0): unknown {
+  if (depth > 5 || value === null || typeof value !== "object") return value;
+  if (Array.isArray(value)) return value.map((v) => redact(v, depth + 1));
+  return Object.fromEntries(
+    Object.entries(value).map(([key, v]) => [
+      key,
+      SECRET_KEY.test(key) ? "<redacted>" : redact(v, depth + 1),
+    ]),
+  );
+}
+
+function stepInputs(step: WorkflowStep): unknown {
+  if (step.input === undefined || step.input === null) return null;
+  const inputs = redact(step.input);
+  const json = JSON.stringify(inputs);
+  return json.length > MAX_INPUT_LENGTH
+    ? `${json.slice(0, MAX_INPUT_LENGTH)}…`
+    : inputs;
+}
+
+const truncate = (message: string | null) =>
+  message && message.length > MAX_MESSAGE_LENGTH
+    ? `${message.slice(0, MAX_MESSAGE_LENGTH)}…`
+    : message;
+
+/**
+ * Why a failed run failed. Prefers the failing step's error; falls
+ * back to the instance-level message when Domo returned no steps.
+ *
+ * @param instance Failed instance, with steps where available
+ */
+export function runFailure(instance: WorkflowInstance): RunFailure {
+  const steps = instance.steps ?? [];
+  const failed =
+    steps.find((s) => s.status?.toUpperCase() === "FAILED") ??
+    steps.find((s) => s.errorMessage || s.error);
+  const stepMessage = failed
+    ? (messageOf(failed.errorMessage) ?? messageOf(failed.error))
+    : null;
+  const instanceMessage =
+    messageOf(instance.errorMessage) ??
+    messageOf(instance.error) ??
+    messageOf(instance.failureReason) ??
+    messageOf(instance.statusMessage);
+  const errorMessage = truncate(stepMessage ?? instanceMessage);
+  const failedStep = failed ? (failed.name ?? failed.nodeName ?? null) : null;
+
+  return {
+    runId: instance.id,
+    workflowId: instance.modelId ?? null,
+    startTime: instance.createdOn,
+    failedStep,
+    stepType: failed?.type ?? null,
+    errorMessage,
+    inputs: failed ? stepInputs(failed) : null,
+    signature: errorMessage ? errorSignature(failedStep, errorMessage) : null,
+    source: stepMessage ? "step" : instanceMessage ? "instance" : "none",
+  };
+}
+
+/**
+ * Group failures by signature, largest group first. Failures without
+ * an error message are left out.
+ *
+ * @param failures Failures of any number of workflows
+ */
+export function groupBySignature(failures: RunFailure[]): SignatureGroup[] {
+  const groups = new Map<string, SignatureGroup>();
+  const sorted = [...failures].sort((a, b) =>
+    (b.startTime ?? "").localeCompare(a.startTime ?? ""),
+  );
+  for (const failure of sorted) {
+    if (!failure.signature) continue;
+    let group = groups.get(failure.signature.id);
+    if (!group) {
+      group = {
+        id: failure.signature.id,
+        signature: failure.signature.text,
+        step: failure.failedStep,
+        sampleMessage: failure.errorMessage,
+        count: 0,
+        workflowIds: [],
+        runIds: [],
+        firstSeen: failure.startTime,
+        lastSeen: failure.startTime,
+      };
+      groups.set(failure.signature.id, group);
+    }
+    group.count++;
+    if (failure.workflowId && !group.workflowIds.includes(failure.workflowId)) {
+      group.workflowIds.push(failure.workflowId);
+    }
+    if (group.runIds.length < MAX_GROUP_RUNS) group.runIds.push(failure.runId);
+    group.firstSeen = failure.startTime ?? group.firstSeen;
+  }
+  return Array.from(groups.values()).sort((a, b) => b.count - a.count);
+}
+
+// "14 runs failed with the same error in step 'Call API': 401 ..."
+export function describeGroup(
+  group: Pick<SignatureGroup, "count" | "step" | "sampleMessage" | "signature">,
+): string {
+  const where = group.step ? ` in step '${group.step}'` : "";
+  const what = group.sampleMessage ?? group.signature;
+  return group.count === 1
+    ? `1 run failed${where}: ${what}`
+    : `${group.count} runs failed with the same error${where}: ${what}`;
+}
@@ -0,0 +1,342 @@
+import { DomoClient } from "../domo/client.js";
+import { WorkflowInstance } from "../domo/schemas.js";
+import { getCache } from "../cache/cache.js";
+import { getDb } from "../store/db.js";
+import { listRuns, listWorkflows, toMillis } from "../store/store.js";
+import { isStoreReady } from "../sync/worker.js";
+import { TimeRange } from "../metrics/range.js";
+import {
+  RunFailure,
+  SignatureGroup,
+  groupBySignature,
+  runFailure,
+} from "./errors.js";
+
+// ============================================================
+// FAILURE CLUSTERS
+// ============================================================
+// Failed runs grouped by error signature (errors.ts) across
+// workflows and over time. Every failure whose step details were
+// fetched is recorded in the store's run_failures table, so details
+// are fetched from Domo once per run, and clusters keep their first
+// sighting and total count beyond the window being looked at.
+//
+// Failed runs come from the store when synced. Live, only the latest
+// LIVE_RUNS_PER_WORKFLOW runs of the LIVE_WORKFLOWS most recently
+// modified workflows are looked at.
+// ============================================================
+
+export const MAX_FAILURE_DETAILS = 25;
+// New details fetched per clustering call; later calls fetch the rest
+const MAX_CLUSTER_DETAILS = 100;
+const LIVE_WORKFLOWS = 50;
+const LIVE_RUNS_PER_WORKFLOW = 100;
+// SQLite's default bound-parameter limit is 999
+const LOOKUP_CHUNK = 500;
+
+export interface FailureCluster extends Omit<SignatureGroup, "workflowIds"> {
+  workflows: { id: string; name: string | null; count: number }[];
+  // Distinct UTC days with an occurrence in the window
+  activeDays: number;
+  // Every recorded occurrence, inside the window and before it
+  totalOccurrences: number;
+  firstSeenEver: string | null;
+}
+
+export interface FailureClusterReport {
+  clusters: FailureCluster[];
+  failedRuns: number;
+  // Failed runs without any error message to cluster on
+  unexplained: number;
+  // Failed runs whose step details are not fetched yet
+  pendingDetails: number;
+}
+
+export interface ClusterOptions {
+  limit?: number;
+  // Smallest cluster to report
+  minOccurrences?: number;
+}
+
+function fromRow(row: any): RunFailure {
+  return {
+    runId: row.run_id,
+    workflowId: row.workflow_id,
+    startTime:
+      row.started_at !== null ? new Date(row.started_at).toISOString() : null,
+    failedStep: row.failed_step,
+    stepType: row.step_type,
+    errorMessage: row.error_message,
+    inputs: row.inputs !== null ? JSON.parse(row.inputs) : null,
+    signature:
+      row.signature_id !== null
+        ? { id: row.signature_id, text: row.signature }
+        : null,
+    source: row.source,
+  };
+}
+
+export function recordFailures(instance: string, failures: RunFailure[]) {
+  const db = getDb();
+  const stmt = db.prepare(`
+    INSERT INTO run_failures (instance, run_id, workflow_id, started_at, failed_step, step_type, error_message, inputs, signature_id, signature, source, recorded_at)
+    VALUES (@instance, @runId, @workflowId, @startedAt, @failedStep, @stepType, @errorMessage, @inputs, @signatureId, @signature, @source, @recordedAt)
+    ON CONFLICT (instance, run_id) DO UPDATE SET
+      failed_step = excluded.failed_step, step_type = excluded.step_type,
+      error_message = excluded.error_message, inputs = excluded.inputs,
+      signature_id = excluded.signature_id, signature = excluded.signature,
+      source = excluded.source, recorded_at = excluded.recorded_at
+  `);
+  const recordedAt = Date.now();
+  db.transaction(() => {
+    for (const f of failures) {
+      stmt.run({
+        instance,
+        runId: f.runId,
+        workflowId: f.workflowId,
+        startedAt: toMillis(f.startTime),
+        failedStep: f.failedStep,
+        stepType: f.stepType,
+        errorMessage: f.errorMessage,
+        inputs: f.inputs == null ? null : JSON.stringify(f.inputs),
+        signatureId: f.signature?.id ?? null,
+        signature: f.signature?.text ?? null,
+        source: f.source,
+        recordedAt,
+      });
+    }
+  })();
+}
+
+function recordedFailures(
+  instance: string,
+  runIds: string[],
+): Map<string, RunFailure> {
+  const recorded = new Map<string, RunFailure>();
+  for (let i = 0; i < runIds.length; i += LOOKUP_CHUNK) {
+    const chunk = runIds.slice(i, i + LOOKUP_CHUNK);
+    getDb()
+      .prepare(
+        `SELECT * FROM run_failures
+         WHERE instance = ? AND run_id IN (${chunk.map(() => "?").join(", ")})`,
+      )
+      .all(instance, ...chunk)
+      .forEach((row: any) => recorded.set(row.run_id, fromRow(row)));
+  }
+  return recorded;
+}
+
+/**
+ * Why each failed run failed, by run id. Recorded failures are
+ * reused; details of up to `limit` others are fetched (newest first)
+ * and recorded. The rest, and runs whose details fail to load, use
+ * the listed instance's own message.
+ *
+ * @param domo Client of the runs' instance
+ * @param runs Runs of any status, newest first
+ * @param limit Step details to fetch from Domo
+ */
+export async function fetchRunFailures(
+  domo: DomoClient,
+  runs: WorkflowInstance[],
+  limit = MAX_FAILURE_DETAILS,
+): Promise<Map<string, RunFailure>> {
+  const instance = domo.instance.name;
+  const failed = runs.filter((r) => r.status === "FAILED");
+  const recorded = recordedFailures(
+    instance,
+    failed.map((r) => r.id),
+  );
+  const fetched: RunFailure[] = [];
+  let fetchesLeft = limit;
+
+  const failures = await Promise.all(
+    failed.map(async (run) => {
+      const known = recorded.get(run.id);
+      if (known) return known;
+      if (fetchesLeft-- <= 0) return runFailure(run);
+      try {
+        const detail = await getCache().getOrLoad(
+          instance,
+          "instances",
+          `detail:${run.id}`,
+          () => domo.getWorkflowInstance(run.id),
+        );
+        const failure = runFailure({ ...run, ...detail });
+        fetched.push(failure);
+        return failure;
+      } catch (e: any) {
+        console.warn(`No step details for run ${run.id}: ${e.message}`);
+        return runFailure(run);
+      }
+    }),
+  );
+  recordFailures(instance, fetched);
+  return new Map(failures.map((f) => [f.runId, f]));
+}
+
+async function loadFailedRuns(
+  domo: DomoClient,
+  range: TimeRange,
+): Promise<{ runs: WorkflowInstance[]; names: Map<string, string | null> }> {
+  const instance = domo.instance.name;
+  const from = range.from.getTime();
+  const to = range.to.getTime();
+  if (isStoreReady(instance, "runs", range.from)) {
+    return {
+      runs: listRuns(instance, { since: from, until: to }).filter(
+        (r) => r.status === "FAILED",
+      ),
+      names: new Map(
+        listWorkflows(instance).map((w) => [w.uuid, w.name ?? null]),
+      ),
+    };
+  }
+
+  const { searchObjects } = await getCache().getOrLoad(
+    instance,
+    "workflows",
+    `recent:${LIVE_WORKFLOWS}`,
+    () => domo.searchWorkflows({ count: LIVE_WORKFLOWS }),
+  );
+  const perWorkflow = await Promise.all(
+    searchObjects.map(async (wf) => {
+      try {
+        const recent = await getCache().getOrLoad(
+          instance,
+          "executions",
+          `recent:${wf.uuid}:${LIVE_RUNS_PER_WORKFLOW}`,
+          () =>
+            domo.listWorkflowInstances({
+              modelId: wf.uuid,
+              limit: LIVE_RUNS_PER_WORKFLOW,
+            }),
+        );
+        return recent.filter((r) => {
+          const created = toMillis(r.createdOn);
+          return (
+            r.status === "FAILED" &&
+            created !== null &&
+            created >= from &&
+            created <= to
+          );
+        });
+      } catch (e: any) {
+        console.warn(`Skipping ${wf.uuid} in failure clustering: ${e.message}`);
+        return [];
+      }
+    }),
+  );
+  return {
+    runs: perWorkflow
+      .flat()
+      .sort(
+        (a, b) => (toMillis(b.createdOn) ?? 0) - (toMillis(a.createdOn) ?? 0),
+      ),
+    names: new Map(searchObjects.map((w) => [w.uuid, w.name ?? null])),
+  };
+}
+
+function allTimeStats(instance: string, signatureIds: string[]) {
+  const stats = new Map<string, { total: number; first: number | null }>();
+  for (let i = 0; i < signatureIds.length; i += LOOKUP_CHUNK) {
+    const chunk = signatureIds.slice(i, i + LOOKUP_CHUNK);
+    getDb()
+      .prepare(
+        `SELECT signature_id, COUNT(*) AS total, MIN(started_at) AS first
+         FROM run_failures
+         WHERE instance = ? AND signature_id IN (${chunk.map(() => "?").join(", ")})
+         GROUP BY signature_id`,
+      )
+      .all(instance, ...chunk)
+      .forEach((row: any) =>
+        stats.set(row.signature_id, { total: row.total, first: row.first }),
+      );
+  }
+  return stats;
+}
+
+/**
+ * Recurring failures of the window: failed runs across all workflows
+ * clustered by error signature, largest first.
+ *
+ * @param domo Client of the instance to analyse
+ * @param range Window of run start times
+ * @param options Cluster count and minimum size
+ */
+export async function failureClusters(
+  domo: DomoClient,
+  range: TimeRange,
+  { limit = 20, minOccurrences = 2 }: ClusterOptions = {},
+): Promise<FailureClusterReport> {
+  const instance = domo.instance.name;
+  const { runs, names } = await loadFailedRuns(domo, range);
+  const failures = [
+    ...(await fetchRunFailures(domo, runs, MAX_CLUSTER_DETAILS)).values(),
+  ];
+
+  const bySignature = new Map<string, RunFailure[]>();
+  for (const f of failures) {
+    if (!f.signature) continue;
+    bySignature.set(f.signature.id, [
+      ...(bySignature.get(f.signature.id) ?? []),
+      f,
+    ]);
+  }
+  const groups = groupBySignature(failures).filter(
+    (g) => g.count >= minOccurrences,
+  );
+  const stats = allTimeStats(
+    instance,
+    groups.map((g) => g.id),
+  );
+
+  const clusters = groups
+    .map(({ workflowIds, ...group }) => {
+      const members = bySignature.get(group.id) ?? [];
+      const counts = new Map<string, number>();
+      for (const f of members) {
+        if (f.workflowId) {
+          counts.set(f.workflowId, (counts.get(f.workflowId) ?? 0) + 1);
+        }
+      }
+      const days = new Set(
+        members
+          .filter((f) => f.startTime)
+          .map((f) => f.startTime!.slice(0, 10)),
+      );
+      const recorded = stats.get(group.id);
+      const firstEver =
+        recorded?.first != null ? new Date(recorded.first).toISOString() : null;
+      return {
+        ...group,
+        workflows: workflowIds.map((id) => ({
+          id,
+          name: names.get(id) ?? null,
+          count: counts.get(id) ?? 0,
+        })),
+        activeDays: days.size,
+        totalOccurrences: Math.max(recorded?.total ?? 0, group.count),
+        firstSeenEver:
+          firstEver && (!group.firstSeen || firstEver < group.firstSeen)
+            ? firstEver
+            : group.firstSeen,
+      };
+    })
+    .sort(
+      (a, b) => b.count - a.count || b.workflows.length - a.workflows.length,
+    )
+    .slice(0, limit);
+
+  return {
+    clusters,
+    failedRuns: runs.length,
+    unexplained: failures.filter((f) => !f.signature).length,
+    pendingDetails:
+      runs.length -
+      recordedFailures(
+        instance,
+        runs.map((r) => r.id),
+      ).size,
+  };
+}
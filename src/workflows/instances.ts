@@ -0,0 +1,185 @@
+import { DomoClient } from "../domo/client.js";
+import { WorkflowInstance, WorkflowStep } from "../domo/schemas.js";
+import { TERMINAL_RUN_STATUSES, toMillis } from "../store/store.js";
+
+// ============================================================
+// WORKFLOW INSTANCE LIFECYCLE
+// ============================================================
+// Follow a workflow instance after it was started: its status and
+// steps, waiting for a terminal status, and what a retry needs.
+// Domo reports statuses as given (RUNNING, COMPLETED, FAILED, ...);
+// terminal ones are TERMINAL_RUN_STATUSES, shared with the sync.
+// ============================================================
+
+export interface InstanceStep {
+  name: string | null;
+  type: string | null;
+  status: string | null;
+  startedOn: string | null;
+  completedOn: string | null;
+  durationSeconds: number | null;
+  errorMessage: string | null;
+}
+
+export interface InstanceDetail {
+  instanceId: string;
+  modelId: string | null;
+  modelVersion: string | null;
+  status: string;
+  terminal: boolean;
+  triggerType: string | null;
+  createdOn: string;
+  completedOn: string | null;
+  durationSeconds: number | null;
+  errorMessage: string | null;
+  // null when Domo did not return steps for the instance
+  steps: InstanceStep[] | null;
+  // First failed step, to point at where it broke
+  failedStep: string | null;
+}
+
+export interface InstanceWaitResult {
+  instance: InstanceDetail;
+  timedOut: boolean;
+  waitedSeconds: number;
+}
+
+export interface RetryInput {
+  messageName: string;
+  version: string;
+  modelId: string;
+  data: Record<string, unknown>;
+}
+
+export const isTerminal = (status: string) =>
+  TERMINAL_RUN_STATUSES.includes(status.toUpperCase());
+
+const toIso = (value: string | number | null | undefined) => {
+  const ms = toMillis(value);
+  return ms === null ? null : new Date(ms).toISOString();
+};
+
+function secondsBetween(
+  from: string | number | null | undefined,
+  to: string | number | null | undefined,
+) {
+  const start = toMillis(from);
+  const end = toMillis(to);
+  return start !== null && end !== null
+    ? Math.max(0, Math.round((end - start) / 1000))
+    : null;
+}
+
+function toStep(step: WorkflowStep): InstanceStep {
+  return {
+    name: step.name ?? step.nodeName ?? null,
+    type: step.type ?? null,
+    status: step.status ?? null,
+    startedOn: toIso(step.startedOn),
+    completedOn: toIso(step.completedOn),
+    durationSeconds: secondsBetween(step.startedOn, step.completedOn),
+    errorMessage: step.errorMessage ?? null,
+  };
+}
+
+export function describeInstance(instance: WorkflowInstance): InstanceDetail {
+  const steps = instance.steps?.map(toStep) ?? null;
+  const failed = steps?.find((s) => s.status?.toUpperCase() === "FAILED");
+  const endTime = isTerminal(instance.status)
+    ? (instance.completedOn ?? instance.updatedOn ?? null)
+    : null;
+  return {
+    instanceId: instance.id,
+    modelId: instance.modelId ?? null,
+    modelVersion: instance.modelVersion ?? null,
+    status: instance.status,
+    terminal: isTerminal(instance.status),
+    triggerType: instance.triggerType ?? null,
+    createdOn: instance.createdOn,
+    completedOn: endTime,
+    durationSeconds:
+      instance.duration ?? secondsBetween(instance.createdOn, endTime),
+    errorMessage:
+      instance.errorMessage ??
+      instance.failureReason ??
+      instance.statusMessage ??
+      failed?.errorMessage ??
+      null,
+    steps,
+    failedStep: failed?.name ?? null,
+  };
+}
+
+/**
+ * The message that re-runs an instance with the input it was started
+ * with, or the reason it cannot be rebuilt.
+ *
+ * @param instance Instance to re-run
+ * @param messageName Start message, when the instance does not record it
+ */
+export function retryInput(
+  instance: WorkflowInstance,
+  messageName?: string,
+): RetryInput | { error: string } {
+  if (!isTerminal(instance.status)) {
+    return {
+      error: `Instance ${instance.id} is still ${instance.status}; cancel it or wait for it to finish before retrying`,
+    };
+  }
+  const message = messageName ?? instance.messageName;
+  if (!message) {
+    return {
+      error: `Instance ${instance.id} does not record its start message; pass messageName`,
+    };
+  }
+  if (!instance.modelId || !instance.modelVersion) {
+    return {
+      error: `Instance ${instance.id} does not record its workflow model and version`,
+    };
+  }
+  if (!instance.data) {
+    return {
+      error: `Instance ${instance.id} does not record its input data; use trigger-workflow-message with the data instead`,
+    };
+  }
+  return {
+    messageName: message,
+    version: instance.modelVersion,
+    modelId: instance.modelId,
+    data: instance.data,
+  };
+}
+
+/**
+ * Poll an instance until it reaches a terminal status or the timeout
+ * passes.
+ *
+ * @param domo Client of the instance's Domo instance
+ * @param instanceId Workflow instance id
+ * @param timeoutSeconds Give up (timedOut: true) after this long
+ * @param onPoll Called with the seconds waited after each unfinished check
+ * @param pollSeconds Delay between status checks
+ */
+export async function waitForWorkflowInstance(
+  domo: DomoClient,
+  instanceId: string,
+  timeoutSeconds: number,
+  onPoll?: (waitedSeconds: number) => Promise<void>,
+  pollSeconds = 5,
+): Promise<InstanceWaitResult> {
+  const started = Date.now();
+  const deadline = started + timeoutSeconds * 1000;
+  while (true) {
+    const instance = describeInstance(
+      await domo.getWorkflowInstance(instanceId),
+    );
+    const now = Date.now();
+    const waitedSeconds = Math.round((now - started) / 1000);
+    if (instance.terminal) return { instance, timedOut: false, waitedSeconds };
+    if (now >= deadline) return { instance, timedOut: true, waitedSeconds };
+    await onPoll?.(waitedSeconds);
+    await new Promise((resolve) =>
+      setTimeout(resolve, Math.min(pollSeconds * 1000, deadline - now)),
+    );
+  }
+}